@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Bundling breaks ws's optional native helpers; the STT proxy loads it from node_modules.
+  serverExternalPackages: ["ws"],
 };
 
 export default nextConfig;
@@ -0,0 +1,49 @@
+/**
+ * Prints an AUTH_USERS entry for local sign-in (AUTH_MODE=local).
+ *
+ * Usage:
+ *   npm run hash-password -- alice
+ *   (prompts for the password; or pipe it in: echo "secret" | npm run hash-password -- alice)
+ *
+ * Append the output to AUTH_USERS, comma-separated: AUTH_USERS=alice=scrypt...,bob=scrypt...
+ */
+
+import { randomBytes, scrypt } from "node:crypto";
+import process from "node:process";
+import readline from "node:readline";
+import { Writable } from "node:stream";
+
+const username = process.argv[2];
+if (!username || /[=,]/.test(username)) {
+  console.error("Usage: npm run hash-password -- <username>  (no '=' or ',' in the name)");
+  process.exit(1);
+}
+
+async function readPassword() {
+  const isTTY = Boolean(process.stdin.isTTY);
+  // readline echoes what is typed to its output; drop it so the password stays off the screen.
+  const muted = new Writable({ write: (_chunk, _encoding, done) => done() });
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: isTTY });
+  if (isTTY) process.stderr.write("Password: ");
+  for await (const line of rl) {
+    rl.close();
+    if (isTTY) process.stderr.write("\n");
+    return line;
+  }
+  return "";
+}
+
+const password = await readPassword();
+if (!password) {
+  console.error("Empty password.");
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+scrypt(password, salt, 32, (err, hash) => {
+  if (err) {
+    console.error(err.message);
+    process.exit(1);
+  }
+  console.log(`${username}=scrypt.${salt.toString("base64url")}.${hash.toString("base64url")}`);
+});
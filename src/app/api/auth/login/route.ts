@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import {
+  cookieOptions,
+  createSessionToken,
+  resolveAuthConfig,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from "@/lib/auth";
+import { verifyPassword } from "@/lib/auth/passwords";
+
+// Checked for unknown users too, so response times don't reveal which usernames exist.
+const DUMMY_HASH = "scrypt.AAAAAAAAAAAAAAAAAAAAAA.AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+
+/**
+ * Local sign-in (AUTH_MODE=local). Body: `{ username, password }`; sets the session cookie.
+ */
+export async function POST(req: Request) {
+  const auth = resolveAuthConfig();
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: 500 });
+  }
+  if (auth.config.mode !== "local") {
+    return NextResponse.json({ error: "Password sign-in is not enabled." }, { status: 404 });
+  }
+
+  let payload: { username?: unknown; password?: unknown };
+  try {
+    payload = (await req.json()) as { username?: unknown; password?: unknown };
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const username = typeof payload.username === "string" ? payload.username.trim() : "";
+  const password = typeof payload.password === "string" ? payload.password : "";
+  const hash = auth.config.users.get(username);
+  const ok = await verifyPassword(password, hash ?? DUMMY_HASH);
+  if (!hash || !ok) {
+    return NextResponse.json({ error: "Wrong username or password." }, { status: 401 });
+  }
+
+  const user = { id: username, name: username };
+  const res = NextResponse.json({ user }, { status: 200 });
+  res.cookies.set(
+    SESSION_COOKIE,
+    createSessionToken(user, auth.config.secret),
+    cookieOptions(req, SESSION_TTL_SECONDS),
+  );
+  return res;
+}
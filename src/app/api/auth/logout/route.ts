@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { cookieOptions, SESSION_COOKIE } from "@/lib/auth";
+
+/**
+ * Signs out by clearing the session cookie.
+ */
+export async function POST(req: Request) {
+  const res = NextResponse.json({ ok: true }, { status: 200 });
+  res.cookies.set(SESSION_COOKIE, "", cookieOptions(req, 0));
+  return res;
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import {
+  cookieOptions,
+  createSessionToken,
+  readCookie,
+  resolveAuthConfig,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  unsealValue,
+} from "@/lib/auth";
+import {
+  completeAuthorization,
+  OIDC_CALLBACK_PATH,
+  OIDC_STATE_COOKIE,
+  type OidcLoginState,
+} from "@/lib/auth/oidc";
+
+/**
+ * OIDC redirect target: checks `state`, exchanges the code and signs the user in.
+ * Failures go back to /login with an `error` message.
+ */
+export async function GET(req: Request) {
+  const auth = resolveAuthConfig();
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: 500 });
+  }
+  const { oidc, publicUrl, secret } = auth.config;
+  if (!oidc) {
+    return NextResponse.json({ error: "OIDC sign-in is not enabled." }, { status: 404 });
+  }
+
+  const url = new URL(req.url);
+  const origin = publicUrl ?? url.origin;
+  const fail = (message: string) => {
+    const login = new URL("/login", origin);
+    login.searchParams.set("error", message);
+    const res = NextResponse.redirect(login);
+    res.cookies.set(OIDC_STATE_COOKIE, "", cookieOptions(req, 0));
+    return res;
+  };
+
+  const loginState = unsealValue<OidcLoginState>(readCookie(req, OIDC_STATE_COOKIE), secret);
+  const code = url.searchParams.get("code");
+  if (url.searchParams.get("error")) {
+    return fail(url.searchParams.get("error_description") || "Sign-in was cancelled.");
+  }
+  if (
+    !loginState ||
+    loginState.exp < Date.now() ||
+    loginState.state !== url.searchParams.get("state")
+  ) {
+    return fail("The sign-in attempt expired. Please try again.");
+  }
+  if (!code) return fail("The provider did not return an authorization code.");
+
+  try {
+    const user = await completeAuthorization(
+      oidc,
+      `${origin}${OIDC_CALLBACK_PATH}`,
+      code,
+      loginState.verifier,
+    );
+    const res = NextResponse.redirect(new URL(loginState.next, origin));
+    res.cookies.set(
+      SESSION_COOKIE,
+      createSessionToken(user, secret),
+      cookieOptions(req, SESSION_TTL_SECONDS),
+    );
+    res.cookies.set(OIDC_STATE_COOKIE, "", cookieOptions(req, 0));
+    return res;
+  } catch (e) {
+    return fail(e instanceof Error ? e.message : "Sign-in failed.");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { cookieOptions, resolveAuthConfig, safeNextPath, sealValue } from "@/lib/auth";
+import {
+  createAuthorizationRequest,
+  OIDC_CALLBACK_PATH,
+  OIDC_STATE_COOKIE,
+  OIDC_STATE_TTL_SECONDS,
+} from "@/lib/auth/oidc";
+
+/**
+ * Starts OIDC sign-in (AUTH_MODE=oidc): redirects to the provider. Query: `next` (path to
+ * return to afterwards).
+ */
+export async function GET(req: Request) {
+  const auth = resolveAuthConfig();
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: 500 });
+  }
+  const { oidc, publicUrl, secret } = auth.config;
+  if (!oidc) {
+    return NextResponse.json({ error: "OIDC sign-in is not enabled." }, { status: 404 });
+  }
+
+  const url = new URL(req.url);
+  const redirectUri = `${publicUrl ?? url.origin}${OIDC_CALLBACK_PATH}`;
+  try {
+    const next = safeNextPath(url.searchParams.get("next"));
+    const { url: authorizeUrl, loginState } = await createAuthorizationRequest(
+      oidc,
+      redirectUri,
+      next,
+    );
+    const res = NextResponse.redirect(authorizeUrl);
+    res.cookies.set(
+      OIDC_STATE_COOKIE,
+      sealValue(loginState, secret),
+      cookieOptions(req, OIDC_STATE_TTL_SECONDS),
+    );
+    return res;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "OIDC sign-in failed.";
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
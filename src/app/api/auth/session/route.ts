@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { allowHeaderKeys, getSessionUser, resolveAuthConfig } from "@/lib/auth";
+
+/**
+ * Who is signed in, and whether keys typed into the browser are accepted (development only).
+ */
+export async function GET(req: Request) {
+  const auth = resolveAuthConfig();
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: 500 });
+  }
+  return NextResponse.json(
+    {
+      mode: auth.config.mode,
+      user: getSessionUser(req, auth.config),
+      allowHeaderKeys: allowHeaderKeys(),
+    },
+    { status: 200 },
+  );
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { getSessionUser, resolveAuthConfig, type AuthConfig } from "@/lib/auth";
+import {
+  isStoredKeyName,
+  keyScope,
+  listStoredKeys,
+  setStoredKeys,
+  validateStoredKey,
+  type StoredKeyName,
+} from "@/lib/auth/keyStore";
+
+type SignedIn =
+  { ok: true; config: AuthConfig; scope: string } | { ok: false; response: NextResponse };
+
+function signedIn(req: Request): SignedIn {
+  const auth = resolveAuthConfig();
+  if (!auth.ok) {
+    return { ok: false, response: NextResponse.json({ error: auth.error }, { status: 500 }) };
+  }
+  if (auth.config.mode === "none") {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "Saving keys needs sign-in (AUTH_MODE=local or oidc)." },
+        { status: 404 },
+      ),
+    };
+  }
+  const user = getSessionUser(req, auth.config);
+  if (!user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Sign in required." }, { status: 401 }),
+    };
+  }
+  return { ok: true, config: auth.config, scope: keyScope(auth.config, user) };
+}
+
+/**
+ * Which API keys the signed-in user (or the workspace, with AUTH_KEY_SCOPE=workspace) has
+ * saved: `{ keys: { elevenlabs: boolean, translate: boolean }, scope }`. Keys are never returned.
+ */
+export async function GET(req: Request) {
+  const s = signedIn(req);
+  if (!s.ok) return s.response;
+  const keys = await listStoredKeys(s.config, s.scope);
+  return NextResponse.json({ keys, scope: s.config.keyScope }, { status: 200 });
+}
+
+/**
+ * Saves keys, encrypted. Body: `{ elevenlabs?: string | null, translate?: string | null }`;
+ * null removes a key, omitted keys are left alone.
+ */
+export async function PUT(req: Request) {
+  const s = signedIn(req);
+  if (!s.ok) return s.response;
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await req.json()) as Record<string, unknown>;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  if (!payload || typeof payload !== "object") {
+    return NextResponse.json({ error: "Body must be an object." }, { status: 400 });
+  }
+
+  const updates: Partial<Record<StoredKeyName, string | null>> = {};
+  for (const [name, value] of Object.entries(payload)) {
+    if (!isStoredKeyName(name)) {
+      return NextResponse.json({ error: `Unknown key "${name}".` }, { status: 400 });
+    }
+    const invalid = validateStoredKey(value);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    updates[name] = value as string | null;
+  }
+
+  try {
+    await setStoredKeys(s.config, s.scope, updates);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Failed to save keys.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+  const keys = await listStoredKeys(s.config, s.scope);
+  return NextResponse.json({ keys, scope: s.config.keyScope }, { status: 200 });
+}
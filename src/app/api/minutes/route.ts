@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { checkLimits } from "@/lib/limits";
+import {
+  buildChunkMessage,
+  buildMergeMessage,
+  chunkTranscript,
+  MAX_CHUNKS,
+  MINUTES_INSTRUCTION,
+  normalizeMinutes,
+  validateMinutesRequest,
+} from "@/lib/minutes/prompt";
+import type { MinutesRequestBody } from "@/lib/minutes/types";
+import {
+  createTranslationProvider,
+  providerErrorBody,
+  resolveTranslationConfig,
+} from "@/lib/translate";
+import { recordUsage, translationUsage } from "@/lib/usage";
+
+// Minutes are longer than a translation; a merge of many parts most of all.
+const PART_MAX_TOKENS = 2048;
+const MERGE_MAX_TOKENS = 4096;
+
+/**
+ * Generates structured minutes (MeetingMinutes) from a committed transcript, using the
+ * translation provider's committed model. Long transcripts are summarized in parts, which are
+ * then merged by one more call.
+ */
+export async function POST(req: Request) {
+  const resolved = await resolveTranslationConfig(req);
+  if (!resolved.ok) {
+    return NextResponse.json({ error: resolved.error }, { status: 500 });
+  }
+
+  let payload: MinutesRequestBody;
+  try {
+    payload = (await req.json()) as MinutesRequestBody;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const invalid = validateMinutesRequest(payload);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  const provider = createTranslationProvider(resolved.config);
+  if (!provider.completeJson) {
+    return NextResponse.json(
+      { error: `Minutes need a language model; ${resolved.config.provider} cannot write them.` },
+      { status: 400 },
+    );
+  }
+
+  const chunks = chunkTranscript(payload);
+  if (chunks.length === 0) {
+    return NextResponse.json({ error: "The transcript is empty." }, { status: 400 });
+  }
+  if (chunks.length > MAX_CHUNKS) {
+    return NextResponse.json(
+      { error: "The transcript is too long to summarize in one request." },
+      { status: 400 },
+    );
+  }
+
+  const calls = chunks.length === 1 ? 1 : chunks.length + 1;
+  const characters = chunks.reduce((n, c) => n + c.length, 0);
+  const limited = checkLimits(req, { bucket: "minutes", requests: calls, characters });
+  if (limited) return limited;
+
+  const complete = async (user: string, maxTokens: number) => {
+    const out = await provider.completeJson!({
+      system: MINUTES_INSTRUCTION,
+      user,
+      maxTokens,
+      signal: req.signal,
+    });
+    recordUsage(req, translationUsage(resolved.config, "minutes", out.usage));
+    return out.json;
+  };
+
+  try {
+    // Parts run one after another: a long meeting shouldn't hit the provider's rate limit.
+    const parts: unknown[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      parts.push(
+        await complete(buildChunkMessage(payload, chunk, i, chunks.length), PART_MAX_TOKENS),
+      );
+    }
+    const json =
+      parts.length === 1
+        ? parts[0]
+        : await complete(buildMergeMessage(payload, parts), MERGE_MAX_TOKENS);
+    const minutes = normalizeMinutes(json, payload.lang, payload.segments.length);
+    return NextResponse.json({ minutes }, { status: 200 });
+  } catch (e) {
+    return NextResponse.json(providerErrorBody(e), { status: 502 });
+  }
+}
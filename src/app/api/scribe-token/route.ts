@@ -1,4 +1,6 @@
 import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/auth";
+import { checkLimits } from "@/lib/limits";
 
 /**
  * Mints a single-use token for ElevenLabs Scribe v2 Realtime.
@@ -8,10 +10,8 @@ import { NextResponse } from "next/server";
  * - This endpoint is intended to be called by the web client to obtain a short-lived token.
  */
 export async function GET(req: Request) {
-  // Allow either a server-side secret (recommended) or a client-provided key (dev-only).
-  // Client-provided keys will be stored in localStorage by the UI per product requirements.
-  const headerKey = req.headers.get("x-elevenlabs-api-key")?.trim();
-  const apiKey = process.env.ELEVENLABS_API_KEY || headerKey;
+  // The user's saved key, the server-side secret, or (development only) a key sent by the UI.
+  const apiKey = await resolveApiKey(req, "elevenlabs", process.env.ELEVENLABS_API_KEY);
   if (!apiKey) {
     return NextResponse.json(
       { error: "Missing ELEVENLABS_API_KEY." },
@@ -19,6 +19,11 @@ export async function GET(req: Request) {
     );
   }
 
+  // Every reconnect mints a token, so a reconnect loop is what this limit catches. The audio the
+  // token will stream can't be seen from here, so part of it is charged now.
+  const limited = checkLimits(req, { bucket: "scribe-token", audioToken: true });
+  if (limited) return limited;
+
   const resp = await fetch(
     "https://api.elevenlabs.io/v1/single-use-token/realtime_scribe",
     {
@@ -55,8 +60,7 @@ export async function GET(req: Request) {
 }
 
 export async function POST(req: Request) {
-  const headerKey = req.headers.get("x-elevenlabs-api-key")?.trim();
-  const apiKey = process.env.ELEVENLABS_API_KEY || headerKey;
+  const apiKey = await resolveApiKey(req, "elevenlabs", process.env.ELEVENLABS_API_KEY);
   if (!apiKey) {
     return NextResponse.json(
       { error: "Missing ELEVENLABS_API_KEY." },
@@ -64,6 +68,9 @@ export async function POST(req: Request) {
     );
   }
 
+  const limited = checkLimits(req, { bucket: "scribe-token", audioToken: true });
+  if (limited) return limited;
+
   const resp = await fetch(
     "https://api.elevenlabs.io/v1/single-use-token/realtime_scribe",
     {
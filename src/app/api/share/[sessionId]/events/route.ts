@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { getShare, joinCodeMatches, subscribe } from "@/lib/share/relay";
+import { formatSseEvent } from "@/lib/translate/stream";
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+// Keeps proxies from closing an idle stream between utterances.
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Viewer stream for `/view/[sessionId]`: `GET ?code=<join code>`.
+ *
+ * Responds with server-sent events:
+ * - `snapshot`: the full ShareSnapshot (first event, and again on every reconnect)
+ * - `update`: a ShareUpdate to merge into it
+ * - `end`: `{ endedAt }`; the stream closes afterwards
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const session = getShare((await params).sessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Share not found." }, { status: 404 });
+  }
+  if (!joinCodeMatches(session, new URL(req.url).searchParams.get("code"))) {
+    return NextResponse.json({ error: "Wrong join code." }, { status: 403 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const close = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+
+      write(formatSseEvent("snapshot", session.snapshot));
+      if (session.snapshot.endedAt) {
+        close();
+        return;
+      }
+
+      const unsubscribe = subscribe(session, ({ event, data }) => {
+        write(formatSseEvent(event, data));
+        if (event === "end") close();
+      });
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      req.signal.addEventListener("abort", close, { once: true });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
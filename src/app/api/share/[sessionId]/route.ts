@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { applyUpdate, endShare, getShare, isHost, validateShareUpdate } from "@/lib/share/relay";
+import type { ShareUpdate } from "@/lib/share/types";
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+/**
+ * Host publishes an update (segments / translations are upserted by id).
+ * Requires the `x-share-host-token` header from POST /api/share.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const session = getShare((await params).sessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Share not found." }, { status: 404 });
+  }
+  if (!isHost(session, req)) {
+    return NextResponse.json({ error: "Invalid host token." }, { status: 403 });
+  }
+  if (session.snapshot.endedAt) {
+    return NextResponse.json({ error: "Share has ended." }, { status: 410 });
+  }
+
+  let payload: ShareUpdate;
+  try {
+    payload = (await req.json()) as ShareUpdate;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const invalid = validateShareUpdate(payload);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  applyUpdate(session, payload);
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
+
+/**
+ * Ends the share; connected viewers get an `end` event.
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const session = getShare((await params).sessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Share not found." }, { status: 404 });
+  }
+  if (!isHost(session, req)) {
+    return NextResponse.json({ error: "Invalid host token." }, { status: 403 });
+  }
+
+  endShare(session);
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
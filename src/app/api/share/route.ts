@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createShare, validateShareMeta } from "@/lib/share/relay";
+import type { ShareMeta } from "@/lib/share/types";
+
+/**
+ * Starts sharing a meeting. Body: ShareMeta. Returns ShareCreated; viewers open
+ * `/view/<sessionId>` and enter the join code. Requires a session like every other API route,
+ * so with AUTH_MODE=none anyone who can reach the server can start a share.
+ */
+export async function POST(req: Request) {
+  let payload: { meta?: ShareMeta };
+  try {
+    payload = (await req.json()) as { meta?: ShareMeta };
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const invalid = validateShareMeta(payload.meta);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  const created = createShare(payload.meta!);
+  if (!created.ok) {
+    return NextResponse.json({ error: created.error }, { status: 503 });
+  }
+  return NextResponse.json(created.share, { status: 200 });
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import {
+  closeSttSession,
+  getSttSession,
+  isSessionOwner,
+  subscribeSttSession,
+} from "@/lib/stt/proxy";
+import { formatSseEvent } from "@/lib/translate/stream";
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+// Keeps proxies from closing an idle stream between utterances.
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Transcription events for the session (requires `x-stt-token`), as server-sent events named
+ * after SttEvent types: `partial`, `committed`, `error`, and `close` when the upstream
+ * connection ends. Closing this stream ends the session.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const session = getSttSession((await params).sessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Transcription session not found." }, { status: 404 });
+  }
+  if (!isSessionOwner(session, req)) {
+    return NextResponse.json({ error: "Invalid session token." }, { status: 403 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      let isDone = false;
+      const close = () => {
+        isDone = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+
+      const unsubscribe = subscribeSttSession(session, ({ type, ...data }) => {
+        write(formatSseEvent(type, data));
+        if (type === "close") close();
+      });
+      if (!unsubscribe) {
+        write(
+          formatSseEvent("error", { message: "Session already has a listener.", fatal: false }),
+        );
+        close();
+        return;
+      }
+      // The backlog already held the upstream's close.
+      if (isDone) {
+        unsubscribe();
+        return;
+      }
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        closeSttSession(session);
+      };
+      req.signal.addEventListener("abort", close, { once: true });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
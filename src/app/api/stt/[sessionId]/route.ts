@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { limitErrorResponse, recordAudioUsage } from "@/lib/limits";
+import {
+  closeSttSession,
+  getSttSession,
+  isSessionOwner,
+  readLimitedBody,
+  sendSttAudio,
+} from "@/lib/stt/proxy";
+import { STT_SAMPLE_RATE } from "@/lib/stt/types";
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+// The browser posts every 200ms; a backlog after a stall is still far below this.
+const MAX_AUDIO_BYTES = 2 * 1024 * 1024;
+const BUSY_RETRY_SECONDS = 1;
+
+/**
+ * Audio for the session: raw PCM16 (16 kHz mono, little-endian) as the request body.
+ * Requires the `x-stt-token` header from POST /api/stt.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const session = getSttSession((await params).sessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Transcription session not found." }, { status: 404 });
+  }
+  if (!isSessionOwner(session, req)) {
+    return NextResponse.json({ error: "Invalid session token." }, { status: 403 });
+  }
+
+  const audio = await readLimitedBody(req, MAX_AUDIO_BYTES);
+  if (!audio) {
+    return NextResponse.json(
+      { error: `Audio must be at most ${MAX_AUDIO_BYTES} bytes.` },
+      { status: 413 },
+    );
+  }
+  if (audio.length === 0 || audio.length % 2 !== 0) {
+    return NextResponse.json({ error: "Audio must be PCM16." }, { status: 400 });
+  }
+  const sent = sendSttAudio(session, audio);
+  if (sent === "closed") {
+    return NextResponse.json({ error: "Transcription session has ended." }, { status: 410 });
+  }
+  if (sent === "busy") {
+    return NextResponse.json(
+      { error: "The transcription server is not keeping up; send the audio again shortly." },
+      { status: 503, headers: { "Retry-After": String(BUSY_RETRY_SECONDS) } },
+    );
+  }
+  // Metered here: what the browser reports about its own audio isn't trusted for the quota.
+  const quota = recordAudioUsage(req, audio.length / 2 / STT_SAMPLE_RATE, "metered");
+  if (!quota.ok) {
+    closeSttSession(session);
+    return limitErrorResponse(quota);
+  }
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
+
+/**
+ * Ends the session and closes the upstream connection.
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const session = getSttSession((await params).sessionId);
+  if (!session) {
+    return NextResponse.json({ error: "Transcription session not found." }, { status: 404 });
+  }
+  if (!isSessionOwner(session, req)) {
+    return NextResponse.json({ error: "Invalid session token." }, { status: 403 });
+  }
+
+  closeSttSession(session);
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { isLanguageOption } from "@/lib/languages";
+import { checkLimits } from "@/lib/limits";
+import { resolveSttConfig } from "@/lib/stt/config";
+import { hasSttCapacity, openSttSession } from "@/lib/stt/proxy";
+import {
+  STT_SAMPLE_RATE,
+  type SttInfo,
+  type SttSessionCreated,
+  type SttSessionRequest,
+} from "@/lib/stt/types";
+
+const MAX_PREVIOUS_TEXT_CHARS = 10_000;
+
+/**
+ * Which speech-to-text backend the browser should use (STT_PROVIDER). See SttInfo.
+ */
+export async function GET() {
+  const resolved = resolveSttConfig();
+  if (!resolved.ok) {
+    return NextResponse.json({ error: resolved.error }, { status: 500 });
+  }
+  const info: SttInfo = { provider: resolved.config.provider };
+  return NextResponse.json(info, { status: 200 });
+}
+
+/**
+ * Opens a session on the self-hosted streaming server (STT_PROVIDER=websocket). Body:
+ * SttSessionRequest. Returns SttSessionCreated; the browser then reads
+ * `/api/stt/<sessionId>/events` and posts audio to `/api/stt/<sessionId>`.
+ */
+export async function POST(req: Request) {
+  const resolved = resolveSttConfig();
+  if (!resolved.ok) {
+    return NextResponse.json({ error: resolved.error }, { status: 500 });
+  }
+  if (resolved.config.provider !== "websocket") {
+    return NextResponse.json(
+      { error: `Transcription runs on ${resolved.config.provider}, not the streaming proxy.` },
+      { status: 400 },
+    );
+  }
+
+  let payload: SttSessionRequest;
+  try {
+    payload = (await req.json()) as SttSessionRequest;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+  if (!isLanguageOption(payload.inputLanguage)) {
+    return NextResponse.json(
+      { error: `Unsupported inputLanguage "${String(payload.inputLanguage)}".` },
+      { status: 400 },
+    );
+  }
+  if (payload.sampleRate !== STT_SAMPLE_RATE) {
+    return NextResponse.json({ error: `sampleRate must be ${STT_SAMPLE_RATE}.` }, { status: 400 });
+  }
+  if (
+    payload.previousText != null &&
+    (typeof payload.previousText !== "string" ||
+      payload.previousText.length > MAX_PREVIOUS_TEXT_CHARS)
+  ) {
+    return NextResponse.json(
+      { error: `previousText must be a string of at most ${MAX_PREVIOUS_TEXT_CHARS} characters.` },
+      { status: 400 },
+    );
+  }
+
+  // Same budget as minting Scribe tokens: every (re)connect opens a session.
+  const limited = checkLimits(req, { bucket: "scribe-token" });
+  if (limited) return limited;
+
+  if (!hasSttCapacity()) {
+    return NextResponse.json(
+      { error: "Too many transcription sessions are open; try again later." },
+      { status: 503, headers: { "Retry-After": "30" } },
+    );
+  }
+
+  try {
+    const session = await openSttSession(resolved.config, payload);
+    const created: SttSessionCreated = { sessionId: session.id, token: session.token };
+    return NextResponse.json(created, { status: 200 });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Failed to reach the transcription server." },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { checkLimits } from "@/lib/limits";
+import { abortedTranslationUsage, recordUsage, translationUsage } from "@/lib/usage";
+import {
+  checkGlossary,
+  createTranslationProvider,
+  emptyTranslateResponse,
+  providerErrorBody,
+  resolveTranslationConfig,
+  toTranslateInput,
+  validateTranslateRequest,
+  type TranslateInput,
+  type TranslateRequestBody,
+} from "@/lib/translate";
+import { formatSseEvent } from "@/lib/translate/stream";
+
+/**
+ * Streaming variant of /api/translate (same request body).
+ *
+ * Responds with server-sent events:
+ * - `translation`: `{ translation }`, the text produced so far (sent repeatedly as it grows)
+ * - `done`: the final TranslateResponseBody
+ * - `error`: same shape as the JSON error body of /api/translate
+ *
+ * Validation and rate-limit errors are still returned as plain JSON before the stream starts.
+ */
+export async function POST(req: Request) {
+  const resolved = await resolveTranslationConfig(req);
+  if (!resolved.ok) {
+    return NextResponse.json({ error: resolved.error }, { status: 500 });
+  }
+
+  let payload: TranslateRequestBody;
+  try {
+    payload = (await req.json()) as TranslateRequestBody;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const invalid = validateTranslateRequest(payload);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  const text = (payload.text || "").trim();
+  if (text) {
+    const limited = checkLimits(req, { bucket: "translate", requests: 1, characters: text.length });
+    if (limited) return limited;
+  }
+
+  const provider = createTranslationProvider(resolved.config);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+        } catch {
+          // Client went away; the aborted upstream fetch ends the work.
+        }
+      };
+
+      let input: TranslateInput | null = null;
+      let streamed = "";
+      try {
+        if (!text) {
+          send("done", emptyTranslateResponse(payload));
+          return;
+        }
+
+        input = toTranslateInput(payload, text);
+        const onText = (translation: string) => {
+          streamed = translation;
+          send("translation", { translation });
+        };
+        const { usage, ...out } = provider.translateStream
+          ? await provider.translateStream(input, onText, req.signal)
+          : await provider.translate(input);
+        recordUsage(req, translationUsage(resolved.config, input.mode, usage));
+        send("done", checkGlossary(input, out));
+      } catch (e) {
+        if (!req.signal.aborted) send("error", providerErrorBody(e));
+        // Superseded partials are aborted mid-stream, but the provider bills what it processed.
+        else if (input) recordUsage(req, abortedTranslationUsage(resolved.config, input, streamed));
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
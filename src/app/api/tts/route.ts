@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/auth";
+import { isLanguageCode } from "@/lib/languages";
+import { checkLimits } from "@/lib/limits";
+import { recordUsage } from "@/lib/usage";
+
+// A stock ElevenLabs voice ("George"); override with ELEVENLABS_TTS_VOICE_ID.
+const DEFAULT_VOICE_ID = "JBFqnCBsd6RMkjVDRZzb";
+// Low-latency multilingual model that accepts language_code.
+const DEFAULT_MODEL_ID = "eleven_flash_v2_5";
+const MAX_TEXT_CHARS = 2500;
+
+interface TtsRequestBody {
+  text?: string;
+  lang?: string;
+  voiceId?: string;
+}
+
+/**
+ * Synthesizes one translation with ElevenLabs TTS and streams back audio/mpeg.
+ */
+export async function POST(req: Request) {
+  // Same key handling as /api/scribe-token.
+  const apiKey = await resolveApiKey(req, "elevenlabs", process.env.ELEVENLABS_API_KEY);
+  if (!apiKey) {
+    return NextResponse.json({ error: "Missing ELEVENLABS_API_KEY." }, { status: 500 });
+  }
+
+  let payload: TtsRequestBody;
+  try {
+    payload = (await req.json()) as TtsRequestBody;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const text = typeof payload.text === "string" ? payload.text.trim() : "";
+  if (!text || text.length > MAX_TEXT_CHARS) {
+    return NextResponse.json(
+      { error: `text must be 1-${MAX_TEXT_CHARS} characters.` },
+      { status: 400 },
+    );
+  }
+  if (payload.lang != null && !isLanguageCode(payload.lang)) {
+    return NextResponse.json(
+      { error: `Unsupported lang "${String(payload.lang)}".` },
+      { status: 400 },
+    );
+  }
+
+  const limited = checkLimits(req, { bucket: "tts", requests: 1, characters: text.length });
+  if (limited) return limited;
+
+  const voiceId =
+    (typeof payload.voiceId === "string" && payload.voiceId.trim()) ||
+    process.env.ELEVENLABS_TTS_VOICE_ID ||
+    DEFAULT_VOICE_ID;
+
+  const modelId = process.env.ELEVENLABS_TTS_MODEL || DEFAULT_MODEL_ID;
+  const resp = await fetch(
+    `https://api.elevenlabs.io/v1/text-to-speech/${encodeURIComponent(voiceId)}?output_format=mp3_44100_128`,
+    {
+      method: "POST",
+      headers: {
+        "xi-api-key": apiKey,
+        "Content-Type": "application/json",
+        Accept: "audio/mpeg",
+      },
+      body: JSON.stringify({
+        text,
+        model_id: modelId,
+        ...(payload.lang ? { language_code: payload.lang } : null),
+      }),
+      cache: "no-store",
+      signal: req.signal,
+    },
+  );
+
+  if (!resp.ok || !resp.body) {
+    const details = await resp.text().catch(() => "");
+    return NextResponse.json(
+      {
+        error: "Text-to-speech request failed.",
+        status: resp.status,
+        details: details || undefined,
+      },
+      { status: 502 },
+    );
+  }
+
+  recordUsage(req, { kind: "tts", model: modelId, characters: text.length });
+  return new Response(resp.body, {
+    status: 200,
+    headers: {
+      "Content-Type": resp.headers.get("content-type") || "audio/mpeg",
+      "Cache-Control": "no-store",
+    },
+  });
+}
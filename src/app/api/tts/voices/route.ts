@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/auth";
+
+interface ElevenLabsVoicesResponse {
+  voices?: Array<{ voice_id?: string; name?: string }>;
+}
+
+/**
+ * Voices available to the ElevenLabs account, for the per-language voice picker.
+ */
+export async function GET(req: Request) {
+  const apiKey = await resolveApiKey(req, "elevenlabs", process.env.ELEVENLABS_API_KEY);
+  if (!apiKey) {
+    return NextResponse.json({ error: "Missing ELEVENLABS_API_KEY." }, { status: 500 });
+  }
+
+  const resp = await fetch("https://api.elevenlabs.io/v1/voices", {
+    headers: { "xi-api-key": apiKey },
+    cache: "no-store",
+  });
+
+  if (!resp.ok) {
+    const details = await resp.text().catch(() => "");
+    return NextResponse.json(
+      {
+        error: "Failed to list ElevenLabs voices.",
+        status: resp.status,
+        details: details || undefined,
+      },
+      { status: 502 },
+    );
+  }
+
+  const data = (await resp.json()) as ElevenLabsVoicesResponse;
+  const voices = (data.voices ?? [])
+    .filter((v) => v.voice_id && v.name)
+    .map((v) => ({ id: v.voice_id!, name: v.name! }));
+  return NextResponse.json({ voices }, { status: 200 });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { limitErrorResponse, recordAudioUsage } from "@/lib/limits";
+import { resolveSttConfig } from "@/lib/stt/config";
+import { recordUsage } from "@/lib/usage";
+
+// The client reports about every 30 seconds; anything far larger is not a real report.
+const MAX_REPORT_SECONDS = 600;
+
+/**
+ * Logs audio streamed for transcription for the usage page: `{ seconds }`, with the meeting in
+ * `x-meeting-id`. For direct Scribe sessions it also counts against the daily audio quota beyond
+ * what the session's tokens prepaid, and answers 429 once the quota is used up, which tells the
+ * client to stop the meeting.
+ */
+export async function POST(req: Request) {
+  let payload: { seconds?: unknown };
+  try {
+    payload = (await req.json()) as { seconds?: unknown };
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const seconds = payload.seconds;
+  if (typeof seconds !== "number" || !(seconds > 0) || seconds > MAX_REPORT_SECONDS) {
+    return NextResponse.json(
+      { error: `seconds must be a number in (0, ${MAX_REPORT_SECONDS}].` },
+      { status: 400 },
+    );
+  }
+
+  recordUsage(req, { kind: "scribe", seconds });
+  // The streaming proxy meters what it forwards; reports only matter for direct Scribe sessions.
+  const stt = resolveSttConfig();
+  if (stt.ok && stt.config.provider === "websocket") {
+    return NextResponse.json({ ok: true }, { status: 200 });
+  }
+  const result = recordAudioUsage(req, seconds, "reported");
+  if (!result.ok) return limitErrorResponse(result);
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
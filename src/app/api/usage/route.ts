@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getSessionUser, isAdmin, resolveAuthConfig } from "@/lib/auth";
+import { readUsage, resolvePriceTable, summarizeUsage, type UsageReport } from "@/lib/usage";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+
+/**
+ * Usage and estimated cost over the last `?days=` days (default 30): totals per model and mode,
+ * per meeting and per UTC day. See UsageReport. With sign-in on, only the caller's own usage
+ * unless they are in AUTH_ADMINS.
+ */
+export async function GET(req: Request) {
+  const prices = resolvePriceTable();
+  if (!prices.ok) {
+    return NextResponse.json({ error: prices.error }, { status: 500 });
+  }
+
+  const daysParam = new URL(req.url).searchParams.get("days");
+  const days = daysParam == null ? DEFAULT_DAYS : Number(daysParam);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return NextResponse.json({ error: `days must be 1-${MAX_DAYS}.` }, { status: 400 });
+  }
+
+  // Whole UTC days, today included.
+  const today = new Date();
+  const since = Date.UTC(
+    today.getUTCFullYear(),
+    today.getUTCMonth(),
+    today.getUTCDate() - days + 1,
+  );
+  const auth = resolveAuthConfig();
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: 500 });
+  }
+  let userId: string | undefined;
+  if (auth.config.mode !== "none") {
+    const user = getSessionUser(req, auth.config);
+    if (!user) return NextResponse.json({ error: "Sign in required." }, { status: 401 });
+    if (!isAdmin(auth.config, user)) userId = user.id;
+  }
+
+  const events = await readUsage(since, userId);
+  const report: UsageReport = {
+    ...summarizeUsage(events, prices.prices, since),
+    scope: userId ? "own" : "all",
+  };
+  return NextResponse.json(report, {
+    status: 200,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
@@ -15,7 +15,7 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Translator3 — Realtime Speech Translation",
   description:
-    "Realtime transcription with ElevenLabs Scribe v2 Realtime and live translation for English/Japanese/Korean.",
+    "Realtime transcription with ElevenLabs Scribe v2 Realtime and live translation for meetings in English, Japanese, Korean and more.",
 };
 
 export default function RootLayout({
@@ -0,0 +1,26 @@
+import type { Metadata } from "next";
+import { LoginForm } from "@/components/LoginForm";
+import { resolveAuthConfig, safeNextPath } from "@/lib/auth";
+
+export const metadata: Metadata = {
+  title: "Translator3 — Sign in",
+};
+
+// AUTH_MODE is read at request time, not baked in at build time.
+export const dynamic = "force-dynamic";
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}) {
+  const { next, error } = await searchParams;
+  const auth = resolveAuthConfig();
+  return (
+    <LoginForm
+      mode={auth.ok ? auth.config.mode : "none"}
+      next={safeNextPath(next)}
+      error={auth.ok ? error : auth.error}
+    />
+  );
+}
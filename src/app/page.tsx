@@ -1,35 +1,170 @@
 "use client";
 
 import { CommitStrategy } from "@elevenlabs/client";
+import Link from "next/link";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useRealtimeScribe, type LanguageOption } from "@/lib/realtime/useRealtimeScribe";
-import { useLocalStorageState } from "@/lib/useLocalStorageState";
-
-const LANG_LABEL: Record<LanguageOption, string> = {
-  auto: "Auto",
-  en: "English",
-  ja: "Japanese",
-  ko: "Korean",
+import { ExportMenu } from "@/components/ExportMenu";
+import { GlossaryEditor } from "@/components/GlossaryEditor";
+import { InputMeters } from "@/components/InputMeters";
+import { LevelMeter } from "@/components/LevelMeter";
+import { MeetingHistory } from "@/components/MeetingHistory";
+import { MinutesPanel } from "@/components/MinutesPanel";
+import { SavedKeysForm } from "@/components/SavedKeysForm";
+import { ShareMenu } from "@/components/ShareMenu";
+import { StatusNotices, type StatusNotice } from "@/components/StatusNotices";
+import { TargetLanguagePicker } from "@/components/TargetLanguagePicker";
+import { TranscriptPanels } from "@/components/TranscriptPanels";
+import { VoiceOutputSettings } from "@/components/VoiceOutputSettings";
+import {
+  CAPTURE_SOURCE_KINDS,
+  captureSourceLabel,
+  type CaptureSource,
+  type CaptureSourceKind,
+} from "@/lib/audio/capture";
+import { useInputDevices } from "@/lib/audio/useInputDevices";
+import { useAuthSession } from "@/lib/auth/useAuthSession";
+import { useMicTest } from "@/lib/audio/useMicTest";
+import { exportBaseName, formatClock, type TranscriptExportInput } from "@/lib/export/transcript";
+import {
+  isLanguageCode,
+  LANGUAGE_CODES,
+  languageLabel,
+  type DetectedLanguage,
+  type LanguageCode,
+} from "@/lib/languages";
+import { speakerLabel, type LineOutcome, type MeetingSession, type TranslatedLine } from "@/lib/meetings/types";
+import { useMeetingRecording } from "@/lib/meetings/useMeetingRecording";
+import { useMeetingSessions } from "@/lib/meetings/useMeetingSessions";
+import type { MeetingMinutes, MinutesRequestBody } from "@/lib/minutes/types";
+import {
+  ApiError,
+  apiError,
+  describeError,
+  errorBodyDetails,
+  RateLimitError,
+  type ApiErrorBody,
+  type ErrorInfo,
+} from "@/lib/limits/errors";
+import { MEETING_ID_HEADER } from "@/lib/usage/types";
+import {
+  useRealtimeScribe,
+  type AudioInput,
+  type LanguageOption,
+  type TranscriptLine,
+} from "@/lib/realtime/useRealtimeScribe";
+import {
+  glossaryRulesFor,
+  isGlossaryEntry,
+  type GlossaryEntry,
+  type GlossaryViolation,
+} from "@/lib/translate/glossary";
+import type { ShareMeta, SharePartial } from "@/lib/share/types";
+import { useShareSession } from "@/lib/share/useShareSession";
+import { readSseStream } from "@/lib/translate/stream";
+import type { TranslateRequestBody, TranslateResponseBody } from "@/lib/translate/types";
+import { useTranslationQueue, type TranslationJob } from "@/lib/translate/useTranslationQueue";
+import { createTtsProvider, DEFAULT_VOICE_OUTPUT_PREFS, type VoiceOutputPrefs } from "@/lib/tts";
+import { useSpeechQueue } from "@/lib/tts/useSpeechQueue";
+import { useLocalStorageState, type LocalStorageMigration } from "@/lib/useLocalStorageState";
+
+const INPUT_LANG_OPTIONS: LanguageOption[] = ["auto", ...LANGUAGE_CODES];
+const UPLOAD_SPEEDS = [1, 2, 4];
+// .json files are replay scripts (scripted transcripts), not audio.
+const UPLOAD_ACCEPT = "audio/*,video/*,.wav,.mp3,.m4a,.webm,.json";
+const DEMO_REPLAY_URL = "/replay/demo-meeting.json";
+// Before several output languages, the one target language was its own setting.
+const TARGET_LANG_MIGRATION: LocalStorageMigration<LanguageCode[]> = {
+  key: "t3.targetLang",
+  map: (value) => (isLanguageCode(value) ? [value] : null),
 };
 
+type ActiveMeeting = Omit<MeetingSession, "segments" | "translations" | "summary" | "lineOutcomes" | "updatedAt">;
+
+function defaultMeetingName(at: number): string {
+  const d = new Date(at);
+  return `Meeting ${d.toLocaleDateString()} ${d.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+// Keeps translations in transcript order, whichever request finished first.
+function insertInSourceOrder(
+  lines: TranslatedLine[],
+  line: TranslatedLine,
+  segments: TranscriptLine[],
+): TranslatedLine[] {
+  const rank = (sourceId: string) => segments.findIndex((t) => t.id === sourceId);
+  const own = rank(line.sourceId);
+  let i = lines.length;
+  while (own !== -1 && i > 0 && rank(lines[i - 1]!.sourceId) > own) i--;
+  return [...lines.slice(0, i), line, ...lines.slice(i)];
+}
+
+// YYYY-MM-DD in local time.
+function localDay(at: number): string {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
 export default function Home() {
   const inputLang = useLocalStorageState<LanguageOption>("t3.inputLang", "auto");
   const elevenKey = useLocalStorageState<string>("t3.elevenlabsKey", "");
   const openaiKey = useLocalStorageState<string>("t3.openaiKey", "");
-  const targetLang = useLocalStorageState<LanguageOption>("t3.targetLang", "en");
+  const auth = useAuthSession();
+  // Keys typed into the browser are a development convenience; elsewhere the server ignores them.
+  const allowBrowserKeys = Boolean(auth.session?.allowHeaderKeys);
+  const elevenKeyValue = allowBrowserKeys ? elevenKey.value.trim() : "";
+  const openaiKeyValue = allowBrowserKeys ? openaiKey.value.trim() : "";
+  const targetLangs = useLocalStorageState<LanguageCode[]>("t3.targetLangs", ["en"], TARGET_LANG_MIGRATION);
+  const detectSpeakers = useLocalStorageState<boolean>("t3.detectSpeakers", true);
+  const correctionsInContext = useLocalStorageState<boolean>("t3.correctionsInContext", true);
+  const glossary = useLocalStorageState<GlossaryEntry[]>("t3.glossary", []);
+  const voiceOutput = useLocalStorageState<VoiceOutputPrefs>("t3.voiceOutput", DEFAULT_VOICE_OUTPUT_PREFS);
+  const uploadSpeed = useLocalStorageState<number>("t3.uploadSpeed", 1);
+  const audioSource = useLocalStorageState<CaptureSource>("t3.audioSource", { kind: "microphone" });
+  const inputDevices = useInputDevices();
+  const micTest = useMicTest();
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isMinutesOpen, setIsMinutesOpen] = useState(false);
+
+  const meetings = useMeetingSessions();
+  const [meeting, setMeeting] = useState<ActiveMeeting | null>(null);
+  const wasConnectedRef = useRef(false);
+  // The recording keeps growing until the meeting has ended.
+  const recording = useMeetingRecording(meeting?.id ?? null, Boolean(meeting && !meeting.endedAt));
 
-  const [partialTranslation, setPartialTranslation] = useState("");
-  const [translated, setTranslated] = useState<
-    { id: string; sourceId: string; text: string; createdAt: number }[]
-  >([]);
+  const [partialTranslation, setPartialTranslation] = useState<Partial<Record<LanguageCode, string>>>({});
+  const [translated, setTranslated] = useState<TranslatedLine[]>([]);
   const [summary, setSummary] = useState("");
+  // Segments whose translations are being redone after a correction.
+  const [retranslatingIds, setRetranslatingIds] = useState<Set<string>>(() => new Set());
+  const [translateError, setTranslateError] = useState<ErrorInfo | null>(null);
+  // Keyed by translated-line id; only lines with something to explain.
+  const [lineOutcomes, setLineOutcomes] = useState<Record<string, LineOutcome>>({});
+  const minutesLang = useLocalStorageState<LanguageCode | null>("t3.minutesLang", null);
+  const [isGeneratingMinutes, setIsGeneratingMinutes] = useState(false);
+  const [minutesError, setMinutesError] = useState<string | null>(null);
+  const [demoError, setDemoError] = useState<string | null>(null);
   const translatedIdsRef = useRef<Set<string>>(new Set());
+  // No translation requests before this time (set from a 429's Retry-After).
+  const translateBackoffUntilRef = useRef(0);
   const partialTimerRef = useRef<number | null>(null);
-  const partialAbortRef = useRef<AbortController | null>(null);
+  const partialAbortRef = useRef<AbortController[]>([]);
   const lastPartialSentRef = useRef<string>("");
-  const originalScrollRef = useRef<HTMLDivElement | null>(null);
-  const translationScrollRef = useRef<HTMLDivElement | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement | null>(null);
+
+  const appendRecordingChunk = recording.appendChunk;
+  const onRecordingChunk = useCallback(
+    (chunk: Blob, mimeType: string) => {
+      appendRecordingChunk(chunk, mimeType);
+      setMeeting((m) => (m && !m.recordingMimeType ? { ...m, recordingMimeType: mimeType } : m));
+    },
+    [appendRecordingChunk],
+  );
+  const playRecording = recording.play;
+  const playSegment = useCallback(
+    (t: TranscriptLine) => void playRecording(t.id, t.audioStartMs ?? 0, t.audioEndMs!),
+    [playRecording],
+  );
 
   const scribe = useRealtimeScribe({
     inputLanguage: inputLang.value,
@@ -38,30 +173,64 @@ export default function Home() {
     vadSilenceThresholdSecs: 1.0,
     minSilenceDurationMs: 700,
     minSpeechDurationMs: 250,
-    elevenLabsApiKey: elevenKey.value || undefined,
+    elevenLabsApiKey: elevenKeyValue || undefined,
+    detectSpeakers: detectSpeakers.value,
+    onRecordingChunk,
+    meetingId: meeting?.id,
   });
+  // Stays true while the socket is being re-established, so the meeting keeps running.
+  const isSessionActive = scribe.isConnected || scribe.isReconnecting;
+
+  const captureSource = useMemo<CaptureSource>(() => {
+    const v = audioSource.value;
+    if (v?.kind === "tab") return { kind: "tab" };
+    const deviceId = v && "deviceId" in v && typeof v.deviceId === "string" ? v.deviceId : undefined;
+    return { kind: v?.kind === "mix" ? "mix" : "microphone", deviceId };
+  }, [audioSource.value]);
+
+  // Device labels only become readable once mic permission has been granted.
+  const refreshDevices = inputDevices.refresh;
+  useEffect(() => {
+    if (scribe.isConnected || micTest.phase === "playing") refreshDevices();
+  }, [micTest.phase, refreshDevices, scribe.isConnected]);
+
+  // Guard against stale/hand-edited localStorage values.
+  const outLangs = useMemo<LanguageCode[]>(() => {
+    const valid = Array.isArray(targetLangs.value) ? targetLangs.value.filter(isLanguageCode) : [];
+    return valid.length ? valid : ["en"];
+  }, [targetLangs.value]);
+
+  const glossaryEntries = useMemo(
+    () => (Array.isArray(glossary.value) ? glossary.value.filter(isGlossaryEntry) : []),
+    [glossary.value],
+  );
+
+  const speakerNames = meeting?.speakers;
+  // Context lines for the translator, attributed so references and honorifics resolve.
+  const contextLine = useCallback(
+    (t: TranscriptLine) => {
+      const text = correctionsInContext.value ? t.text : (t.originalText ?? t.text);
+      return t.speaker ? `${speakerLabel(t.speaker, speakerNames)}: ${text}` : text;
+    },
+    [correctionsInContext.value, speakerNames],
+  );
 
   type TranslateApiOk = {
-    detectedLanguage: "en" | "ja" | "ko" | "other";
+    detectedLanguage: DetectedLanguage;
     shouldIgnore: boolean;
     translation: string;
     updatedSummary: string;
+    glossaryViolations?: GlossaryViolation[];
   };
-  type TranslateApiErr = { error?: string };
+  type TranslateApiErr = ApiErrorBody;
+  // Sent with every billable request so the usage page can total it per meeting.
+  const meetingId = meeting?.id;
 
   const translateViaApi = useCallback(
-    async (args: {
-      text: string;
-      sourceLang: LanguageOption;
-      targetLang: "en" | "ja" | "ko";
-      mode: "partial" | "committed";
-      updateSummary: boolean;
-      recent: string[];
-      summary: string;
-      signal?: AbortSignal;
-    }): Promise<TranslateApiOk> => {
+    async (args: TranslateRequestBody & { signal?: AbortSignal }): Promise<TranslateApiOk> => {
       const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (openaiKey.value?.trim()) headers["x-openai-api-key"] = openaiKey.value.trim();
+      if (openaiKeyValue) headers["x-openai-api-key"] = openaiKeyValue;
+      if (meetingId) headers[MEETING_ID_HEADER] = meetingId;
 
       const resp = await fetch("/api/translate", {
         method: "POST",
@@ -71,189 +240,723 @@ export default function Home() {
       });
 
       const data = (await resp.json()) as TranslateApiOk | TranslateApiErr;
-      if (!resp.ok) {
-        const msg =
-          typeof (data as TranslateApiErr)?.error === "string"
-            ? (data as TranslateApiErr).error
-            : "Translation request failed.";
-        throw new Error(msg);
-      }
+      if (!resp.ok) throw apiError(resp, data as TranslateApiErr, "Translation request failed.");
       return data as TranslateApiOk;
     },
-    [openaiKey.value],
+    [meetingId, openaiKeyValue],
+  );
+
+  // Same contract as translateViaApi, but reports the translation while the model is still writing it.
+  const translateStreamViaApi = useCallback(
+    async (
+      args: Parameters<typeof translateViaApi>[0],
+      onTranslation: (text: string) => void,
+    ): Promise<TranslateApiOk> => {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (openaiKeyValue) headers["x-openai-api-key"] = openaiKeyValue;
+      if (meetingId) headers[MEETING_ID_HEADER] = meetingId;
+
+      const resp = await fetch("/api/translate/stream", {
+        method: "POST",
+        headers,
+        body: JSON.stringify(args),
+        signal: args.signal,
+      });
+
+      if (!resp.ok || !resp.body) {
+        const data = (await resp.json().catch(() => ({}))) as TranslateApiErr;
+        throw apiError(resp, data, "Translation request failed.");
+      }
+
+      let result: TranslateApiOk | null = null;
+      let error = null as TranslateApiErr | null;
+      await readSseStream(resp.body, ({ event, data }) => {
+        if (event === "translation") {
+          onTranslation((JSON.parse(data) as { translation: string }).translation);
+        } else if (event === "done") {
+          result = JSON.parse(data) as TranslateApiOk;
+        } else if (event === "error") {
+          error = JSON.parse(data) as TranslateApiErr;
+        }
+      });
+
+      if (error) {
+        // Sent after the 200 headers, for what would otherwise have been a 502.
+        throw new ApiError(error.error || "Translation request failed.", 502, errorBodyDetails(error));
+      }
+      if (!result) throw new Error("Translation stream ended unexpectedly.");
+      return result;
+    },
+    [meetingId, openaiKeyValue],
   );
 
+  // Shown under the header; a 429 also holds back new requests until its Retry-After.
+  const reportTranslateError = useCallback((e: unknown) => {
+    if (e instanceof RateLimitError) {
+      translateBackoffUntilRef.current = Math.max(
+        translateBackoffUntilRef.current,
+        Date.now() + e.retryAfterMs,
+      );
+    }
+    setTranslateError(describeError(e, "Translation request failed."));
+  }, []);
+
+  const waitForTranslateBackoff = useCallback(async () => {
+    const wait = translateBackoffUntilRef.current - Date.now();
+    if (wait > 0) await new Promise((resolve) => window.setTimeout(resolve, wait));
+  }, []);
+  const translateNotBefore = useCallback(() => translateBackoffUntilRef.current, []);
+
+  const committedSegments = scribe.committed;
+  const addTranslation = useCallback(
+    (line: TranslatedLine) => setTranslated((prev) => insertInSourceOrder(prev, line, committedSegments)),
+    [committedSegments],
+  );
+
+  const setLineOutcome = useCallback((id: string, outcome: LineOutcome | null) => {
+    setLineOutcomes((prev) => {
+      if (!outcome && !(id in prev)) return prev;
+      const next = { ...prev };
+      if (outcome) next[id] = outcome;
+      else delete next[id];
+      return next;
+    });
+  }, []);
+
+  const onTranslationResult = useCallback(
+    (job: TranslationJob, res: TranslateResponseBody, failures: number) => {
+      setTranslateError(null);
+      const text = (res.translation || "").trim();
+      if (res.shouldIgnore) {
+        setLineOutcome(job.id, { status: "ignored", detectedLanguage: res.detectedLanguage });
+        return;
+      }
+      if (!text) {
+        setLineOutcome(job.id, { status: "empty" });
+        return;
+      }
+      if (failures > 0) setLineOutcome(job.id, { status: "retried", failures });
+      addTranslation({
+        id: job.id,
+        sourceId: job.sourceId,
+        lang: job.lang,
+        text,
+        createdAt: Date.now(),
+        ...(res.glossaryViolations?.length ? { glossaryViolations: res.glossaryViolations } : null),
+      });
+    },
+    [addTranslation, setLineOutcome],
+  );
+
+  // Committed segments: a few requests at a time, retried on transient errors; each result is
+  // shown as it arrives, in transcript order (see insertInSourceOrder).
+  const translationQueue = useTranslationQueue({
+    translate: translateViaApi,
+    onResult: onTranslationResult,
+    onError: reportTranslateError,
+    summary,
+    onSummary: setSummary,
+    notBefore: translateNotBefore,
+  });
+  const clearTranslationQueue = translationQueue.clear;
+
+  // Audience view: what viewers of the share link see.
+  const shareMeta = useMemo<ShareMeta | null>(
+    () =>
+      meeting ? { name: meeting.name, inputLang: meeting.inputLang, targetLangs: meeting.targetLangs } : null,
+    [meeting],
+  );
+  const shareSegments = useMemo(
+    () =>
+      scribe.committed.map((t) => ({
+        id: t.id,
+        text: t.text,
+        createdAt: t.createdAt,
+        ...(t.speaker ? { speaker: speakerLabel(t.speaker, speakerNames) } : null),
+      })),
+    [scribe.committed, speakerNames],
+  );
+  const shareTranslations = useMemo(
+    () => translated.map(({ id, sourceId, lang, text }) => ({ id, sourceId, lang, text })),
+    [translated],
+  );
+  const sharePartial = useMemo<SharePartial>(
+    () => ({ original: scribe.partialTranscript, translations: partialTranslation }),
+    [partialTranslation, scribe.partialTranscript],
+  );
+  const shareSession = useShareSession({
+    meta: shareMeta,
+    segments: shareSegments,
+    translations: shareTranslations,
+    partial: sharePartial,
+  });
+  const endShare = shareSession.end;
+
+  const clearPanels = useCallback(() => {
+    clearTranslationQueue();
+    translatedIdsRef.current = new Set();
+    setTranslated([]);
+    setLineOutcomes({});
+    setPartialTranslation({});
+    setSummary("");
+    setTranslateError(null);
+    setMinutesError(null);
+    scribe.reset();
+  }, [clearTranslationQueue, scribe]);
+
+  // Each Start/Stop run (or uploaded file) becomes its own saved meeting.
+  const startMeeting = useCallback(
+    (input: AudioInput) => {
+      const startedAt = Date.now();
+      // Viewers of the previous meeting get an "ended" notice; share again to broadcast this one.
+      endShare();
+      clearPanels();
+      setMeeting({
+        id: `${startedAt}-${Math.random().toString(16).slice(2)}`,
+        name: "file" in input ? input.file.name : defaultMeetingName(startedAt),
+        inputLang: inputLang.value,
+        targetLangs: outLangs,
+        startedAt,
+      });
+      void scribe.connect(input);
+    },
+    [clearPanels, endShare, inputLang.value, outLangs, scribe],
+  );
+
+  const uploadFile = useCallback(
+    (file: File) => {
+      const speed = UPLOAD_SPEEDS.includes(uploadSpeed.value) ? uploadSpeed.value : 1;
+      const isScript = file.name.toLowerCase().endsWith(".json") || file.type === "application/json";
+      startMeeting({ kind: isScript ? "replay" : "file", file, speed });
+    },
+    [startMeeting, uploadSpeed.value],
+  );
+
+  // The bundled sample meeting; with TRANSLATE_PROVIDER=mock the whole UI runs offline.
+  const replayDemo = useCallback(async () => {
+    setDemoError(null);
+    try {
+      const resp = await fetch(DEMO_REPLAY_URL);
+      if (!resp.ok) throw new Error(`Failed to load the demo script (HTTP ${resp.status}).`);
+      const blob = await resp.blob();
+      uploadFile(new File([blob], "demo-meeting.json", { type: "application/json" }));
+    } catch (e) {
+      setDemoError(e instanceof Error ? e.message : "Failed to load the demo script.");
+    }
+  }, [uploadFile]);
+
+  const openMeeting = useCallback(
+    async (id: string) => {
+      if (isSessionActive || scribe.isConnecting) return;
+      const m = await meetings.load(id);
+      if (!m) return;
+      endShare();
+      clearTranslationQueue();
+      // Mark every loaded segment as handled so nothing gets re-translated.
+      translatedIdsRef.current = new Set(m.segments.map((t) => t.id));
+      setTranslated(m.translations);
+      setLineOutcomes(m.lineOutcomes ?? {});
+      setSummary(m.summary);
+      setPartialTranslation({});
+      setMinutesError(null);
+      scribe.loadTranscript(m.segments);
+      setMeeting({
+        id: m.id,
+        name: m.name,
+        inputLang: m.inputLang,
+        targetLangs: m.targetLangs,
+        startedAt: m.startedAt,
+        endedAt: m.endedAt,
+        recordingMimeType: m.recordingMimeType,
+        speakers: m.speakers,
+        minutes: m.minutes,
+      });
+      setIsHistoryOpen(false);
+    },
+    [clearTranslationQueue, endShare, isSessionActive, meetings, scribe],
+  );
+
+  const renameMeeting = useCallback(
+    (id: string, name: string) => {
+      void meetings.rename(id, name);
+      setMeeting((m) => (m && m.id === id ? { ...m, name: name.trim() } : m));
+    },
+    [meetings],
+  );
+
+  const deleteMeeting = useCallback(
+    (id: string) => {
+      void meetings.remove(id);
+      if (meeting?.id === id) {
+        // Otherwise autosave would write it straight back.
+        recording.stop();
+        endShare();
+        setMeeting(null);
+        clearPanels();
+      }
+    },
+    [clearPanels, endShare, meeting?.id, meetings, recording],
+  );
+
+  // Close the meeting when the session ends (Stop, or reconnecting gave up).
+  useEffect(() => {
+    if (wasConnectedRef.current && !isSessionActive) {
+      queueMicrotask(() => setMeeting((m) => (m && !m.endedAt ? { ...m, endedAt: Date.now() } : m)));
+    }
+    wasConnectedRef.current = isSessionActive;
+  }, [isSessionActive]);
+
+  // Autosave (debounced) so a crashed tab loses at most the last second.
+  const saveMeeting = meetings.save;
+  useEffect(() => {
+    if (!meeting) return;
+    if (scribe.committed.length === 0 && translated.length === 0) return;
+    const timer = window.setTimeout(() => {
+      void saveMeeting({
+        ...meeting,
+        updatedAt: Date.now(),
+        segments: scribe.committed,
+        translations: translated,
+        summary,
+        lineOutcomes,
+      });
+    }, 800);
+    return () => window.clearTimeout(timer);
+  }, [lineOutcomes, meeting, saveMeeting, scribe.committed, summary, translated]);
+
+  const exportInput = useMemo<TranscriptExportInput | null>(() => {
+    if (scribe.committed.length === 0) return null;
+    const startedAt = meeting?.startedAt ?? scribe.committed[0]!.createdAt;
+    return {
+      name: meeting?.name ?? defaultMeetingName(startedAt),
+      startedAt,
+      endedAt: meeting?.endedAt,
+      inputLang: meeting?.inputLang ?? inputLang.value,
+      targetLangs: meeting?.targetLangs ?? outLangs,
+      segments: scribe.committed,
+      translations: translated,
+      summary,
+      speakers: meeting?.speakers,
+    };
+  }, [inputLang.value, meeting, outLangs, scribe.committed, summary, translated]);
+
+  // Minutes default to the first output language until one is picked in the panel.
+  const shownMinutesLang =
+    minutesLang.value && isLanguageCode(minutesLang.value) ? minutesLang.value : outLangs[0]!;
+
+  const generateMinutes = useCallback(async () => {
+    if (!meeting || scribe.committed.length === 0) return;
+    const id = meeting.id;
+    const body: MinutesRequestBody = {
+      lang: shownMinutesLang,
+      meetingName: meeting.name,
+      meetingDate: localDay(meeting.startedAt),
+      segments: scribe.committed.map((t) => ({
+        text: t.text,
+        ...(t.speaker ? { speaker: speakerLabel(t.speaker, meeting.speakers) } : null),
+      })),
+    };
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      [MEETING_ID_HEADER]: id,
+    };
+    if (openaiKeyValue) headers["x-openai-api-key"] = openaiKeyValue;
+
+    setIsGeneratingMinutes(true);
+    setMinutesError(null);
+    try {
+      const resp = await fetch("/api/minutes", {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+      });
+      const data = (await resp.json()) as { minutes?: MeetingMinutes; error?: string };
+      if (!resp.ok || !data.minutes) throw apiError(resp, data, "Failed to generate minutes.");
+      const minutes = data.minutes;
+      // Saved with the meeting by autosave; ignored if another meeting was opened meanwhile.
+      setMeeting((m) => (m && m.id === id ? { ...m, minutes } : m));
+    } catch (e) {
+      setMinutesError(e instanceof Error ? e.message : "Failed to generate minutes.");
+    } finally {
+      setIsGeneratingMinutes(false);
+    }
+  }, [meeting, openaiKeyValue, scribe.committed, shownMinutesLang]);
+
+  // Output languages of the panels: the live selection, or the reopened meeting's.
+  const panelLangs = meeting && !isSessionActive ? meeting.targetLangs : outLangs;
+
+  // Renames apply to the whole meeting; an empty name falls back to "Speaker N".
+  const renameSpeaker = useCallback((speaker: string, name: string) => {
+    setMeeting((m) => {
+      if (!m) return m;
+      const speakers = { ...m.speakers };
+      if (name.trim()) speakers[speaker] = name.trim();
+      else delete speakers[speaker];
+      return { ...m, speakers };
+    });
+  }, []);
+
+  const changeTargetLangs = useCallback(
+    (next: LanguageCode[]) => {
+      targetLangs.setValue(next);
+      // Languages added mid-meeting become part of the meeting.
+      if (isSessionActive) {
+        setMeeting((m) =>
+          m ? { ...m, targetLangs: LANGUAGE_CODES.filter((c) => m.targetLangs.includes(c) || next.includes(c)) } : m,
+        );
+      }
+    },
+    [isSessionActive, targetLangs],
+  );
+
+  // Voice output: reads committed translations of one output language aloud, in arrival order.
+  const voicePrefs = useMemo(
+    () => ({ ...DEFAULT_VOICE_OUTPUT_PREFS, ...voiceOutput.value }),
+    [voiceOutput.value],
+  );
+  const spokenLang = voicePrefs.lang && outLangs.includes(voicePrefs.lang) ? voicePrefs.lang : outLangs[0]!;
+  const ttsProvider = useMemo(
+    () =>
+      voicePrefs.enabled
+        ? createTtsProvider(voicePrefs.provider, {
+            ...(elevenKeyValue ? { "x-elevenlabs-api-key": elevenKeyValue } : null),
+            ...(meetingId ? { [MEETING_ID_HEADER]: meetingId } : null),
+          })
+        : null,
+    [elevenKeyValue, meetingId, voicePrefs.enabled, voicePrefs.provider],
+  );
+  const speech = useSpeechQueue({
+    provider: ttsProvider,
+    volume: voicePrefs.volume,
+    voices: voicePrefs.voices,
+  });
+  const spokenIdsRef = useRef<Set<string>>(new Set());
+
+  const enqueueSpeech = speech.enqueue;
+  useEffect(() => {
+    for (const t of translated) {
+      if (spokenIdsRef.current.has(t.id)) continue;
+      spokenIdsRef.current.add(t.id);
+      // Only live translations; reopened meetings and earlier lines stay silent.
+      if (ttsProvider && isSessionActive && t.lang === spokenLang) {
+        enqueueSpeech({ id: t.id, text: t.text, lang: t.lang });
+      }
+    }
+  }, [enqueueSpeech, isSessionActive, spokenLang, translated, ttsProvider]);
+
+  const clearSpeech = speech.clear;
+  useEffect(() => {
+    if (!ttsProvider) clearSpeech();
+  }, [clearSpeech, ttsProvider]);
+
   const status = useMemo(() => {
     if (scribe.isConnecting) return "Connecting…";
+    if (scribe.isReconnecting) return `Reconnecting… (attempt ${scribe.reconnectAttempt})`;
+    const file = scribe.fileProgress;
+    if (scribe.isConnected && file) {
+      const verb = file.kind === "replay" ? "Replaying" : "Transcribing file";
+      return `${verb} ${formatClock(file.positionMs)} / ${formatClock(file.durationMs)}`;
+    }
     if (scribe.isConnected) return "Live";
     return "Idle";
-  }, [scribe.isConnected, scribe.isConnecting]);
+  }, [
+    scribe.fileProgress,
+    scribe.isConnected,
+    scribe.isConnecting,
+    scribe.isReconnecting,
+    scribe.reconnectAttempt,
+  ]);
 
-  // Translate committed segments (high-fidelity)
-  useEffect(() => {
-    const last = scribe.committed[scribe.committed.length - 1];
-    if (!last) return;
-    if (translatedIdsRef.current.has(last.id)) return;
-
-    translatedIdsRef.current.add(last.id);
-
-    const outLang = (targetLang.value === "auto" ? "en" : targetLang.value) as
-      | "en"
-      | "ja"
-      | "ko";
-
-    // If user sets output language same as input (and input isn't auto), just mirror text.
-    if (inputLang.value !== "auto" && inputLang.value === outLang) {
-      queueMicrotask(() => {
-        setTranslated((prev) => [
-          ...prev,
-          {
-            id: `${last.id}-t`,
-            sourceId: last.id,
-            text: last.text,
-            createdAt: Date.now(),
-          },
-        ]);
+  // Errors shown under the header, whichever panels are open; each stays until dismissed or
+  // the next success.
+  const dismissScribeError = scribe.dismissError;
+  const notices = useMemo<StatusNotice[]>(() => {
+    const list: StatusNotice[] = [];
+    if (scribe.lastError) {
+      list.push({ id: "transcription", source: "Transcription", ...scribe.lastError, onDismiss: dismissScribeError });
+    }
+    if (translateError) {
+      list.push({
+        id: "translation",
+        source: "Translation",
+        ...translateError,
+        onDismiss: () => setTranslateError(null),
       });
-      return;
     }
+    return list;
+  }, [dismissScribeError, scribe.lastError, translateError]);
 
-    // Only update running summary occasionally to keep latency stable during long meetings.
-    const shouldUpdateSummary = summary.length === 0 || scribe.committed.length % 4 === 0;
-    const recent = scribe.committed.slice(-8).map((t) => t.text);
-    void (async () => {
-      try {
-        const res = await translateViaApi({
-          text: last.text,
-          sourceLang: inputLang.value,
-          targetLang: outLang,
-          mode: "committed",
-          updateSummary: shouldUpdateSummary,
-          recent,
-          summary,
-        });
+  // Translate committed segments (high-fidelity), once per output language.
+  const enqueueTranslations = translationQueue.enqueue;
+  useEffect(() => {
+    const fresh = scribe.committed.filter((t) => !translatedIdsRef.current.has(t.id));
+    if (!fresh.length) return;
 
-        if (shouldUpdateSummary && res.updatedSummary && typeof res.updatedSummary === "string") {
-          setSummary(res.updatedSummary);
-        }
+    // If an output language is the same as input (and input isn't auto), just mirror text.
+    const isMirror = (lang: LanguageCode) => inputLang.value !== "auto" && inputLang.value === lang;
+    // A single summary is kept per meeting; the first translated language maintains it.
+    const summaryLang = outLangs.find((l) => !isMirror(l));
+
+    const jobs: TranslationJob[] = [];
+    for (const line of fresh) {
+      translatedIdsRef.current.add(line.id);
+      const index = scribe.committed.indexOf(line);
+      // Only update running summary occasionally to keep latency stable during long meetings.
+      const shouldUpdateSummary = summary.length === 0 || (index + 1) % 4 === 0;
+      const recent = scribe.committed.slice(Math.max(0, index - 7), index + 1).map(contextLine);
+      const speaker = line.speaker ? speakerLabel(line.speaker, speakerNames) : undefined;
 
-        if (res.shouldIgnore) return;
-        const translatedText = (res.translation || "").trim();
-        if (!translatedText) return;
-        setTranslated((prev) => [
-          ...prev,
-          {
-            id: `${last.id}-t`,
-            sourceId: last.id,
-            text: translatedText,
-            createdAt: Date.now(),
+      for (const outLang of outLangs) {
+        const id = `${line.id}-t-${outLang}`;
+        if (isMirror(outLang)) {
+          queueMicrotask(() =>
+            addTranslation({ id, sourceId: line.id, lang: outLang, text: line.text, createdAt: Date.now() }),
+          );
+          continue;
+        }
+        jobs.push({
+          id,
+          sourceId: line.id,
+          lang: outLang,
+          request: {
+            text: line.text,
+            sourceLang: inputLang.value,
+            targetLang: outLang,
+            mode: "committed",
+            updateSummary: shouldUpdateSummary && outLang === summaryLang,
+            recent,
+            speaker,
+            glossary: glossaryRulesFor(glossaryEntries, inputLang.value, outLang),
           },
-        ]);
-      } catch {
-        // Keep UX stable; surface errors via the existing error banner.
+        });
       }
-    })();
+    }
+    if (jobs.length) enqueueTranslations(jobs);
   }, [
+    addTranslation,
+    contextLine,
+    enqueueTranslations,
+    glossaryEntries,
     inputLang.value,
+    outLangs,
     scribe.committed,
+    speakerNames,
     summary,
-    targetLang.value,
-    translateViaApi,
   ]);
 
-  // Translate partial transcript (fast preview). Debounced + aborted on new input.
+  // A corrected line gets its translations redone with the same context it had originally.
+  const updateLine = scribe.updateLine;
+  const correctSegment = useCallback(
+    (id: string, text: string) => {
+      const index = scribe.committed.findIndex((t) => t.id === id);
+      const line = scribe.committed[index];
+      if (!line || line.text === text) return;
+      updateLine(id, text);
+
+      const corrected = { ...line, text };
+      const recent = [...scribe.committed.slice(Math.max(0, index - 7), index), corrected].map(
+        contextLine,
+      );
+      const speaker = line.speaker ? speakerLabel(line.speaker, speakerNames) : undefined;
+      const existing = translated.filter((t) => t.sourceId === id).map((t) => t.lang);
+      const langs = existing.length ? existing : outLangs;
+      const isMirror = (lang: LanguageCode) => inputLang.value !== "auto" && inputLang.value === lang;
+
+      // Replaces the line's translation in place; null drops it, with the outcome saying why.
+      const setTranslation = (
+        lang: LanguageCode,
+        value: Pick<TranslatedLine, "text" | "glossaryViolations"> | null,
+        outcome: LineOutcome | null = null,
+      ) => {
+        const tid = `${id}-t-${lang}`;
+        setLineOutcome(tid, outcome);
+        setTranslated((prev) => {
+          const old = prev.find((t) => t.id === tid);
+          if (!value) return prev.filter((t) => t.id !== tid);
+          const next: TranslatedLine = {
+            id: tid,
+            sourceId: id,
+            lang,
+            createdAt: old?.createdAt ?? Date.now(),
+            ...value,
+          };
+          return old ? prev.map((t) => (t.id === tid ? next : t)) : insertInSourceOrder(prev, next, scribe.committed);
+        });
+      };
+
+      setRetranslatingIds((prev) => new Set(prev).add(id));
+      void Promise.all(
+        langs.map(async (lang) => {
+          if (isMirror(lang)) {
+            setTranslation(lang, { text });
+            return;
+          }
+          await waitForTranslateBackoff();
+          try {
+            const res = await translateViaApi({
+              text,
+              sourceLang: inputLang.value,
+              targetLang: lang,
+              mode: "committed",
+              updateSummary: false,
+              recent,
+              summary,
+              speaker,
+              glossary: glossaryRulesFor(glossaryEntries, inputLang.value, lang),
+            });
+            const translatedText = (res.translation || "").trim();
+            if (res.shouldIgnore || !translatedText) {
+              setTranslation(
+                lang,
+                null,
+                res.shouldIgnore
+                  ? { status: "ignored", detectedLanguage: res.detectedLanguage }
+                  : { status: "empty" },
+              );
+              return;
+            }
+            setTranslation(lang, {
+              text: translatedText,
+              ...(res.glossaryViolations?.length ? { glossaryViolations: res.glossaryViolations } : null),
+            });
+          } catch (e) {
+            // Keep the previous translation; the corrected original is still shown.
+            reportTranslateError(e);
+          }
+        }),
+      ).finally(() =>
+        setRetranslatingIds((prev) => {
+          const next = new Set(prev);
+          next.delete(id);
+          return next;
+        }),
+      );
+    },
+    [
+      contextLine,
+      glossaryEntries,
+      inputLang.value,
+      outLangs,
+      reportTranslateError,
+      scribe.committed,
+      setLineOutcome,
+      speakerNames,
+      summary,
+      translateViaApi,
+      translated,
+      updateLine,
+      waitForTranslateBackoff,
+    ],
+  );
+
+  // Translate partial transcript (fast preview), one stream per output language.
+  // Debounced + aborted on new input.
   useEffect(() => {
     if (!scribe.isConnected) {
-      queueMicrotask(() => setPartialTranslation(""));
+      queueMicrotask(() => setPartialTranslation({}));
       return;
     }
     const text = (scribe.partialTranscript || "").trim();
     if (!text) {
-      queueMicrotask(() => setPartialTranslation(""));
+      queueMicrotask(() => setPartialTranslation({}));
       return;
     }
 
     if (partialTimerRef.current) window.clearTimeout(partialTimerRef.current);
-    partialAbortRef.current?.abort();
+    partialAbortRef.current.forEach((c) => c.abort());
+
+    const setPartialFor = (lang: LanguageCode, value: string) =>
+      setPartialTranslation((prev) => ({ ...prev, [lang]: value }));
 
     partialTimerRef.current = window.setTimeout(() => {
+      // Rate limited: previews are expendable, the next partial after Retry-After goes out.
+      if (Date.now() < translateBackoffUntilRef.current) return;
       // Skip if the change is tiny; avoids hammering the translation API.
       const prev = lastPartialSentRef.current;
       if (prev && text.startsWith(prev) && text.length - prev.length < 6) return;
       lastPartialSentRef.current = text;
 
-      const controller = new AbortController();
-      partialAbortRef.current = controller;
+      // Keep partial translation context minimal for low latency.
+      const recent = scribe.committed.slice(-3).map(contextLine);
+      const controllers = outLangs.map(() => new AbortController());
+      partialAbortRef.current = controllers;
 
-      const outLang = (targetLang.value === "auto" ? "en" : targetLang.value) as
-        | "en"
-        | "ja"
-        | "ko";
+      outLangs.forEach((outLang, i) => {
+        const controller = controllers[i]!;
 
-      if (inputLang.value !== "auto" && inputLang.value === outLang) {
-        queueMicrotask(() => setPartialTranslation(text));
-        return;
-      }
+        if (inputLang.value !== "auto" && inputLang.value === outLang) {
+          queueMicrotask(() => setPartialFor(outLang, text));
+          return;
+        }
 
-      // Keep partial translation context minimal for low latency.
-      const recent = scribe.committed.slice(-3).map((t) => t.text);
-      void (async () => {
-        try {
-          const res = await translateViaApi({
-            text,
-            sourceLang: inputLang.value,
-            targetLang: outLang,
-            mode: "partial",
-            updateSummary: false,
-            recent,
-            summary: "",
-            signal: controller.signal,
-          });
-          if (res.shouldIgnore) {
-            queueMicrotask(() => setPartialTranslation(""));
-            return;
+        void (async () => {
+          try {
+            const res = await translateStreamViaApi(
+              {
+                text,
+                sourceLang: inputLang.value,
+                targetLang: outLang,
+                mode: "partial",
+                updateSummary: false,
+                recent,
+                summary: "",
+                glossary: glossaryRulesFor(glossaryEntries, inputLang.value, outLang),
+                signal: controller.signal,
+              },
+              (partial) => {
+                if (!controller.signal.aborted) setPartialFor(outLang, partial.trim());
+              },
+            );
+            if (res.shouldIgnore) {
+              queueMicrotask(() => setPartialFor(outLang, ""));
+              return;
+            }
+            queueMicrotask(() => setPartialFor(outLang, (res.translation || "").trim()));
+          } catch (e) {
+            // Superseded by newer input; anything else is worth showing.
+            if (!controller.signal.aborted) reportTranslateError(e);
           }
-          queueMicrotask(() => setPartialTranslation((res.translation || "").trim()));
-        } catch {
-          // ignore (likely aborted)
-        }
-      })();
+        })();
+      });
     }, 900);
 
     return () => {
       if (partialTimerRef.current) window.clearTimeout(partialTimerRef.current);
-      partialAbortRef.current?.abort();
+      partialAbortRef.current.forEach((c) => c.abort());
     };
   }, [
+    contextLine,
+    glossaryEntries,
     inputLang.value,
+    outLangs,
+    reportTranslateError,
     scribe.committed,
     scribe.isConnected,
     scribe.partialTranscript,
-    summary,
-    targetLang.value,
-    translateViaApi,
+    translateStreamViaApi,
   ]);
 
-  // Keep panels scrolled to the bottom as new segments arrive.
-  useEffect(() => {
-    const el = originalScrollRef.current;
-    if (!el) return;
-    el.scrollTop = el.scrollHeight;
-  }, [scribe.committed.length]);
-
-  useEffect(() => {
-    const el = translationScrollRef.current;
-    if (!el) return;
-    el.scrollTop = el.scrollHeight;
-  }, [translated.length]);
-
   return (
     <div className="min-h-screen bg-zinc-50 text-zinc-900 dark:bg-black dark:text-zinc-50">
       <header className="sticky top-0 z-10 border-b border-zinc-200/70 bg-zinc-50/80 backdrop-blur dark:border-white/10 dark:bg-black/60">
         <div className="mx-auto flex w-full max-w-6xl items-center justify-between px-4 py-3">
-          <div className="flex items-center gap-3">
+          <div className="flex min-w-0 items-center gap-3">
             <div className="text-sm font-semibold tracking-tight">Translator3</div>
-            <div className="text-xs text-zinc-500 dark:text-zinc-400">{status}</div>
+            <div
+              className={`text-xs ${
+                scribe.isReconnecting
+                  ? "text-amber-600 dark:text-amber-400"
+                  : "text-zinc-500 dark:text-zinc-400"
+              }`}
+            >
+              {status}
+            </div>
+            {scribe.inputMeters && <InputMeters meters={scribe.inputMeters} />}
+            {meeting && (
+              <div className="truncate text-xs text-zinc-500 dark:text-zinc-400" title={meeting.name}>
+                {meeting.name}
+              </div>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -262,34 +965,22 @@ export default function Home() {
               value={inputLang.value}
               onChange={(e) => inputLang.setValue(e.target.value as LanguageOption)}
               aria-label="Input language"
-              disabled={scribe.isConnected || scribe.isConnecting}
+              disabled={isSessionActive || scribe.isConnecting}
               title="Input language (used as a hint for transcription)"
             >
-              {Object.entries(LANG_LABEL).map(([k, v]) => (
+              {INPUT_LANG_OPTIONS.map((k) => (
                 <option key={k} value={k}>
-                  Input: {v}
+                  Input: {languageLabel(k)}
                 </option>
               ))}
             </select>
 
-            <select
-              className="h-9 rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-zinc-950"
-              value={targetLang.value}
-              onChange={(e) => targetLang.setValue(e.target.value as LanguageOption)}
-              aria-label="Target language"
-              title="Target language (translation)"
-            >
-              {(["en", "ja", "ko"] as const).map((k) => (
-                <option key={k} value={k}>
-                  Output: {LANG_LABEL[k]}
-                </option>
-              ))}
-            </select>
+            <TargetLanguagePicker value={outLangs} onChange={changeTargetLangs} />
 
-            {!scribe.isConnected ? (
+            {!isSessionActive ? (
               <button
                 className="h-9 rounded-md bg-zinc-900 px-3 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
-                onClick={scribe.connect}
+                onClick={() => startMeeting(captureSource)}
                 disabled={scribe.isConnecting}
               >
                 Start
@@ -303,6 +994,82 @@ export default function Home() {
               </button>
             )}
 
+            <button
+              className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+              onClick={() => uploadInputRef.current?.click()}
+              disabled={isSessionActive || scribe.isConnecting}
+              title="Transcribe and translate an audio or video file, or replay a transcript script (.json)"
+            >
+              Upload
+            </button>
+            <input
+              ref={uploadInputRef}
+              type="file"
+              accept={UPLOAD_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                // Reset so picking the same file again still fires onChange.
+                e.target.value = "";
+                if (file) uploadFile(file);
+              }}
+            />
+
+            {speech.current && (
+              <button
+                className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+                onClick={speech.skip}
+                title={`Speaking: ${speech.current.text}`}
+              >
+                Skip{speech.queue.length ? ` (${speech.queue.length} queued)` : ""}
+              </button>
+            )}
+
+            <button
+              className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+              onClick={() => setIsHistoryOpen((v) => !v)}
+              aria-expanded={isHistoryOpen}
+              aria-controls="meeting-history"
+            >
+              History
+            </button>
+
+            <button
+              className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+              onClick={() => setIsMinutesOpen((v) => !v)}
+              disabled={!meeting}
+              aria-expanded={isMinutesOpen}
+              aria-controls="meeting-minutes"
+            >
+              Minutes
+            </button>
+
+            {/* New tab, so a running meeting keeps going. */}
+            <Link
+              href="/usage"
+              target="_blank"
+              className="flex h-9 items-center rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+            >
+              Usage
+            </Link>
+
+            <ShareMenu
+              share={shareSession.share}
+              isStarting={shareSession.isStarting}
+              lastError={shareSession.lastError}
+              onStart={meeting ? () => void shareSession.start() : undefined}
+              onEnd={endShare}
+            />
+
+            <ExportMenu
+              input={exportInput}
+              onDownloadAudio={
+                meeting?.recordingMimeType
+                  ? (format) => void recording.download(format, exportBaseName(meeting.name))
+                  : undefined
+              }
+            />
+
             <button
               className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
               onClick={() => setIsSettingsOpen((v) => !v)}
@@ -322,26 +1089,49 @@ export default function Home() {
             <div className="mx-auto w-full max-w-6xl px-4 py-4">
               <div className="grid gap-3 md:grid-cols-2">
                 <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-white/10 dark:bg-zinc-950">
-                  <div className="mb-2 text-sm font-medium">API keys (stored in localStorage)</div>
-                  <div className="space-y-2">
-                    <input
-                      className="h-9 w-full rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
-                      placeholder="ElevenLabs API key (optional if server has ELEVENLABS_API_KEY)"
-                      value={elevenKey.value}
-                      onChange={(e) => elevenKey.setValue(e.target.value)}
-                      type="password"
-                    />
-                    <input
-                      className="h-9 w-full rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
-                      placeholder="OpenAI API key (optional if server has OPENAI_API_KEY)"
-                      value={openaiKey.value}
-                      onChange={(e) => openaiKey.setValue(e.target.value)}
-                      type="password"
-                    />
+                  <div className="mb-2 flex items-center justify-between gap-2 text-sm font-medium">
+                    API keys
+                    {auth.session?.user && (
+                      <span className="text-xs font-normal text-zinc-500 dark:text-zinc-400">
+                        {auth.session.user.name} ·{" "}
+                        <button className="underline" onClick={() => void auth.signOut()}>
+                          Sign out
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  {auth.session?.user && (
+                    <SavedKeysForm saved={auth.savedKeys} scope={auth.keyScope} onSave={auth.saveKeys} />
+                  )}
+                  {auth.lastError && (
+                    <div className="mt-2 text-xs text-red-600 dark:text-red-400">{auth.lastError}</div>
+                  )}
+                  {allowBrowserKeys && (
+                    <div className={`space-y-2 ${auth.session?.user ? "mt-3" : ""}`}>
+                      <input
+                        className="h-9 w-full rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
+                        placeholder="ElevenLabs API key (optional if server has ELEVENLABS_API_KEY)"
+                        value={elevenKey.value}
+                        onChange={(e) => elevenKey.setValue(e.target.value)}
+                        type="password"
+                      />
+                      <input
+                        className="h-9 w-full rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
+                        placeholder="OpenAI API key (optional if server has OPENAI_API_KEY)"
+                        value={openaiKey.value}
+                        onChange={(e) => openaiKey.setValue(e.target.value)}
+                        type="password"
+                      />
+                      <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                        Development only: these are stored in localStorage and ignored by production servers.
+                      </div>
+                    </div>
+                  )}
+                  {auth.session && !auth.session.user && !allowBrowserKeys && (
                     <div className="text-xs text-zinc-500 dark:text-zinc-400">
-                      For production, move keys to server-side secrets and add authentication.
+                      Keys come from the server environment. Enable sign-in (AUTH_MODE) to save per-user keys.
                     </div>
-                  </div>
+                  )}
                 </div>
 
                 <div className="rounded-lg border border-zinc-200 bg-white p-4 dark:border-white/10 dark:bg-zinc-950">
@@ -349,6 +1139,55 @@ export default function Home() {
                   <div className="text-xs text-zinc-500 dark:text-zinc-400">
                     The translator uses recent segments + a compact running summary to keep quality stable during long meetings.
                   </div>
+                  <label className="mt-3 flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={detectSpeakers.value}
+                      onChange={(e) => detectSpeakers.setValue(e.target.checked)}
+                      disabled={isSessionActive || scribe.isConnecting}
+                    />
+                    Label speakers
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400">(applies from the next Start)</span>
+                  </label>
+                  <label className="mt-2 flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={correctionsInContext.value}
+                      onChange={(e) => correctionsInContext.setValue(e.target.checked)}
+                    />
+                    Use corrected lines as context
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400">(otherwise what Scribe heard)</span>
+                  </label>
+                  <label className="mt-2 flex items-center gap-2 text-sm">
+                    Uploaded files play at
+                    <select
+                      className="h-8 rounded-md border border-zinc-200 bg-white px-1 text-sm dark:border-white/10 dark:bg-black"
+                      value={uploadSpeed.value}
+                      onChange={(e) => uploadSpeed.setValue(Number(e.target.value))}
+                      disabled={isSessionActive || scribe.isConnecting}
+                    >
+                      {UPLOAD_SPEEDS.map((s) => (
+                        <option key={s} value={s}>
+                          {s}× speed
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="mt-2 flex items-center gap-2 text-sm">
+                    <button
+                      className="h-8 rounded-md border border-zinc-200 bg-white px-2 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+                      onClick={() => void replayDemo()}
+                      disabled={isSessionActive || scribe.isConnecting}
+                      title="Replay a scripted sample meeting; no microphone or speech-to-text needed"
+                    >
+                      Replay demo
+                    </button>
+                    {demoError ? (
+                      <span className="text-xs text-red-600 dark:text-red-400">{demoError}</span>
+                    ) : (
+                      <span className="text-xs text-zinc-500 dark:text-zinc-400">(or upload a .json script)</span>
+                    )}
+                  </div>
                   <div className="mt-3 flex gap-2">
                     <button
                       className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
@@ -360,9 +1199,11 @@ export default function Home() {
                     <button
                       className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
                       onClick={() => {
+                        clearTranslationQueue();
                         translatedIdsRef.current = new Set();
                         setTranslated([]);
-                        setPartialTranslation("");
+                        setLineOutcomes({});
+                        setPartialTranslation({});
                         scribe.reset();
                       }}
                       title="Clear transcripts + translations"
@@ -373,97 +1214,180 @@ export default function Home() {
                 </div>
               </div>
 
-              {scribe.lastError && (
-                <div className="mt-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200">
-                  {scribe.lastError}
+              <div className="mt-3 rounded-lg border border-zinc-200 bg-white p-4 dark:border-white/10 dark:bg-zinc-950">
+                <div className="mb-2 text-sm font-medium">Audio input</div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    className="h-9 rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
+                    value={captureSource.kind}
+                    onChange={(e) => {
+                      const kind = e.target.value as CaptureSourceKind;
+                      const deviceId = "deviceId" in captureSource ? captureSource.deviceId : undefined;
+                      audioSource.setValue(kind === "tab" ? { kind } : { kind, deviceId });
+                    }}
+                    disabled={isSessionActive || scribe.isConnecting}
+                    aria-label="Audio source"
+                  >
+                    {CAPTURE_SOURCE_KINDS.map((k) => (
+                      <option key={k} value={k}>
+                        {captureSourceLabel(k)}
+                      </option>
+                    ))}
+                  </select>
+                  {captureSource.kind !== "tab" && (
+                    <select
+                      className="h-9 max-w-72 rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
+                      value={captureSource.deviceId ?? ""}
+                      onChange={(e) =>
+                        audioSource.setValue({
+                          kind: captureSource.kind,
+                          deviceId: e.target.value || undefined,
+                        })
+                      }
+                      disabled={isSessionActive || scribe.isConnecting}
+                      aria-label="Microphone"
+                    >
+                      <option value="">Default microphone</option>
+                      {inputDevices.devices.map((d) => (
+                        <option key={d.deviceId} value={d.deviceId}>
+                          {d.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {captureSource.kind !== "tab" && (
+                    <button
+                      className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+                      onClick={() => void micTest.run(captureSource.deviceId)}
+                      disabled={isSessionActive || scribe.isConnecting || micTest.phase !== "idle"}
+                      title="Record 3 seconds and play them back"
+                    >
+                      {micTest.phase === "recording"
+                        ? "Recording…"
+                        : micTest.phase === "playing"
+                          ? "Playing back…"
+                          : "Test mic"}
+                    </button>
+                  )}
                 </div>
-              )}
-            </div>
-          </div>
-        )}
-      </header>
-
-      <main className="mx-auto w-full max-w-6xl px-4 py-6">
-        <div className="grid gap-4 lg:grid-cols-2">
-          <section className="rounded-lg border border-zinc-200 bg-white dark:border-white/10 dark:bg-zinc-950">
-            <div className="border-b border-zinc-200 px-4 py-3 text-sm font-medium dark:border-white/10">
-              Original (live transcription)
-            </div>
-            <div className="flex h-[calc(100dvh-220px)] min-h-[420px] flex-col">
-              <div ref={originalScrollRef} className="min-h-0 flex-1 overflow-auto p-4">
-                {scribe.committed.length === 0 ? (
-                  <div className="text-sm text-zinc-400">
-                    Committed segments will accumulate here (server-side VAD).
+                {micTest.phase === "recording" && micTest.health && (
+                  <div className="mt-2">
+                    <LevelMeter label="Test" rms={micTest.health.rms} peak={micTest.health.peak} />
                   </div>
-                ) : (
-                  <div className="space-y-2">
-                    {scribe.committed.slice(-200).map((t) => (
-                      <div key={t.id} className="text-sm leading-5">
-                        {t.text}
+                )}
+                {micTest.phase !== "recording" && micTest.health && (
+                  <div className="mt-2 space-y-1 text-xs">
+                    {micTest.health.warnings.length ? (
+                      micTest.health.warnings.map((w) => (
+                        <div key={w.kind} className="text-amber-600 dark:text-amber-400">
+                          {w.message}
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-emerald-600 dark:text-emerald-400">
+                        The microphone sounds fine. If the playback was your voice, you are good to go.
                       </div>
-                    ))}
+                    )}
                   </div>
                 )}
-              </div>
-
-              <div className="border-t border-zinc-200 bg-white/80 p-3 backdrop-blur dark:border-white/10 dark:bg-zinc-950/70">
-                {scribe.partialTranscript ? (
-                  <div className="text-sm text-zinc-700 dark:text-zinc-200">
-                    <span className="mr-2 inline-block rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300">
-                      LIVE
-                    </span>
-                    {scribe.partialTranscript}
-                  </div>
-                ) : (
-                  <div className="text-sm text-zinc-400">Live partial transcript will appear here.</div>
+                {micTest.lastError && (
+                  <div className="mt-2 text-xs text-red-600 dark:text-red-400">{micTest.lastError}</div>
                 )}
+                <div className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                  Tab audio picks up remote participants of a Zoom/Meet call running in the browser. On Start, choose the
+                  meeting tab and tick &quot;Share tab audio&quot;.
+                </div>
               </div>
-            </div>
-          </section>
-
-          <section className="rounded-lg border border-zinc-200 bg-white dark:border-white/10 dark:bg-zinc-950">
-            <div className="border-b border-zinc-200 px-4 py-3 text-sm font-medium dark:border-white/10">
-              Translation
-            </div>
-            <div className="flex h-[calc(100dvh-220px)] min-h-[420px] flex-col">
-              <div ref={translationScrollRef} className="min-h-0 flex-1 overflow-auto p-4">
-                {translated.length === 0 ? (
-                  <div className="text-sm text-zinc-400">
-                    Translated committed segments will accumulate here.
-                  </div>
-                ) : (
-                  <div className="space-y-2">
-                    {translated.slice(-200).map((t) => (
-                      <div key={t.id} className="text-sm leading-5">
-                        {t.text}
-                      </div>
-                    ))}
-                  </div>
-                )}
 
-                {summary ? (
-                  <div className="mt-4 rounded-md border border-zinc-200 bg-zinc-50 p-3 text-xs text-zinc-600 dark:border-white/10 dark:bg-black dark:text-zinc-300">
-                    <div className="mb-1 font-medium">Running summary</div>
-                    <div className="whitespace-pre-wrap leading-5">{summary}</div>
-                  </div>
-                ) : null}
+              <div className="mt-3 rounded-lg border border-zinc-200 bg-white p-4 dark:border-white/10 dark:bg-zinc-950">
+                <div className="mb-2 text-sm font-medium">Voice output</div>
+                <VoiceOutputSettings
+                  value={voicePrefs}
+                  onChange={voiceOutput.setValue}
+                  languages={outLangs}
+                  spokenLang={spokenLang}
+                  provider={ttsProvider}
+                />
               </div>
 
-              <div className="border-t border-zinc-200 bg-white/80 p-3 backdrop-blur dark:border-white/10 dark:bg-zinc-950/70">
-                {partialTranslation ? (
-                  <div className="text-sm text-zinc-700 dark:text-zinc-200">
-                    <span className="mr-2 inline-block rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300">
-                      LIVE
-                    </span>
-                    {partialTranslation}
-                  </div>
-                ) : (
-                  <div className="text-sm text-zinc-400">Live translated preview will appear here.</div>
-                )}
+              <div className="mt-3 rounded-lg border border-zinc-200 bg-white p-4 dark:border-white/10 dark:bg-zinc-950">
+                <div className="mb-1 text-sm font-medium">Glossary (stored in localStorage)</div>
+                <div className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+                  Sent with every translation request. Translations that break a rule get a <em>glossary</em> marker.
+                </div>
+                <GlossaryEditor
+                  entries={glossaryEntries}
+                  onChange={glossary.setValue}
+                  sourceLang={inputLang.value === "auto" ? "en" : inputLang.value}
+                  targetLang={outLangs[0]!}
+                />
               </div>
+
+              {speech.lastError && (
+                <div className="mt-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200">
+                  {speech.lastError}
+                </div>
+              )}
+
+              {recording.lastError && (
+                <div className="mt-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200">
+                  {recording.lastError}
+                </div>
+              )}
             </div>
-          </section>
-        </div>
+          </div>
+        )}
+
+        <StatusNotices notices={notices} />
+      </header>
+
+      {isHistoryOpen && (
+        <MeetingHistory
+          meetings={meetings.meetings}
+          activeId={meeting?.id ?? null}
+          isLive={isSessionActive || scribe.isConnecting}
+          lastError={meetings.lastError}
+          onOpen={(id) => void openMeeting(id)}
+          onRename={renameMeeting}
+          onDelete={deleteMeeting}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isMinutesOpen && meeting && (
+        <MinutesPanel
+          meeting={meeting}
+          minutes={meeting.minutes}
+          segmentCount={scribe.committed.length}
+          lang={shownMinutesLang}
+          onLangChange={minutesLang.setValue}
+          isGenerating={isGeneratingMinutes}
+          isLive={isSessionActive || scribe.isConnecting}
+          lastError={minutesError}
+          onGenerate={() => void generateMinutes()}
+          onClose={() => setIsMinutesOpen(false)}
+        />
+      )}
+
+      <main className="mx-auto w-full max-w-6xl px-4 py-6">
+        <TranscriptPanels
+          segments={scribe.committed}
+          partialTranscript={scribe.partialTranscript}
+          translations={translated}
+          partialTranslation={partialTranslation}
+          langs={panelLangs}
+          jobStates={translationQueue.states}
+          onRetry={translationQueue.retry}
+          lineOutcomes={lineOutcomes}
+          summary={summary}
+          retranslatingIds={retranslatingIds}
+          speakerNames={speakerNames}
+          onRenameSpeaker={renameSpeaker}
+          onCorrectSegment={correctSegment}
+          onPlaySegment={meeting?.recordingMimeType ? playSegment : undefined}
+          onStopPlaying={recording.stop}
+          playingId={recording.playingKey}
+        />
       </main>
     </div>
   );
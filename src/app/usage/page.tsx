@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+import { UsageDashboard } from "@/components/UsageDashboard";
+
+export const metadata: Metadata = {
+  title: "Translator3 — Usage",
+};
+
+/**
+ * Usage and estimated cost per meeting and per day (see /api/usage).
+ */
+export default function UsagePage() {
+  return <UsageDashboard />;
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+import { AudienceView } from "@/components/AudienceView";
+
+export const metadata: Metadata = {
+  title: "Translator3 — Live translation",
+};
+
+/**
+ * Read-only audience view of a shared meeting (see /api/share).
+ */
+export default async function ViewPage({ params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+  return <AudienceView sessionId={sessionId} />;
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { isLanguageCode, languageLabel, type LanguageCode } from "@/lib/languages";
+import { mergeShareUpdate } from "@/lib/share/merge";
+import type { ShareSnapshot, ShareUpdate } from "@/lib/share/types";
+import { readSseStream } from "@/lib/translate/stream";
+import { useLocalStorageState } from "@/lib/useLocalStorageState";
+
+type ViewLang = LanguageCode | "original";
+
+type ViewStatus =
+  | { kind: "join"; error?: string }
+  | { kind: "connecting" }
+  | { kind: "live" }
+  | { kind: "reconnecting" }
+  | { kind: "ended" };
+
+const RECONNECT_DELAY_MS = 2000;
+
+interface AudienceViewProps {
+  sessionId: string;
+}
+
+export function AudienceView({ sessionId }: AudienceViewProps) {
+  const viewLang = useLocalStorageState<ViewLang>("t3.viewLang", "en");
+  const [code, setCode] = useState("");
+  const [status, setStatus] = useState<ViewStatus>({ kind: "join" });
+  const [snapshot, setSnapshot] = useState<ShareSnapshot | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  const join = useCallback(
+    (joinCode: string) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setStatus({ kind: "connecting" });
+
+      const run = async () => {
+        let ended = false;
+        try {
+          const resp = await fetch(
+            `/api/share/${encodeURIComponent(sessionId)}/events?code=${encodeURIComponent(joinCode)}`,
+            { signal: controller.signal, cache: "no-store" },
+          );
+          if (!resp.ok || !resp.body) {
+            const data = (await resp.json().catch(() => ({}))) as { error?: string };
+            // Wrong code or unknown share: retrying won't help.
+            setStatus({ kind: "join", error: data?.error || "Could not join." });
+            return;
+          }
+          sessionStorage.setItem(`t3.share.${sessionId}`, joinCode);
+
+          await readSseStream(resp.body, ({ event, data }) => {
+            if (event === "snapshot") {
+              const snap = JSON.parse(data) as ShareSnapshot;
+              setSnapshot(snap);
+              ended = Boolean(snap.endedAt);
+              setStatus({ kind: ended ? "ended" : "live" });
+            } else if (event === "update") {
+              const update = JSON.parse(data) as ShareUpdate;
+              setSnapshot((prev) => (prev ? mergeShareUpdate(prev, update) : prev));
+            } else if (event === "end") {
+              ended = true;
+              setSnapshot((prev) =>
+                prev
+                  ? { ...prev, partial: { original: "", translations: {} }, endedAt: Date.now() }
+                  : prev,
+              );
+              setStatus({ kind: "ended" });
+            }
+          });
+        } catch {
+          // Network drop; fall through to reconnect.
+        }
+        if (ended || controller.signal.aborted) return;
+        setStatus({ kind: "reconnecting" });
+        window.setTimeout(() => {
+          if (!controller.signal.aborted) void run();
+        }, RECONNECT_DELAY_MS);
+      };
+      void run();
+    },
+    [sessionId],
+  );
+
+  // Rejoin with the code from an earlier visit (survives reloads, not new tabs).
+  useEffect(() => {
+    const saved = sessionStorage.getItem(`t3.share.${sessionId}`);
+    if (saved) queueMicrotask(() => join(saved));
+    return () => abortRef.current?.abort();
+  }, [join, sessionId]);
+
+  const languages = useMemo<ViewLang[]>(
+    () => ["original", ...(snapshot?.meta.targetLangs ?? [])],
+    [snapshot?.meta.targetLangs],
+  );
+  const lang: ViewLang = languages.includes(viewLang.value)
+    ? viewLang.value
+    : (languages[1] ?? "original");
+
+  const lines = useMemo(() => {
+    if (!snapshot) return [];
+    const byKey = new Map(snapshot.translations.map((t) => [`${t.sourceId}:${t.lang}`, t.text]));
+    return snapshot.segments.map((s) => ({
+      id: s.id,
+      speaker: s.speaker,
+      text: lang === "original" ? s.text : byKey.get(`${s.id}:${lang}`),
+    }));
+  }, [lang, snapshot]);
+
+  const partial =
+    lang === "original" ? snapshot?.partial.original : snapshot?.partial.translations[lang];
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [lines]);
+
+  if (status.kind === "join" || !snapshot) {
+    const isBusy = status.kind === "connecting";
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-zinc-50 px-4 text-zinc-900 dark:bg-black dark:text-zinc-50">
+        <form
+          className="w-full max-w-sm rounded-lg border border-zinc-200 bg-white p-6 dark:border-white/10 dark:bg-zinc-950"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (code.trim()) join(code.trim().toUpperCase());
+          }}
+        >
+          <div className="mb-1 text-sm font-semibold">Join live translation</div>
+          <div className="mb-4 text-xs text-zinc-500 dark:text-zinc-400">
+            Enter the join code shown by the host.
+          </div>
+          <input
+            className="h-10 w-full rounded-md border border-zinc-200 bg-white px-3 font-mono text-lg uppercase tracking-widest dark:border-white/10 dark:bg-black"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="ABC234"
+            autoFocus
+            autoComplete="off"
+            aria-label="Join code"
+          />
+          {status.kind === "join" && status.error && (
+            <div className="mt-2 text-xs text-red-600 dark:text-red-400">{status.error}</div>
+          )}
+          <button
+            type="submit"
+            className="mt-4 h-9 w-full rounded-md bg-zinc-900 px-3 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+            disabled={isBusy || !code.trim()}
+          >
+            {isBusy ? "Joining…" : "Join"}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  const statusLabel =
+    status.kind === "ended"
+      ? "Share ended"
+      : status.kind === "reconnecting"
+        ? "Reconnecting…"
+        : status.kind === "connecting"
+          ? "Connecting…"
+          : "Live";
+
+  return (
+    <div className="flex h-dvh flex-col bg-zinc-50 text-zinc-900 dark:bg-black dark:text-zinc-50">
+      <header className="border-b border-zinc-200/70 bg-zinc-50/80 backdrop-blur dark:border-white/10 dark:bg-black/60">
+        <div className="mx-auto flex w-full max-w-3xl items-center justify-between gap-3 px-4 py-3">
+          <div className="min-w-0">
+            <div className="truncate text-sm font-semibold" title={snapshot.meta.name}>
+              {snapshot.meta.name}
+            </div>
+            <div
+              className={`text-xs ${
+                status.kind === "live"
+                  ? "text-zinc-500 dark:text-zinc-400"
+                  : "text-amber-600 dark:text-amber-400"
+              }`}
+            >
+              {statusLabel}
+            </div>
+          </div>
+          <select
+            className="h-9 rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-zinc-950"
+            value={lang}
+            onChange={(e) => {
+              const next = e.target.value;
+              if (next === "original" || isLanguageCode(next)) viewLang.setValue(next);
+            }}
+            aria-label="Display language"
+          >
+            {languages.map((l) => (
+              <option key={l} value={l}>
+                {l === "original" ? "Original" : languageLabel(l)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      <main ref={scrollRef} className="min-h-0 flex-1 overflow-auto">
+        <div className="mx-auto w-full max-w-3xl space-y-3 px-4 py-4">
+          {lines.length === 0 ? (
+            <div className="text-sm text-zinc-400">Waiting for the first segment…</div>
+          ) : (
+            lines.map((l, i) => (
+              <div key={l.id}>
+                {l.speaker && l.speaker !== lines[i - 1]?.speaker && (
+                  <div className="mb-1 text-xs font-medium text-zinc-500 dark:text-zinc-400">
+                    {l.speaker}
+                  </div>
+                )}
+                <div className={`text-base leading-6 ${l.text ? "" : "text-zinc-400"}`}>
+                  {l.text ?? "…"}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </main>
+
+      {partial ? (
+        <footer className="border-t border-zinc-200 bg-white/80 backdrop-blur dark:border-white/10 dark:bg-zinc-950/70">
+          <div className="mx-auto w-full max-w-3xl px-4 py-3 text-base text-zinc-700 dark:text-zinc-200">
+            <span className="mr-2 inline-block rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300">
+              LIVE
+            </span>
+            {partial}
+          </div>
+        </footer>
+      ) : null}
+    </div>
+  );
+}
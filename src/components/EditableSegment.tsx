@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+
+interface EditableSegmentProps {
+  text: string;
+  // What Scribe heard, when the line was corrected.
+  originalText?: string;
+  onSave: (text: string) => void;
+  // Playback of the segment's audio; without it, clicking the line starts editing.
+  onPlay?: () => void;
+  isPlaying?: boolean;
+}
+
+/**
+ * A committed transcript line that can be corrected in place (misheard names and the like).
+ */
+export function EditableSegment({
+  text,
+  originalText,
+  onSave,
+  onPlay,
+  isPlaying = false,
+}: EditableSegmentProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    const next = draft?.trim();
+    if (next && next !== text) onSave(next);
+    setDraft(null);
+  };
+
+  if (draft != null) {
+    return (
+      <textarea
+        className="block w-full resize-none rounded border border-zinc-200 bg-white px-1.5 py-1 text-sm leading-5 dark:border-white/10 dark:bg-black"
+        value={draft}
+        rows={Math.max(1, Math.ceil(draft.length / 60))}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            commit();
+          }
+          if (e.key === "Escape") setDraft(null);
+        }}
+        autoFocus
+        aria-label="Correct transcript line"
+      />
+    );
+  }
+
+  return (
+    <div className="group flex items-start gap-1">
+      <button
+        className={`block min-w-0 flex-1 rounded text-left text-sm leading-5 hover:bg-zinc-50 dark:hover:bg-white/5 ${
+          isPlaying ? "bg-zinc-100 dark:bg-white/10" : ""
+        }`}
+        onClick={onPlay ?? (() => setDraft(text))}
+        title={onPlay ? (isPlaying ? "Stop playback" : "Play this segment") : "Correct this line"}
+      >
+        {text}
+        {originalText != null && (
+          <span
+            className="ml-2 rounded bg-sky-100 px-1.5 py-0.5 text-xs text-sky-800 dark:bg-sky-900/40 dark:text-sky-200"
+            title={`Corrected. Heard as: ${originalText}`}
+          >
+            edited
+          </span>
+        )}
+      </button>
+      {onPlay && (
+        <button
+          className="shrink-0 rounded px-1.5 text-xs text-zinc-400 opacity-0 hover:text-zinc-700 focus:opacity-100 group-hover:opacity-100 dark:hover:text-zinc-200"
+          onClick={() => setDraft(text)}
+          title="Correct this line"
+        >
+          Edit
+        </button>
+      )}
+    </div>
+  );
+}
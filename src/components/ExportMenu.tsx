@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { downloadFile } from "@/lib/export/download";
+import {
+  exportTranscript,
+  type TranscriptExportFormat,
+  type TranscriptExportInput,
+} from "@/lib/export/transcript";
+import type { RecordingDownloadFormat } from "@/lib/meetings/useMeetingRecording";
+
+const FORMATS: { format: TranscriptExportFormat; label: string }[] = [
+  { format: "srt", label: "Subtitles (SRT)" },
+  { format: "vtt", label: "Subtitles (WebVTT)" },
+  { format: "md", label: "Markdown transcript" },
+  { format: "html", label: "HTML document (Word-ready)" },
+];
+
+const AUDIO_FORMATS: { format: RecordingDownloadFormat; label: string }[] = [
+  { format: "original", label: "Audio (WebM/Opus)" },
+  { format: "wav", label: "Audio (WAV, 16 kHz mono)" },
+];
+
+interface ExportMenuProps {
+  // null when there is nothing to export yet.
+  input: TranscriptExportInput | null;
+  // Set when the meeting has a recording.
+  onDownloadAudio?: (format: RecordingDownloadFormat) => void;
+}
+
+export function ExportMenu({ input, onDownloadAudio }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+        onClick={() => setIsOpen((v) => !v)}
+        disabled={!input && !onDownloadAudio}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export
+      </button>
+
+      {isOpen && (input || onDownloadAudio) && (
+        <div
+          role="menu"
+          className="absolute right-0 z-30 mt-1 w-56 rounded-md border border-zinc-200 bg-white p-1 shadow-lg dark:border-white/10 dark:bg-zinc-950"
+        >
+          {input &&
+            FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                role="menuitem"
+                className="block w-full rounded px-3 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-white/10"
+                onClick={() => {
+                  const file = exportTranscript(input, format);
+                  downloadFile(file.filename, file.content, file.mime);
+                  setIsOpen(false);
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          {onDownloadAudio &&
+            AUDIO_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                role="menuitem"
+                className="block w-full rounded px-3 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-white/10"
+                onClick={() => {
+                  onDownloadAudio(format);
+                  setIsOpen(false);
+                }}
+              >
+                {label}
+              </button>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { LANGUAGE_CODES, type LanguageCode } from "@/lib/languages";
+import type { GlossaryEntry } from "@/lib/translate/glossary";
+
+interface GlossaryEditorProps {
+  entries: GlossaryEntry[];
+  onChange: (next: GlossaryEntry[]) => void;
+  // Defaults for new term entries.
+  sourceLang: LanguageCode;
+  targetLang: LanguageCode;
+}
+
+const inputClass =
+  "h-8 min-w-0 rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black";
+const selectClass =
+  "h-8 rounded-md border border-zinc-200 bg-white px-1 text-sm dark:border-white/10 dark:bg-black";
+
+function newId(): string {
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+/**
+ * Terminology editor: per-language-pair term mappings and do-not-translate entries.
+ */
+export function GlossaryEditor({ entries, onChange, sourceLang, targetLang }: GlossaryEditorProps) {
+  const update = (id: string, patch: Partial<GlossaryEntry>) =>
+    onChange(entries.map((e) => (e.id === id ? ({ ...e, ...patch } as GlossaryEntry) : e)));
+
+  const langSelect = (
+    value: LanguageCode,
+    onSelect: (lang: LanguageCode) => void,
+    label: string,
+  ) => (
+    <select
+      className={selectClass}
+      value={value}
+      onChange={(e) => onSelect(e.target.value as LanguageCode)}
+      aria-label={label}
+    >
+      {LANGUAGE_CODES.map((c) => (
+        <option key={c} value={c}>
+          {c.toUpperCase()}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div>
+      {entries.length === 0 ? (
+        <div className="text-xs text-zinc-500 dark:text-zinc-400">
+          No entries yet. Terms are only sent for matching language pairs; do-not-translate entries
+          apply to every language.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map((e) => (
+            <li key={e.id} className="flex flex-wrap items-center gap-2">
+              {e.kind === "term" ? (
+                <>
+                  {langSelect(
+                    e.sourceLang,
+                    (lang) => update(e.id, { sourceLang: lang }),
+                    "Source language",
+                  )}
+                  <input
+                    className={`${inputClass} flex-1`}
+                    value={e.source}
+                    onChange={(ev) => update(e.id, { source: ev.target.value })}
+                    placeholder="Source term"
+                    aria-label="Source term"
+                  />
+                  <span className="text-zinc-400">→</span>
+                  {langSelect(
+                    e.targetLang,
+                    (lang) => update(e.id, { targetLang: lang }),
+                    "Target language",
+                  )}
+                  <input
+                    className={`${inputClass} flex-1`}
+                    value={e.target}
+                    onChange={(ev) => update(e.id, { target: ev.target.value })}
+                    placeholder="Target term"
+                    aria-label="Target term"
+                  />
+                </>
+              ) : (
+                <>
+                  <span className="rounded bg-zinc-100 px-1.5 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300">
+                    Keep
+                  </span>
+                  <input
+                    className={`${inputClass} flex-1`}
+                    value={e.source}
+                    onChange={(ev) => update(e.id, { source: ev.target.value })}
+                    placeholder="Term kept as-is, e.g. ChannelTalk"
+                    aria-label="Do-not-translate term"
+                  />
+                </>
+              )}
+              <button
+                className="h-8 rounded-md px-2 text-xs text-zinc-500 hover:text-red-600 dark:text-zinc-400 dark:hover:text-red-400"
+                onClick={() => onChange(entries.filter((x) => x.id !== e.id))}
+                aria-label="Remove entry"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <button
+          className="h-8 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+          onClick={() =>
+            onChange([
+              ...entries,
+              { id: newId(), kind: "term", sourceLang, targetLang, source: "", target: "" },
+            ])
+          }
+        >
+          Add term
+        </button>
+        <button
+          className="h-8 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+          onClick={() => onChange([...entries, { id: newId(), kind: "keep", source: "" }])}
+        >
+          Add do-not-translate
+        </button>
+      </div>
+    </div>
+  );
+}
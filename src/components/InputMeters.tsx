@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LevelMeter } from "@/components/LevelMeter";
+import type { InputMeters as InputMetersSource } from "@/lib/realtime/useRealtimeScribe";
+
+const POLL_MS = 100;
+
+interface InputMetersProps {
+  meters: InputMetersSource;
+}
+
+/**
+ * Level of what the transcription backend receives, one meter per source of a mix, and the
+ * input warnings. Polls the meters itself, so only this component re-renders with them.
+ */
+export function InputMeters({ meters }: InputMetersProps) {
+  const [reading, setReading] = useState<ReturnType<InputMetersSource["read"]> | null>(null);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setReading(meters.read()), POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [meters]);
+
+  if (!reading) return null;
+  const { health, levels } = reading;
+  return (
+    <div className="mt-1 space-y-1">
+      <LevelMeter label="Input" rms={health.rms} peak={health.peak} />
+      {/* One source is already covered by the input meter. */}
+      {levels.length > 1 &&
+        levels.map((l) => <LevelMeter key={l.id} label={l.label} rms={l.rms} peak={l.peak} />)}
+      {health.warnings.map((w) => (
+        <div key={w.kind} className="max-w-80 text-xs text-amber-600 dark:text-amber-400">
+          {w.message}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { meterPosition } from "@/lib/audio/levels";
+
+interface LevelMeterProps {
+  label: string;
+  // Fractions of full scale.
+  rms: number;
+  peak: number;
+}
+
+/**
+ * Horizontal VU bar for one audio input; the thin marker shows the recent peak.
+ */
+export function LevelMeter({ label, rms, peak }: LevelMeterProps) {
+  const level = meterPosition(rms);
+  const isHot = peak >= 0.99;
+  return (
+    <div className="flex items-center gap-2" title={label}>
+      <span className="w-20 truncate text-xs text-zinc-500 dark:text-zinc-400">{label}</span>
+      <div className="relative h-1.5 w-24 overflow-hidden rounded-full bg-zinc-200 dark:bg-white/10">
+        <div
+          className={`h-full rounded-full ${isHot ? "bg-red-500" : "bg-emerald-500"}`}
+          style={{ width: `${level * 100}%` }}
+        />
+        <div
+          className="absolute top-0 h-full w-0.5 bg-zinc-500 dark:bg-zinc-300"
+          style={{ left: `${meterPosition(peak) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import type { AuthMode } from "@/lib/auth/config";
+
+interface LoginFormProps {
+  mode: AuthMode;
+  next: string;
+  error?: string;
+}
+
+const inputClass =
+  "h-9 w-full rounded-md border border-zinc-200 bg-white px-3 text-sm dark:border-white/10 dark:bg-black";
+const buttonClass =
+  "mt-4 flex h-9 w-full items-center justify-center rounded-md bg-zinc-900 px-3 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200";
+
+/**
+ * Sign-in card: username/password for AUTH_MODE=local, a provider button for AUTH_MODE=oidc.
+ */
+export function LoginForm({ mode, next, error }: LoginFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(error ?? null);
+
+  const submit = async () => {
+    setIsBusy(true);
+    setLastError(null);
+    try {
+      const resp = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!resp.ok) {
+        const data = (await resp.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data?.error || "Sign-in failed.");
+      }
+      window.location.assign(next);
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : "Sign-in failed.");
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 px-4 text-zinc-900 dark:bg-black dark:text-zinc-50">
+      <div className="w-full max-w-sm rounded-lg border border-zinc-200 bg-white p-6 dark:border-white/10 dark:bg-zinc-950">
+        <div className="mb-4 text-sm font-semibold">Sign in to Translator3</div>
+        {mode === "oidc" ? (
+          <a className={buttonClass} href={`/api/auth/oidc/start?next=${encodeURIComponent(next)}`}>
+            Continue with your organization account
+          </a>
+        ) : mode === "local" ? (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (username.trim() && password) void submit();
+            }}
+          >
+            <input
+              className={inputClass}
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoComplete="username"
+              autoFocus
+              aria-label="Username"
+            />
+            <input
+              className={inputClass}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              type="password"
+              autoComplete="current-password"
+              aria-label="Password"
+            />
+            <button
+              type="submit"
+              className={buttonClass}
+              disabled={isBusy || !username.trim() || !password}
+            >
+              {isBusy ? "Signing in…" : "Sign in"}
+            </button>
+          </form>
+        ) : (
+          <div className="text-sm text-zinc-500 dark:text-zinc-400">
+            Sign-in is not enabled on this server.{" "}
+            <Link className="underline" href="/">
+              Open the app
+            </Link>
+            .
+          </div>
+        )}
+        {lastError && (
+          <div className="mt-3 text-xs text-red-600 dark:text-red-400">{lastError}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import type { MeetingListItem } from "@/lib/meetings/types";
+
+interface MeetingHistoryProps {
+  meetings: MeetingListItem[];
+  activeId: string | null;
+  // Opening another meeting is blocked while transcribing.
+  isLive: boolean;
+  lastError: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+function formatWhen(m: MeetingListItem): string {
+  const start = new Date(m.startedAt);
+  const date = start.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  const time = start.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+  if (!m.endedAt) return `${date} ${time}`;
+  const mins = Math.max(1, Math.round((m.endedAt - m.startedAt) / 60000));
+  return `${date} ${time} · ${mins} min`;
+}
+
+export function MeetingHistory({
+  meetings,
+  activeId,
+  isLive,
+  lastError,
+  onOpen,
+  onRename,
+  onDelete,
+  onClose,
+}: MeetingHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  return (
+    <aside
+      id="meeting-history"
+      className="fixed inset-y-0 left-0 z-20 flex w-80 max-w-[85vw] flex-col border-r border-zinc-200 bg-white shadow-lg dark:border-white/10 dark:bg-zinc-950"
+    >
+      <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3 dark:border-white/10">
+        <div className="text-sm font-medium">Meetings</div>
+        <button
+          className="h-8 rounded-md px-2 text-sm text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-white/10"
+          onClick={onClose}
+          aria-label="Close meeting history"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-auto p-2">
+        {meetings.length === 0 ? (
+          <div className="p-2 text-sm text-zinc-400">Meetings are saved here automatically after Start.</div>
+        ) : (
+          <ul className="space-y-1">
+            {meetings.map((m) => {
+              const isActive = m.id === activeId;
+              return (
+                <li
+                  key={m.id}
+                  className={`rounded-md border px-3 py-2 ${
+                    isActive
+                      ? "border-zinc-300 bg-zinc-50 dark:border-white/20 dark:bg-white/5"
+                      : "border-transparent hover:bg-zinc-50 dark:hover:bg-white/5"
+                  }`}
+                >
+                  {editingId === m.id ? (
+                    <input
+                      className="h-8 w-full rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      autoFocus
+                      aria-label="Meeting name"
+                    />
+                  ) : (
+                    <button
+                      className="block w-full truncate text-left text-sm font-medium disabled:cursor-not-allowed disabled:opacity-60"
+                      onClick={() => onOpen(m.id)}
+                      disabled={isLive && !isActive}
+                      title={m.name}
+                    >
+                      {m.name}
+                    </button>
+                  )}
+                  <div className="mt-1 flex items-center justify-between gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+                    <span>
+                      {formatWhen(m)} · {m.inputLang.toUpperCase()}→{m.targetLangs.join(",").toUpperCase()} ·{" "}
+                      {m.segmentCount} segments
+                      {!m.endedAt && !isActive ? " · interrupted" : ""}
+                    </span>
+                    <span className="flex shrink-0 gap-2">
+                      <button
+                        className="hover:text-zinc-900 dark:hover:text-zinc-100"
+                        onClick={() => {
+                          setDraftName(m.name);
+                          setEditingId(m.id);
+                        }}
+                      >
+                        Rename
+                      </button>
+                      <button
+                        className="hover:text-red-600 disabled:opacity-50 dark:hover:text-red-400"
+                        onClick={() => {
+                          if (window.confirm(`Delete "${m.name}"? This cannot be undone.`)) onDelete(m.id);
+                        }}
+                        disabled={isLive && isActive}
+                      >
+                        Delete
+                      </button>
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {lastError && (
+        <div className="m-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200">
+          {lastError}
+        </div>
+      )}
+    </aside>
+  );
+}
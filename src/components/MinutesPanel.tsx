@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { downloadFile } from "@/lib/export/download";
+import { exportMinutes, minutesToMarkdown, type MinutesExportInput } from "@/lib/export/minutes";
+import { LANGUAGE_CODES, languageLabel, type LanguageCode } from "@/lib/languages";
+import type { MeetingMinutes } from "@/lib/minutes/types";
+
+interface MinutesPanelProps {
+  meeting: MinutesExportInput;
+  minutes: MeetingMinutes | undefined;
+  // Committed segments in the transcript now, to tell when the minutes are out of date.
+  segmentCount: number;
+  lang: LanguageCode;
+  onLangChange: (lang: LanguageCode) => void;
+  isGenerating: boolean;
+  // Generating is blocked while the meeting is live.
+  isLive: boolean;
+  lastError: string | null;
+  onGenerate: () => void;
+  onClose: () => void;
+}
+
+function Items({ title, items, empty }: { title: string; items: string[]; empty: string }) {
+  return (
+    <section>
+      <h3 className="mb-1 text-xs font-medium text-zinc-500 dark:text-zinc-400">{title}</h3>
+      {items.length ? (
+        <ul className="list-disc space-y-1 pl-5">
+          {items.map((item, i) => (
+            <li key={i}>{item}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-zinc-400">{empty}</div>
+      )}
+    </section>
+  );
+}
+
+export function MinutesPanel({
+  meeting,
+  minutes,
+  segmentCount,
+  lang,
+  onLangChange,
+  isGenerating,
+  isLive,
+  lastError,
+  onGenerate,
+  onClose,
+}: MinutesPanelProps) {
+  const [copied, setCopied] = useState(false);
+  const isStale = Boolean(minutes && minutes.segmentCount < segmentCount);
+
+  return (
+    <aside
+      id="meeting-minutes"
+      className="fixed inset-y-0 right-0 z-20 flex w-[28rem] max-w-[90vw] flex-col border-l border-zinc-200 bg-white shadow-lg dark:border-white/10 dark:bg-zinc-950"
+    >
+      <div className="flex items-center justify-between border-b border-zinc-200 px-4 py-3 dark:border-white/10">
+        <div className="text-sm font-medium">Minutes</div>
+        <button
+          className="h-8 rounded-md px-2 text-sm text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-white/10"
+          onClick={onClose}
+          aria-label="Close minutes"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 border-b border-zinc-200 px-4 py-3 dark:border-white/10">
+        <select
+          className="h-8 rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
+          value={lang}
+          onChange={(e) => onLangChange(e.target.value as LanguageCode)}
+          disabled={isGenerating}
+          aria-label="Minutes language"
+        >
+          {LANGUAGE_CODES.map((c) => (
+            <option key={c} value={c}>
+              {languageLabel(c)}
+            </option>
+          ))}
+        </select>
+        <button
+          className="h-8 rounded-md bg-zinc-900 px-3 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+          onClick={onGenerate}
+          disabled={isGenerating || isLive || segmentCount === 0}
+          title={isLive ? "Minutes can be generated once the meeting has ended" : undefined}
+        >
+          {isGenerating ? "Generating…" : minutes ? "Regenerate" : "Generate minutes"}
+        </button>
+        {minutes && (
+          <>
+            <button
+              className="h-8 rounded-md border border-zinc-200 px-2 text-sm hover:bg-zinc-50 dark:border-white/10 dark:hover:bg-white/10"
+              onClick={() => {
+                const file = exportMinutes(minutes, meeting);
+                downloadFile(file.filename, file.content, file.mime);
+              }}
+            >
+              Markdown
+            </button>
+            <button
+              className="h-8 rounded-md border border-zinc-200 px-2 text-sm hover:bg-zinc-50 dark:border-white/10 dark:hover:bg-white/10"
+              onClick={() => {
+                void navigator.clipboard
+                  ?.writeText(minutesToMarkdown(minutes, meeting))
+                  .then(() => {
+                    setCopied(true);
+                    window.setTimeout(() => setCopied(false), 1500);
+                  });
+              }}
+            >
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="min-h-0 flex-1 space-y-4 overflow-auto p-4 text-sm">
+        {isStale && (
+          <div className="text-xs text-amber-600 dark:text-amber-400">
+            The transcript has grown since these minutes were written; regenerate to include the
+            rest.
+          </div>
+        )}
+        {!minutes ? (
+          <div className="text-zinc-400">
+            {segmentCount === 0
+              ? "Minutes are written from the committed transcript, which is empty."
+              : "Generate an overview, decisions, action items and open questions from the transcript."}
+          </div>
+        ) : (
+          <>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400">
+              {languageLabel(minutes.lang)} · {new Date(minutes.generatedAt).toLocaleString()}
+            </div>
+            <section>
+              <h3 className="mb-1 text-xs font-medium text-zinc-500 dark:text-zinc-400">
+                Overview
+              </h3>
+              <p className="whitespace-pre-wrap">
+                {minutes.overview || <span className="text-zinc-400">No overview.</span>}
+              </p>
+            </section>
+            <Items title="Decisions" items={minutes.decisions} empty="No decisions recorded." />
+            <section>
+              <h3 className="mb-1 text-xs font-medium text-zinc-500 dark:text-zinc-400">
+                Action items
+              </h3>
+              {minutes.actionItems.length ? (
+                <ul className="space-y-2">
+                  {minutes.actionItems.map((a, i) => (
+                    <li
+                      key={i}
+                      className="rounded-md border border-zinc-200 px-3 py-2 dark:border-white/10"
+                    >
+                      <div>{a.task}</div>
+                      <div className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                        {a.owner ?? "No owner"} · {a.due ? `Due ${a.due}` : "No due date"}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-zinc-400">No action items.</div>
+              )}
+            </section>
+            <Items
+              title="Open questions"
+              items={minutes.openQuestions}
+              empty="No open questions."
+            />
+          </>
+        )}
+      </div>
+
+      {lastError && (
+        <div className="m-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200">
+          {lastError}
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import type { StoredKeyName } from "@/lib/auth/keyStore";
+import type { SavedKeys } from "@/lib/auth/useAuthSession";
+
+interface SavedKeysFormProps {
+  saved: SavedKeys | null;
+  scope: "user" | "workspace";
+  onSave: (keys: Partial<Record<StoredKeyName, string | null>>) => Promise<boolean>;
+}
+
+const FIELDS: Array<{ name: StoredKeyName; label: string }> = [
+  { name: "elevenlabs", label: "ElevenLabs API key" },
+  { name: "translate", label: "Translation API key (OpenAI or the configured provider)" },
+];
+
+/**
+ * API keys kept encrypted on the server. Saved keys are never sent back; only whether one exists.
+ */
+export function SavedKeysForm({ saved, scope, onSave }: SavedKeysFormProps) {
+  const [drafts, setDrafts] = useState<Partial<Record<StoredKeyName, string>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (keys: Partial<Record<StoredKeyName, string | null>>) => {
+    setIsSaving(true);
+    if (await onSave(keys)) setDrafts({});
+    setIsSaving(false);
+  };
+
+  const pending = Object.fromEntries(
+    Object.entries(drafts).filter(([, v]) => v?.trim()),
+  ) as Partial<Record<StoredKeyName, string>>;
+
+  return (
+    <div className="space-y-2">
+      {FIELDS.map(({ name, label }) => (
+        <div key={name} className="flex items-center gap-2">
+          <input
+            className="h-9 min-w-0 flex-1 rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-black"
+            placeholder={
+              saved?.[name] ? `${label} — saved` : `${label} (optional if the server has one)`
+            }
+            value={drafts[name] ?? ""}
+            onChange={(e) => setDrafts((d) => ({ ...d, [name]: e.target.value }))}
+            type="password"
+            autoComplete="off"
+            aria-label={label}
+          />
+          {saved?.[name] && (
+            <button
+              className="h-9 rounded-md px-2 text-xs text-zinc-500 hover:text-red-600 disabled:opacity-50 dark:text-zinc-400 dark:hover:text-red-400"
+              onClick={() => void save({ [name]: null })}
+              disabled={isSaving}
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <button
+          className="h-9 rounded-md border border-zinc-200 bg-white px-3 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+          onClick={() => void save(pending)}
+          disabled={isSaving || Object.keys(pending).length === 0}
+        >
+          {isSaving ? "Saving…" : "Save keys"}
+        </button>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          Stored encrypted on the server
+          {scope === "workspace"
+            ? " and shared by everyone in this workspace"
+            : " for your account"}
+          .
+        </span>
+      </div>
+    </div>
+  );
+}
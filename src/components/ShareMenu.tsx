@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import type { ActiveShare } from "@/lib/share/useShareSession";
+
+interface ShareMenuProps {
+  share: ActiveShare | null;
+  isStarting: boolean;
+  lastError: string | null;
+  // Unset when there is no meeting to share.
+  onStart?: () => void;
+  onEnd: () => void;
+}
+
+/**
+ * Audience view controls: start sharing, show the link + join code, end the share.
+ */
+export function ShareMenu({ share, isStarting, lastError, onStart, onEnd }: ShareMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        className={`h-9 rounded-md border px-3 text-sm font-medium disabled:opacity-50 ${
+          share
+            ? "border-emerald-300 bg-emerald-50 text-emerald-800 hover:bg-emerald-100 dark:border-emerald-900/60 dark:bg-emerald-950/40 dark:text-emerald-200"
+            : "border-zinc-200 bg-white hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-950 dark:hover:bg-white/10"
+        }`}
+        onClick={() => setIsOpen((v) => !v)}
+        disabled={!share && !onStart}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+      >
+        {share ? "Sharing" : "Share"}
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Share with audience"
+          className="absolute right-0 z-30 mt-1 w-72 rounded-md border border-zinc-200 bg-white p-3 shadow-lg dark:border-white/10 dark:bg-zinc-950"
+        >
+          {share ? (
+            <div className="space-y-3 text-sm">
+              <div>
+                <div className="mb-1 text-xs text-zinc-500 dark:text-zinc-400">Link</div>
+                <div className="flex gap-2">
+                  <input
+                    className="h-8 min-w-0 flex-1 rounded-md border border-zinc-200 bg-zinc-50 px-2 text-xs dark:border-white/10 dark:bg-black"
+                    value={share.viewUrl}
+                    readOnly
+                    onFocus={(e) => e.target.select()}
+                    aria-label="Share link"
+                  />
+                  <button
+                    className="h-8 rounded-md border border-zinc-200 px-2 text-xs hover:bg-zinc-50 dark:border-white/10 dark:hover:bg-white/10"
+                    onClick={() => {
+                      void navigator.clipboard?.writeText(share.viewUrl).then(() => {
+                        setCopied(true);
+                        window.setTimeout(() => setCopied(false), 1500);
+                      });
+                    }}
+                  >
+                    {copied ? "Copied" : "Copy"}
+                  </button>
+                </div>
+              </div>
+              <div>
+                <div className="mb-1 text-xs text-zinc-500 dark:text-zinc-400">Join code</div>
+                <div className="font-mono text-2xl tracking-widest">{share.joinCode}</div>
+              </div>
+              <button
+                className="h-8 w-full rounded-md border border-red-200 text-sm font-medium text-red-700 hover:bg-red-50 dark:border-red-900/40 dark:text-red-300 dark:hover:bg-red-950/30"
+                onClick={() => {
+                  onEnd();
+                  setIsOpen(false);
+                }}
+              >
+                End share
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-2 text-sm">
+              <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                Viewers open a read-only page on their own device, enter the join code and pick
+                their language.
+              </div>
+              <button
+                className="h-8 w-full rounded-md bg-zinc-900 px-3 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+                onClick={onStart}
+                disabled={isStarting || !onStart}
+              >
+                {isStarting ? "Starting…" : "Start sharing"}
+              </button>
+            </div>
+          )}
+          {lastError && (
+            <div className="mt-2 text-xs text-red-600 dark:text-red-400">{lastError}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+
+interface SpeakerLabelProps {
+  label: string;
+  // Renames the speaker across the whole meeting. An empty name restores the default label.
+  onRename: (name: string) => void;
+}
+
+/**
+ * Speaker chip shown at the start of a turn; click to rename ("Speaker 1" → "Tanaka-san").
+ */
+export function SpeakerLabel({ label, onRename }: SpeakerLabelProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft != null && draft.trim() !== label) onRename(draft);
+    setDraft(null);
+  };
+
+  if (draft != null) {
+    return (
+      <input
+        className="h-6 w-40 rounded border border-zinc-200 bg-white px-1.5 text-xs dark:border-white/10 dark:bg-black"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+          if (e.key === "Escape") setDraft(null);
+        }}
+        autoFocus
+        aria-label="Speaker name"
+      />
+    );
+  }
+
+  return (
+    <button
+      className="rounded bg-zinc-100 px-1.5 py-0.5 text-xs font-medium text-zinc-600 hover:bg-zinc-200 dark:bg-white/10 dark:text-zinc-300 dark:hover:bg-white/20"
+      onClick={() => setDraft(label)}
+      title="Rename speaker"
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import type { ErrorInfo } from "@/lib/limits/errors";
+
+export interface StatusNotice extends ErrorInfo {
+  id: string;
+  // What failed, e.g. "Transcription".
+  source: string;
+  onDismiss: () => void;
+}
+
+// Upstream error bodies can be whole HTML pages.
+const MAX_DETAILS_CHARS = 2000;
+
+/**
+ * Errors that need the user's attention, shown under the header until dismissed.
+ */
+export function StatusNotices({ notices }: { notices: StatusNotice[] }) {
+  if (notices.length === 0) return null;
+
+  return (
+    <div role="status" aria-live="polite" className="mx-auto w-full max-w-6xl space-y-2 px-4 pb-3">
+      {notices.map((n) => (
+        <div
+          key={n.id}
+          className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200"
+        >
+          <div className="min-w-0 flex-1">
+            <div>
+              <span className="font-medium">{n.source}:</span> {n.message}
+            </div>
+            {n.details && (
+              <details className="mt-1">
+                <summary className="cursor-pointer select-none opacity-80">Details</summary>
+                <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-words font-mono text-[11px] opacity-80">
+                  {n.details.length > MAX_DETAILS_CHARS
+                    ? `${n.details.slice(0, MAX_DETAILS_CHARS)}…`
+                    : n.details}
+                </pre>
+              </details>
+            )}
+          </div>
+          <button
+            className="shrink-0 rounded px-1 hover:bg-red-100 dark:hover:bg-red-900/40"
+            onClick={n.onDismiss}
+            aria-label={`Dismiss ${n.source.toLowerCase()} error`}
+            title="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { LANGUAGE_CODES, languageLabel, type LanguageCode } from "@/lib/languages";
+
+interface TargetLanguagePickerProps {
+  value: LanguageCode[];
+  onChange: (next: LanguageCode[]) => void;
+}
+
+/**
+ * Multi-select for output languages. At least one language always stays selected.
+ */
+export function TargetLanguagePicker({ value, onChange }: TargetLanguagePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = (code: LanguageCode) => {
+    if (value.includes(code)) {
+      if (value.length > 1) onChange(value.filter((c) => c !== code));
+      return;
+    }
+    // Keep registry order so tabs/columns don't jump around.
+    onChange(LANGUAGE_CODES.filter((c) => c === code || value.includes(c)));
+  };
+
+  const summary =
+    value.length === 1 ? languageLabel(value[0]!) : value.map((c) => c.toUpperCase()).join(", ");
+
+  return (
+    <div className="relative">
+      <button
+        className="h-9 max-w-56 truncate rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-zinc-950"
+        onClick={() => setIsOpen((v) => !v)}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        aria-label="Target languages"
+        title="Target languages (translation)"
+      >
+        Output: {summary}
+      </button>
+
+      {isOpen && (
+        <div
+          role="listbox"
+          aria-multiselectable="true"
+          className="absolute right-0 z-30 mt-1 w-56 rounded-md border border-zinc-200 bg-white p-1 shadow-lg dark:border-white/10 dark:bg-zinc-950"
+        >
+          {LANGUAGE_CODES.map((code) => {
+            const checked = value.includes(code);
+            return (
+              <label
+                key={code}
+                role="option"
+                aria-selected={checked}
+                className="flex cursor-pointer items-center gap-2 rounded px-3 py-1.5 text-sm hover:bg-zinc-100 dark:hover:bg-white/10"
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  disabled={checked && value.length === 1}
+                  onChange={() => toggle(code)}
+                />
+                {languageLabel(code)}
+              </label>
+            );
+          })}
+          <button
+            className="mt-1 block w-full rounded px-3 py-1.5 text-left text-xs text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-white/10"
+            onClick={() => setIsOpen(false)}
+          >
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+"use client";
+
+import { memo, useCallback, useMemo, useRef, useState } from "react";
+import { EditableSegment } from "@/components/EditableSegment";
+import { SpeakerLabel } from "@/components/SpeakerLabel";
+import { VirtualList, type ScrollPosition, type VirtualListHandle } from "@/components/VirtualList";
+import { LANGUAGE_CODES, languageLabel, type LanguageCode } from "@/lib/languages";
+import { speakerLabel, type LineOutcome, type TranslatedLine } from "@/lib/meetings/types";
+import type { TranscriptLine } from "@/lib/realtime/useRealtimeScribe";
+import type { TranslationJobState } from "@/lib/translate/useTranslationQueue";
+
+// One line of text plus the gap below it; rows are measured once rendered.
+const ROW_HEIGHT_ESTIMATE = 28;
+
+interface TranslationRow {
+  sourceId: string;
+  jobId: string;
+  translation?: TranslatedLine;
+  job?: TranslationJobState;
+  outcome?: LineOutcome;
+}
+
+function segmentKey(t: TranscriptLine): string {
+  return t.id;
+}
+
+function translationRowKey(row: TranslationRow): string {
+  return row.sourceId;
+}
+
+interface TranscriptPanelsProps {
+  segments: TranscriptLine[];
+  partialTranscript: string;
+  translations: TranslatedLine[];
+  partialTranslation: Partial<Record<LanguageCode, string>>;
+  // Output languages of the meeting; languages with translations get a tab too.
+  langs: LanguageCode[];
+  // Committed-segment jobs of the translation queue, by translated-line id.
+  jobStates: Record<string, TranslationJobState>;
+  onRetry: (jobId: string) => void;
+  // Keyed by translated-line id; only lines with something to explain.
+  lineOutcomes: Record<string, LineOutcome>;
+  summary: string;
+  // Segments whose translations are being redone after a correction.
+  retranslatingIds: Set<string>;
+  speakerNames: Record<string, string> | undefined;
+  onRenameSpeaker: (speaker: string, name: string) => void;
+  onCorrectSegment: (id: string, text: string) => void;
+  // Undefined without a recording to play from.
+  onPlaySegment?: (t: TranscriptLine) => void;
+  onStopPlaying: () => void;
+  playingId: string | null;
+}
+
+/**
+ * The Original and Translation panels side by side. Scrolling one brings the other to the same
+ * segment (or to the live end). Memoized: the page re-renders for plenty that doesn't show here.
+ */
+export const TranscriptPanels = memo(function TranscriptPanels({
+  segments,
+  partialTranscript,
+  translations,
+  partialTranslation,
+  langs,
+  jobStates,
+  onRetry,
+  lineOutcomes,
+  summary,
+  retranslatingIds,
+  speakerNames,
+  onRenameSpeaker,
+  onCorrectSegment,
+  onPlaySegment,
+  onStopPlaying,
+  playingId,
+}: TranscriptPanelsProps) {
+  const [activeLang, setActiveLang] = useState<LanguageCode | null>(null);
+  const originalListRef = useRef<VirtualListHandle | null>(null);
+  const translationListRef = useRef<VirtualListHandle | null>(null);
+
+  // Languages with a tab: the meeting's, plus anything already translated.
+  const panelLangs = useMemo<LanguageCode[]>(() => {
+    const all = new Set<LanguageCode>(langs);
+    for (const t of translations) all.add(t.lang);
+    return LANGUAGE_CODES.filter((c) => all.has(c));
+  }, [langs, translations]);
+  const shownLang = activeLang && panelLangs.includes(activeLang) ? activeLang : panelLangs[0]!;
+  const shownTranslations = useMemo(
+    () => translations.filter((t) => t.lang === shownLang),
+    [shownLang, translations],
+  );
+  // One row per segment with a translation in the shown language, or one still on its way.
+  const translationRows = useMemo(() => {
+    const bySource = new Map(shownTranslations.map((t) => [t.sourceId, t]));
+    return segments.flatMap((seg): TranslationRow[] => {
+      const jobId = `${seg.id}-t-${shownLang}`;
+      const translation = bySource.get(seg.id);
+      const job = jobStates[jobId];
+      const outcome = lineOutcomes[jobId];
+      return translation || job || outcome
+        ? [{ sourceId: seg.id, jobId, translation, job, outcome }]
+        : [];
+    });
+  }, [jobStates, lineOutcomes, segments, shownLang, shownTranslations]);
+
+  // Translations show their source segment's speaker.
+  const segmentSpeakers = useMemo(
+    () => new Map(segments.flatMap((t) => (t.speaker ? [[t.id, t.speaker] as const] : []))),
+    [segments],
+  );
+
+  const correctedIds = useMemo(
+    () => new Set(segments.filter((t) => t.originalText != null).map((t) => t.id)),
+    [segments],
+  );
+
+  const segmentIndex = useMemo(() => new Map(segments.map((t, i) => [t.id, i])), [segments]);
+  const syncTranslationScroll = useCallback(
+    (position: ScrollPosition) => {
+      const list = translationListRef.current;
+      if (!list) return;
+      if (position.atEnd) return list.scrollToEnd();
+      // The segment itself, or the next one with a row in the shown language.
+      const at = segmentIndex.get(position.key) ?? 0;
+      const row = translationRows.find((r) => (segmentIndex.get(r.sourceId) ?? 0) >= at);
+      if (!row) return list.scrollToEnd();
+      list.scrollToKey(row.sourceId, row.sourceId === position.key ? position.fraction : 0);
+    },
+    [segmentIndex, translationRows],
+  );
+  const syncOriginalScroll = useCallback((position: ScrollPosition) => {
+    const list = originalListRef.current;
+    if (!list) return;
+    if (position.atEnd) list.scrollToEnd();
+    else list.scrollToKey(position.key, position.fraction);
+  }, []);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <section className="rounded-lg border border-zinc-200 bg-white dark:border-white/10 dark:bg-zinc-950">
+        <div className="border-b border-zinc-200 px-4 py-3 text-sm font-medium dark:border-white/10">
+          Original (live transcription)
+        </div>
+        <div className="flex h-[calc(100dvh-220px)] min-h-[420px] flex-col">
+          <VirtualList
+            ref={originalListRef}
+            items={segments}
+            getKey={segmentKey}
+            estimateHeight={ROW_HEIGHT_ESTIMATE}
+            onUserScroll={syncTranslationScroll}
+            empty={
+              <div className="text-sm text-zinc-400">
+                Committed segments will accumulate here (server-side VAD).
+              </div>
+            }
+            renderItem={(t, i) => {
+              // Label each turn, not every line.
+              const speaker = t.speaker !== segments[i - 1]?.speaker ? t.speaker : undefined;
+              const label = speaker ? (
+                <div className="mb-1 mt-3">
+                  <SpeakerLabel
+                    label={speakerLabel(speaker, speakerNames)}
+                    onRename={(name) => onRenameSpeaker(speaker, name)}
+                  />
+                </div>
+              ) : null;
+
+              const canPlay = Boolean(onPlaySegment) && t.audioEndMs != null;
+              const isPlaying = playingId === t.id;
+              return (
+                <div>
+                  {label}
+                  <EditableSegment
+                    text={t.text}
+                    originalText={t.originalText}
+                    onSave={(text) => onCorrectSegment(t.id, text)}
+                    onPlay={
+                      canPlay ? () => (isPlaying ? onStopPlaying() : onPlaySegment?.(t)) : undefined
+                    }
+                    isPlaying={isPlaying}
+                  />
+                </div>
+              );
+            }}
+          />
+
+          <div className="border-t border-zinc-200 bg-white/80 p-3 backdrop-blur dark:border-white/10 dark:bg-zinc-950/70">
+            {partialTranscript ? (
+              <div className="text-sm text-zinc-700 dark:text-zinc-200">
+                <span className="mr-2 inline-block rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300">
+                  LIVE
+                </span>
+                {partialTranscript}
+              </div>
+            ) : (
+              <div className="text-sm text-zinc-400">Live partial transcript will appear here.</div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="rounded-lg border border-zinc-200 bg-white dark:border-white/10 dark:bg-zinc-950">
+        <div className="flex items-center justify-between gap-2 border-b border-zinc-200 px-4 py-2 dark:border-white/10">
+          <div className="py-1 text-sm font-medium">Translation</div>
+          {panelLangs.length > 1 && (
+            <div role="tablist" aria-label="Translation language" className="flex flex-wrap gap-1">
+              {panelLangs.map((lang) => (
+                <button
+                  key={lang}
+                  role="tab"
+                  aria-selected={lang === shownLang}
+                  className={`h-7 rounded-md px-2 text-xs font-medium ${
+                    lang === shownLang
+                      ? "bg-zinc-900 text-white dark:bg-white dark:text-black"
+                      : "text-zinc-600 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-white/10"
+                  }`}
+                  onClick={() => setActiveLang(lang)}
+                  title={languageLabel(lang)}
+                >
+                  {lang.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex h-[calc(100dvh-220px)] min-h-[420px] flex-col">
+          <VirtualList
+            ref={translationListRef}
+            items={translationRows}
+            getKey={translationRowKey}
+            estimateHeight={ROW_HEIGHT_ESTIMATE}
+            onUserScroll={syncOriginalScroll}
+            empty={
+              <div className="text-sm text-zinc-400">
+                Translated committed segments will accumulate here.
+              </div>
+            }
+            footer={
+              summary ? (
+                <div className="mt-4 rounded-md border border-zinc-200 bg-zinc-50 p-3 text-xs text-zinc-600 dark:border-white/10 dark:bg-black dark:text-zinc-300">
+                  <div className="mb-1 font-medium">Running summary</div>
+                  <div className="whitespace-pre-wrap leading-5">{summary}</div>
+                </div>
+              ) : null
+            }
+            renderItem={({ sourceId, jobId, translation: t, job, outcome }, i) => {
+              const speaker = segmentSpeakers.get(sourceId);
+              const isNewTurn =
+                speaker && speaker !== segmentSpeakers.get(translationRows[i - 1]?.sourceId ?? "");
+              return (
+                <div>
+                  {isNewTurn && (
+                    <div className="mb-1 mt-3">
+                      <SpeakerLabel
+                        label={speakerLabel(speaker, speakerNames)}
+                        onRename={(name) => onRenameSpeaker(speaker, name)}
+                      />
+                    </div>
+                  )}
+                  {t ? (
+                    <div
+                      className={`text-sm leading-5 ${retranslatingIds.has(t.sourceId) ? "opacity-50" : ""}`}
+                      title={
+                        retranslatingIds.has(t.sourceId)
+                          ? "Re-translating the corrected line…"
+                          : undefined
+                      }
+                    >
+                      {t.text}
+                      {correctedIds.has(t.sourceId) && (
+                        <span
+                          className="ml-2 rounded bg-sky-100 px-1.5 py-0.5 text-xs text-sky-800 dark:bg-sky-900/40 dark:text-sky-200"
+                          title="Translated from a corrected transcript line"
+                        >
+                          edited
+                        </span>
+                      )}
+                      {t.glossaryViolations && (
+                        <span
+                          className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800 dark:bg-amber-900/40 dark:text-amber-200"
+                          title={t.glossaryViolations
+                            .map((v) =>
+                              v.source === v.target
+                                ? `"${v.source}" should be kept as-is`
+                                : `"${v.source}" should be "${v.target}"`,
+                            )
+                            .join("\n")}
+                        >
+                          glossary
+                        </span>
+                      )}
+                      {outcome?.status === "retried" && (
+                        <span
+                          className="ml-2 rounded bg-zinc-100 px-1.5 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300"
+                          title={`Translated after ${outcome.failures} failed attempt${outcome.failures === 1 ? "" : "s"}`}
+                        >
+                          retried
+                        </span>
+                      )}
+                    </div>
+                  ) : job?.status === "failed" ? (
+                    <div className="text-sm leading-5 text-zinc-400">
+                      Not translated
+                      <span
+                        className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-xs text-red-800 dark:bg-red-900/40 dark:text-red-200"
+                        title={job.error}
+                      >
+                        failed
+                      </span>
+                      <button
+                        className="ml-2 rounded border border-zinc-200 px-1.5 py-0.5 text-xs text-zinc-700 hover:bg-zinc-50 dark:border-white/10 dark:text-zinc-200 dark:hover:bg-white/10"
+                        onClick={() => onRetry(jobId)}
+                      >
+                        Retry
+                      </button>
+                    </div>
+                  ) : job ? (
+                    <div className="text-sm leading-5 text-zinc-400">
+                      Translating…
+                      {job.status === "pending" && job.retries > 0 && (
+                        <span
+                          className="ml-2 rounded bg-zinc-100 px-1.5 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300"
+                          title={`Attempt ${job.retries + 1}; the previous ones failed`}
+                        >
+                          retrying
+                        </span>
+                      )}
+                    </div>
+                  ) : outcome?.status === "ignored" ? (
+                    <div className="text-sm leading-5 text-zinc-400">
+                      Not translated
+                      <span
+                        className="ml-2 rounded bg-zinc-100 px-1.5 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300"
+                        title={`Skipped by the input-language gate: this sounded like ${
+                          outcome.detectedLanguage === "other"
+                            ? "another language"
+                            : languageLabel(outcome.detectedLanguage)
+                        }`}
+                      >
+                        ignored
+                      </span>
+                    </div>
+                  ) : outcome?.status === "empty" ? (
+                    <div className="text-sm leading-5 text-zinc-400">
+                      Not translated
+                      <span
+                        className="ml-2 rounded bg-zinc-100 px-1.5 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300"
+                        title="The translation came back empty"
+                      >
+                        empty
+                      </span>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            }}
+          />
+
+          <div className="border-t border-zinc-200 bg-white/80 p-3 backdrop-blur dark:border-white/10 dark:bg-zinc-950/70">
+            {partialTranslation[shownLang] ? (
+              <div className="text-sm text-zinc-700 dark:text-zinc-200">
+                <span className="mr-2 inline-block rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600 dark:bg-white/10 dark:text-zinc-300">
+                  LIVE
+                </span>
+                {partialTranslation[shownLang]}
+              </div>
+            ) : (
+              <div className="text-sm text-zinc-400">Live translated preview will appear here.</div>
+            )}
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+});
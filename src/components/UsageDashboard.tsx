@@ -0,0 +1,274 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { useMeetingSessions } from "@/lib/meetings/useMeetingSessions";
+import type { UsageReport, UsageTotals } from "@/lib/usage/types";
+
+const RANGES = [
+  { days: 1, label: "Today" },
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const CELL = "px-3 py-2 text-right tabular-nums";
+const HEAD = "px-3 py-2 text-right font-medium";
+
+function formatCost(value: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    // Single requests cost fractions of a cent.
+    maximumFractionDigits: value < 1 ? 4 : 2,
+  }).format(value);
+}
+
+function formatDuration(seconds: number): string {
+  const mins = Math.round(seconds / 60);
+  if (mins < 60) return seconds > 0 && mins === 0 ? "<1 min" : `${mins} min`;
+  return `${Math.floor(mins / 60)} h ${String(mins % 60).padStart(2, "0")} min`;
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString();
+}
+
+function formatWhen(at: number): string {
+  const d = new Date(at);
+  return `${d.toLocaleDateString(undefined, { month: "short", day: "numeric" })} ${d.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-zinc-200 bg-white px-4 py-3 dark:border-white/10 dark:bg-zinc-950">
+      <div className="text-xs text-zinc-500 dark:text-zinc-400">{label}</div>
+      <div className="mt-1 text-lg font-semibold tabular-nums">{value}</div>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="overflow-x-auto rounded-lg border border-zinc-200 bg-white dark:border-white/10 dark:bg-zinc-950">
+      <div className="border-b border-zinc-200 px-4 py-3 text-sm font-medium dark:border-white/10">
+        {title}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+// Columns shared by the per-meeting and per-day tables.
+function TotalsCells({ t, currency }: { t: UsageTotals; currency: string }) {
+  return (
+    <>
+      <td className={CELL}>{formatDuration(t.scribeSeconds)}</td>
+      <td className={CELL}>{formatCount(t.translateRequests)}</td>
+      <td className={CELL}>{formatCount(t.inputTokens + t.outputTokens)}</td>
+      <td className={CELL}>{formatCount(t.translateCharacters + t.ttsCharacters)}</td>
+      <td className={`${CELL} font-medium`}>{formatCost(t.cost, currency)}</td>
+    </>
+  );
+}
+
+function TotalsHeads() {
+  return (
+    <>
+      <th className={HEAD}>Audio</th>
+      <th className={HEAD}>Translations</th>
+      <th className={HEAD}>Tokens</th>
+      <th className={HEAD}>Characters</th>
+      <th className={HEAD}>Est. cost</th>
+    </>
+  );
+}
+
+/**
+ * Usage page: what translation, Scribe and text-to-speech consumed, with the cost estimated from
+ * the server's price table. Meeting names come from this browser's saved meetings.
+ */
+export function UsageDashboard() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const { meetings } = useMeetingSessions();
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const resp = await fetch(`/api/usage?days=${days}`, { cache: "no-store" });
+        const data = (await resp.json()) as UsageReport | { error?: string };
+        if (!resp.ok || !("total" in data)) {
+          throw new Error(("error" in data && data.error) || "Failed to load usage.");
+        }
+        if (cancelled) return;
+        setReport(data);
+        setLastError(null);
+      } catch (e) {
+        if (!cancelled) setLastError(e instanceof Error ? e.message : "Failed to load usage.");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const meetingNames = useMemo(() => new Map(meetings.map((m) => [m.id, m.name])), [meetings]);
+  const currency = report?.currency ?? "USD";
+
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-900 dark:bg-black dark:text-zinc-50">
+      <header className="border-b border-zinc-200/70 bg-zinc-50/80 backdrop-blur dark:border-white/10 dark:bg-black/60">
+        <div className="mx-auto flex w-full max-w-6xl items-center justify-between gap-3 px-4 py-3">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="text-sm font-semibold tracking-tight">
+              Translator3
+            </Link>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400">
+              {report?.scope === "own" ? "Your usage and cost" : "Usage and cost"}
+            </div>
+          </div>
+          <select
+            className="h-9 rounded-md border border-zinc-200 bg-white px-2 text-sm dark:border-white/10 dark:bg-zinc-950"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            aria-label="Time range"
+          >
+            {RANGES.map((r) => (
+              <option key={r.days} value={r.days}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      <main className="mx-auto w-full max-w-6xl space-y-4 px-4 py-6">
+        {lastError && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 dark:border-red-900/40 dark:bg-red-950/30 dark:text-red-200">
+            {lastError}
+          </div>
+        )}
+        {!report ? (
+          !lastError && <div className="text-sm text-zinc-400">Loading…</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+              <Stat label="Estimated cost" value={formatCost(report.total.cost, currency)} />
+              <Stat label="Scribe audio" value={formatDuration(report.total.scribeSeconds)} />
+              <Stat label="Translations" value={formatCount(report.total.translateRequests)} />
+              <Stat
+                label="Tokens (in / out)"
+                value={`${formatCount(report.total.inputTokens)} / ${formatCount(report.total.outputTokens)}`}
+              />
+              <Stat label="Speech characters" value={formatCount(report.total.ttsCharacters)} />
+            </div>
+
+            {report.unpricedModels.length > 0 && (
+              <div className="text-xs text-amber-600 dark:text-amber-400">
+                No price for {report.unpricedModels.join(", ")}; add them to USAGE_PRICES to include
+                them in the estimate.
+              </div>
+            )}
+
+            <Section title="Translation by model">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-zinc-500 dark:text-zinc-400">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Model</th>
+                    <th className="px-3 py-2 text-left font-medium">Mode</th>
+                    <th className={HEAD}>Requests</th>
+                    <th className={HEAD}>Input tokens</th>
+                    <th className={HEAD}>Output tokens</th>
+                    <th className={HEAD}>Characters</th>
+                    <th className={HEAD}>Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byModel.map((m) => (
+                    <tr
+                      key={`${m.mode}:${m.model}`}
+                      className="border-t border-zinc-100 dark:border-white/5"
+                    >
+                      <td className="px-3 py-2">{m.model}</td>
+                      <td className="px-3 py-2 text-zinc-500 dark:text-zinc-400">{m.mode}</td>
+                      <td className={CELL}>{formatCount(m.translateRequests)}</td>
+                      <td className={CELL}>{formatCount(m.inputTokens)}</td>
+                      <td className={CELL}>{formatCount(m.outputTokens)}</td>
+                      <td className={CELL}>{formatCount(m.translateCharacters)}</td>
+                      <td className={`${CELL} font-medium`}>{formatCost(m.cost, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.byModel.length === 0 && (
+                <div className="px-4 py-3 text-sm text-zinc-400">No translations yet.</div>
+              )}
+            </Section>
+
+            <Section title="By meeting">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-zinc-500 dark:text-zinc-400">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Meeting</th>
+                    <th className="px-3 py-2 text-left font-medium">When</th>
+                    <TotalsHeads />
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byMeeting.map((m) => (
+                    <tr key={m.meetingId} className="border-t border-zinc-100 dark:border-white/5">
+                      <td className="max-w-64 truncate px-3 py-2">
+                        {meetingNames.get(m.meetingId) ?? (
+                          <span className="font-mono text-xs text-zinc-500 dark:text-zinc-400">
+                            {m.meetingId}
+                          </span>
+                        )}
+                        {m.users.length > 0 && (
+                          <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                            {m.users.join(", ")}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-zinc-500 dark:text-zinc-400">
+                        {formatWhen(m.firstAt)}
+                      </td>
+                      <TotalsCells t={m} currency={currency} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.byMeeting.length === 0 && (
+                <div className="px-4 py-3 text-sm text-zinc-400">No meetings in this range.</div>
+              )}
+            </Section>
+
+            <Section title="By day (UTC)">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-zinc-500 dark:text-zinc-400">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Day</th>
+                    <TotalsHeads />
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byDay.map((d) => (
+                    <tr key={d.day} className="border-t border-zinc-100 dark:border-white/5">
+                      <td className="px-3 py-2 tabular-nums">{d.day}</td>
+                      <TotalsCells t={d} currency={currency} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.byDay.length === 0 && (
+                <div className="px-4 py-3 text-sm text-zinc-400">No usage in this range.</div>
+              )}
+            </Section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
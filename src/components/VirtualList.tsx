@@ -0,0 +1,271 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+  type Ref,
+} from "react";
+
+// Rows rendered beyond the viewport, so fast scrolling doesn't show blank space.
+const OVERSCAN_PX = 800;
+// Scrolled to within this distance of the end counts as following the live end.
+const LIVE_THRESHOLD_PX = 40;
+
+/** Where the user scrolled to: the end, or the row at the top of the viewport. */
+export type ScrollPosition = { atEnd: true } | { atEnd: false; key: string; fraction: number };
+
+export interface VirtualListHandle {
+  // `fraction` of the row's height scrolled past the top of the viewport.
+  scrollToKey: (key: string, fraction?: number) => void;
+  scrollToEnd: () => void;
+}
+
+interface VirtualListProps<T> {
+  items: T[];
+  // Stable across renders (measured heights are kept by key).
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  // Height of a row until it has been rendered and measured.
+  estimateHeight: number;
+  // Shown instead of the rows when there are none.
+  empty?: ReactNode;
+  // After the rows, inside the scroll area.
+  footer?: ReactNode;
+  // Scrolling by the user, not by following new rows or by the handle.
+  onUserScroll?: (position: ScrollPosition) => void;
+  ref?: Ref<VirtualListHandle>;
+}
+
+// Index of the row containing `y` (clamped to the list).
+function rowAt(offsets: number[], y: number): number {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid]! <= y) lo = mid;
+    else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+}
+
+/**
+ * A scrolling list that only renders the rows near the viewport, for transcripts of thousands of
+ * lines. It follows new rows while scrolled to the end; once the user scrolls up it stays put and
+ * offers a "Jump to live" button.
+ */
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight,
+  empty,
+  footer,
+  onUserScroll,
+  ref,
+}: VirtualListProps<T>) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const contentRef = useRef<HTMLDivElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  // Set for scrolls made here, so they aren't reported as the user's.
+  const programmaticTopRef = useRef<number | null>(null);
+  // Top row in view and how far into it the viewport starts; kept in place when rows resize.
+  const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+  const isLiveRef = useRef(true);
+
+  const [heights, setHeights] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ top: 0, height: 0, listTop: 0 });
+  const [isLive, setIsLive] = useState(true);
+  // Row count when the user scrolled away from the end.
+  const [countAtLock, setCountAtLock] = useState(0);
+
+  useEffect(() => {
+    isLiveRef.current = isLive;
+  }, [isLive]);
+
+  const layout = useMemo(() => {
+    const keys = items.map(getKey);
+    const offsets = [0];
+    for (const key of keys) {
+      offsets.push(offsets[offsets.length - 1]! + (heights.get(key) ?? estimateHeight));
+    }
+    return { keys, offsets, indexByKey: new Map(keys.map((k, i) => [k, i])) };
+  }, [estimateHeight, getKey, heights, items]);
+
+  const setScrollTop = useCallback((top: number) => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const before = el.scrollTop;
+    el.scrollTop = top;
+    // No scroll event comes when nothing moved.
+    programmaticTopRef.current = el.scrollTop !== before ? el.scrollTop : null;
+  }, []);
+
+  const scrollToEnd = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setIsLive(true);
+    setScrollTop(el.scrollHeight);
+  }, [setScrollTop]);
+
+  const scrollToKey = useCallback(
+    (key: string, fraction = 0) => {
+      const i = layout.indexByKey.get(key);
+      const list = listRef.current;
+      if (i == null || !list) return;
+      const rowHeight = layout.offsets[i + 1]! - layout.offsets[i]!;
+      setScrollTop(list.offsetTop + layout.offsets[i]! + fraction * rowHeight);
+    },
+    [layout, setScrollTop],
+  );
+
+  useImperativeHandle(ref, () => ({ scrollToKey, scrollToEnd }), [scrollToEnd, scrollToKey]);
+
+  const onScroll = useCallback(() => {
+    const el = scrollRef.current;
+    const list = listRef.current;
+    if (!el || !list) return;
+    const isProgrammatic =
+      programmaticTopRef.current != null &&
+      Math.abs(el.scrollTop - programmaticTopRef.current) <= 1;
+    programmaticTopRef.current = null;
+
+    setViewport({ top: el.scrollTop, height: el.clientHeight, listTop: list.offsetTop });
+    const atEnd = el.scrollHeight - el.scrollTop - el.clientHeight <= LIVE_THRESHOLD_PX;
+    if (atEnd !== isLive) {
+      setIsLive(atEnd);
+      if (!atEnd) setCountAtLock(items.length);
+    }
+
+    const y = el.scrollTop - list.offsetTop;
+    const i = rowAt(layout.offsets, y);
+    const key = layout.keys[i];
+    anchorRef.current = key != null ? { key, offset: y - layout.offsets[i]! } : null;
+
+    if (isProgrammatic || !onUserScroll) return;
+    if (atEnd) onUserScroll({ atEnd: true });
+    else if (key != null) {
+      const rowHeight = layout.offsets[i + 1]! - layout.offsets[i]!;
+      const fraction = Math.min(1, Math.max(0, (y - layout.offsets[i]!) / rowHeight));
+      onUserScroll({ atEnd: false, key, fraction });
+    }
+  }, [isLive, items.length, layout, onUserScroll]);
+
+  // Row heights, the viewport size, and growth at the end (new rows, the footer) to follow.
+  const onResize = useCallback(
+    (entries: ResizeObserverEntry[]) => {
+      const measured: Array<[string, number]> = [];
+      let isContentResized = false;
+      for (const entry of entries) {
+        const el = entry.target as HTMLElement;
+        if (el === scrollRef.current) {
+          setViewport((v) => ({ ...v, height: el.clientHeight }));
+        } else if (el === contentRef.current) {
+          isContentResized = true;
+        } else if (el.dataset.key != null) {
+          measured.push([el.dataset.key, el.offsetHeight]);
+        }
+      }
+      if (measured.length > 0) {
+        setHeights((prev) => {
+          if (measured.every(([key, h]) => prev.get(key) === h)) return prev;
+          const next = new Map(prev);
+          for (const [key, h] of measured) next.set(key, h);
+          return next;
+        });
+      }
+      if (isContentResized && isLiveRef.current && scrollRef.current) {
+        setScrollTop(scrollRef.current.scrollHeight);
+      }
+    },
+    [setScrollTop],
+  );
+
+  const observe = useCallback(
+    (el: HTMLElement | null) => {
+      if (!el) return;
+      const observer = (observerRef.current ??= new ResizeObserver(onResize));
+      observer.observe(el);
+      return () => observer.unobserve(el);
+    },
+    [onResize],
+  );
+
+  const setScrollEl = useCallback(
+    (el: HTMLDivElement | null) => {
+      scrollRef.current = el;
+      return observe(el);
+    },
+    [observe],
+  );
+
+  const setContentEl = useCallback(
+    (el: HTMLDivElement | null) => {
+      contentRef.current = el;
+      return observe(el);
+    },
+    [observe],
+  );
+
+  // Rows above the viewport were measured (or changed): keep the row being read where it was.
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    const list = listRef.current;
+    if (isLiveRef.current || !anchor || !list) return;
+    const i = layout.indexByKey.get(anchor.key);
+    if (i == null) return;
+    setScrollTop(list.offsetTop + layout.offsets[i]! + anchor.offset);
+  }, [layout, setScrollTop]);
+
+  const total = layout.offsets[items.length]!;
+  const first = rowAt(layout.offsets, viewport.top - viewport.listTop - OVERSCAN_PX);
+  const last = rowAt(
+    layout.offsets,
+    viewport.top - viewport.listTop + viewport.height + OVERSCAN_PX,
+  );
+  const visible: number[] = [];
+  if (items.length > 0) for (let i = first; i <= last; i++) visible.push(i);
+  const newCount = items.length - countAtLock;
+
+  return (
+    <div className="relative min-h-0 flex-1">
+      <div ref={setScrollEl} onScroll={onScroll} className="h-full overflow-auto">
+        <div ref={setContentEl} className="p-4">
+          {items.length === 0 && empty}
+          <div ref={listRef} className="relative" style={{ height: total }}>
+            {visible.map((i) => (
+              <div
+                key={layout.keys[i]}
+                ref={observe}
+                data-key={layout.keys[i]}
+                className="absolute inset-x-0 pb-2"
+                style={{ top: layout.offsets[i] }}
+              >
+                {renderItem(items[i]!, i)}
+              </div>
+            ))}
+          </div>
+          {footer}
+        </div>
+      </div>
+
+      {!isLive && items.length > 0 && (
+        <button
+          className="absolute bottom-3 left-1/2 -translate-x-1/2 rounded-full border border-zinc-200 bg-white px-3 py-1 text-xs font-medium text-zinc-700 shadow-sm hover:bg-zinc-50 dark:border-white/10 dark:bg-zinc-900 dark:text-zinc-200 dark:hover:bg-zinc-800"
+          onClick={() => {
+            scrollToEnd();
+            onUserScroll?.({ atEnd: true });
+          }}
+        >
+          Jump to live{newCount > 0 ? ` (${newCount} new)` : ""} ↓
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { languageLabel, type LanguageCode } from "@/lib/languages";
+import { TTS_PROVIDERS, type TtsProvider, type TtsVoice, type VoiceOutputPrefs } from "@/lib/tts";
+
+interface VoiceOutputSettingsProps {
+  value: VoiceOutputPrefs;
+  onChange: (next: VoiceOutputPrefs) => void;
+  // Output languages of the meeting; one of them is read aloud.
+  languages: LanguageCode[];
+  spokenLang: LanguageCode;
+  // Lists voices; null while voice output is off.
+  provider: TtsProvider | null;
+}
+
+const selectClass =
+  "h-8 rounded-md border border-zinc-200 bg-white px-1 text-sm dark:border-white/10 dark:bg-black";
+
+export function VoiceOutputSettings({
+  value,
+  onChange,
+  languages,
+  spokenLang,
+  provider,
+}: VoiceOutputSettingsProps) {
+  const [voices, setVoices] = useState<{ key: string; voices: TtsVoice[] } | null>(null);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const voicesKey = provider ? `${provider.id}:${spokenLang}` : null;
+
+  useEffect(() => {
+    if (!provider || !voicesKey) return;
+    let cancelled = false;
+    provider
+      .listVoices(spokenLang)
+      .then((list) => {
+        if (cancelled) return;
+        setVoices({ key: voicesKey, voices: list });
+        setVoiceError(null);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setVoiceError(e instanceof Error ? e.message : "Failed to load voices.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, spokenLang, voicesKey]);
+
+  const voiceOptions = voices?.key === voicesKey ? voices.voices : [];
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+        />
+        Read committed translations aloud
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          className={selectClass}
+          value={value.provider}
+          onChange={(e) =>
+            onChange({ ...value, provider: e.target.value as VoiceOutputPrefs["provider"] })
+          }
+          aria-label="Voice backend"
+        >
+          {TTS_PROVIDERS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+
+        {languages.length > 1 && (
+          <select
+            className={selectClass}
+            value={spokenLang}
+            onChange={(e) => onChange({ ...value, lang: e.target.value as LanguageCode })}
+            aria-label="Spoken language"
+          >
+            {languages.map((l) => (
+              <option key={l} value={l}>
+                Speak: {languageLabel(l)}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <select
+          className={`${selectClass} max-w-56`}
+          value={value.voices[spokenLang] ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              voices: { ...value.voices, [spokenLang]: e.target.value || undefined },
+            })
+          }
+          disabled={!provider}
+          aria-label={`Voice for ${languageLabel(spokenLang)}`}
+        >
+          <option value="">Default voice</option>
+          {voiceOptions.map((v) => (
+            <option key={v.id} value={v.id}>
+              {v.name}
+              {v.lang ? ` (${v.lang})` : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        Volume
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={value.volume}
+          onChange={(e) => onChange({ ...value, volume: Number(e.target.value) })}
+          aria-label="Voice volume"
+        />
+      </label>
+
+      {voiceError && <div className="text-xs text-red-600 dark:text-red-400">{voiceError}</div>}
+    </div>
+  );
+}
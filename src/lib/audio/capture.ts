@@ -0,0 +1,104 @@
+/**
+ * Live audio sources: a microphone (default or a chosen device), the audio of a shared tab or
+ * screen (Zoom/Meet running in the browser), or both mixed together.
+ */
+export type CaptureSource =
+  | { kind: "microphone"; deviceId?: string }
+  | { kind: "tab" }
+  | { kind: "mix"; deviceId?: string };
+
+export type CaptureSourceKind = CaptureSource["kind"];
+
+export const CAPTURE_SOURCE_KINDS: CaptureSourceKind[] = ["microphone", "tab", "mix"];
+
+export function captureSourceLabel(kind: CaptureSourceKind): string {
+  if (kind === "tab") return "Tab / system audio";
+  if (kind === "mix") return "Microphone + tab audio";
+  return "Microphone";
+}
+
+/** One input of the capture graph; each gets its own level meter. */
+export interface CaptureStream {
+  id: "microphone" | "tab";
+  label: string;
+  stream: MediaStream;
+}
+
+export interface InputDevice {
+  deviceId: string;
+  label: string;
+}
+
+/** Audio inputs the browser knows about. Labels stay empty until mic permission is granted. */
+export async function listInputDevices(): Promise<InputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(
+      (d) => d.kind === "audioinput" && d.deviceId !== "default" && d.deviceId !== "communications",
+    )
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Microphone ${i + 1}` }));
+}
+
+async function openMicrophone(deviceId: string | undefined): Promise<CaptureStream> {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : null),
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        channelCount: 1,
+      },
+    });
+  } catch (e) {
+    if (deviceId && e instanceof Error && e.name === "OverconstrainedError") {
+      throw new Error("The selected microphone is not available. Pick another one in Settings.");
+    }
+    throw e;
+  }
+  const label = stream.getAudioTracks()[0]?.label || "Microphone";
+  return { id: "microphone", label, stream };
+}
+
+async function openTabAudio(): Promise<CaptureStream> {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new Error("This browser cannot capture tab audio. Use Chrome or Edge.");
+  }
+  // Browsers only offer audio alongside video; the video track is dropped right away.
+  const display = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    // Remote voices arrive clean; processing meant for microphones only hurts them.
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+  });
+  display.getVideoTracks().forEach((t) => t.stop());
+  const audio = display.getAudioTracks();
+  if (!audio.length) {
+    throw new Error(
+      'No audio was shared. Pick a tab and tick "Share tab audio" (or "Share system audio").',
+    );
+  }
+  return { id: "tab", label: audio[0]!.label || "Tab audio", stream: new MediaStream(audio) };
+}
+
+/**
+ * Opens the streams for `source`. Call from a click handler: getDisplayMedia needs a user
+ * gesture. On failure every stream opened so far is stopped again.
+ */
+export async function openCaptureStreams(source: CaptureSource): Promise<CaptureStream[]> {
+  const opened: CaptureStream[] = [];
+  try {
+    // Tab first: its picker must run while the click still counts as a user gesture.
+    if (source.kind !== "microphone") opened.push(await openTabAudio());
+    if (source.kind !== "tab") opened.push(await openMicrophone(source.deviceId));
+    return opened;
+  } catch (e) {
+    stopCaptureStreams(opened);
+    throw e;
+  }
+}
+
+export function stopCaptureStreams(streams: CaptureStream[]): void {
+  for (const s of streams) s.stream.getTracks().forEach((t) => t.stop());
+}
@@ -0,0 +1,33 @@
+/**
+ * Decodes an uploaded audio/video file (anything the browser can play: WAV, MP3, M4A, WebM, MP4)
+ * at its native sample rate, every channel. The whole file is read into memory first; mixToMono
+ * then takes one chunk at a time from the decoded buffer while it is streamed.
+ */
+export async function decodeAudioFile(file: Blob): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer();
+  const ctx = new AudioContext();
+  try {
+    return await ctx.decodeAudioData(data);
+  } catch {
+    throw new Error(
+      "Could not decode the file. Use WAV, MP3, M4A, WebM or another format your browser can play.",
+    );
+  } finally {
+    void ctx.close().catch(() => {});
+  }
+}
+
+/**
+ * Mono mix of frames [start, end).
+ */
+export function mixToMono(buffer: AudioBuffer, start: number, end: number): Float32Array {
+  const channels = buffer.numberOfChannels;
+  if (channels === 1) return buffer.getChannelData(0).slice(start, end);
+
+  const out = new Float32Array(Math.max(0, end - start));
+  for (let c = 0; c < channels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < out.length; i++) out[i]! += data[start + i]! / channels;
+  }
+  return out;
+}
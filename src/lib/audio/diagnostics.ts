@@ -0,0 +1,132 @@
+import { measureLevel } from "./levels";
+
+/**
+ * Input health from the samples the tap worklet delivers: the live level plus warnings for the
+ * usual reasons no text shows up (muted or wrong mic, a clipping input, a broken audio clock).
+ */
+export type InputWarningKind = "silence" | "clipping" | "sample-rate";
+
+export interface InputWarning {
+  kind: InputWarningKind;
+  message: string;
+}
+
+export interface InputHealth {
+  // Since the previous read, as fractions of full scale.
+  rms: number;
+  peak: number;
+  warnings: InputWarning[];
+}
+
+export interface InputMonitor {
+  addSamples(samples: Float32Array, at?: number): void;
+  /** Level since the previous read, and the warnings that apply right now. */
+  read(at?: number): InputHealth;
+}
+
+export interface InputMonitorOptions {
+  // Rate the samples arrive at (the AudioContext's).
+  sampleRate: number;
+  // What the device reports in its track settings, when it does.
+  deviceSampleRate?: number;
+  // Warn when nothing above the noise floor arrived for this long.
+  silenceAfterMs?: number;
+}
+
+// Peaks below this (≈ -50 dBFS) are treated as a dead or muted input.
+const SILENCE_PEAK = 0.003;
+const DEFAULT_SILENCE_AFTER_MS = 5000;
+const CLIP_LEVEL = 0.99;
+// A few consecutive full-scale samples in one chunk count as clipping; single ones are normal.
+const MIN_CLIPPED_SAMPLES = 3;
+// How long a clipping warning stays up after the last clipped chunk.
+const CLIP_HOLD_MS = 3000;
+// The delivered sample rate is only judged after this long, and only beyond this drift.
+const RATE_CHECK_AFTER_MS = 5000;
+const MAX_RATE_DRIFT = 0.05;
+
+function kHz(rate: number): string {
+  return `${Number((rate / 1000).toFixed(1))} kHz`;
+}
+
+export function createInputMonitor({
+  sampleRate,
+  deviceSampleRate,
+  silenceAfterMs = DEFAULT_SILENCE_AFTER_MS,
+}: InputMonitorOptions): InputMonitor {
+  // First read or sample; silence counts from here.
+  let watchingSince: number | null = null;
+  // First sample; the delivered rate counts from here.
+  let startedAt: number | null = null;
+  let received = 0;
+  let lastSoundAt: number | null = null;
+  let lastClipAt: number | null = null;
+  let sumSquares = 0;
+  let count = 0;
+  let peak = 0;
+
+  return {
+    addSamples(samples, at = Date.now()) {
+      watchingSince ??= at;
+      startedAt ??= at;
+      received += samples.length;
+
+      const level = measureLevel(samples);
+      sumSquares += level.rms * level.rms * samples.length;
+      count += samples.length;
+      if (level.peak > peak) peak = level.peak;
+      if (level.peak >= SILENCE_PEAK) lastSoundAt = at;
+
+      let run = 0;
+      for (let i = 0; i < samples.length; i++) {
+        run = Math.abs(samples[i]!) >= CLIP_LEVEL ? run + 1 : 0;
+        if (run >= MIN_CLIPPED_SAMPLES) {
+          lastClipAt = at;
+          break;
+        }
+      }
+    },
+
+    read(at = Date.now()) {
+      const warnings: InputWarning[] = [];
+      watchingSince ??= at;
+
+      if (at - (lastSoundAt ?? watchingSince) >= silenceAfterMs) {
+        warnings.push({
+          kind: "silence",
+          message:
+            "No sound from the input. Check that the right microphone is selected and not muted.",
+        });
+      }
+
+      if (lastClipAt != null && at - lastClipAt < CLIP_HOLD_MS) {
+        warnings.push({
+          kind: "clipping",
+          message:
+            "The input is clipping. Lower the microphone gain or move it away from your mouth.",
+        });
+      }
+
+      if (deviceSampleRate && deviceSampleRate !== sampleRate) {
+        warnings.push({
+          kind: "sample-rate",
+          message: `The microphone runs at ${kHz(deviceSampleRate)} but audio is processed at ${kHz(sampleRate)}; the browser resamples it.`,
+        });
+      } else if (startedAt != null && at - startedAt >= RATE_CHECK_AFTER_MS) {
+        const delivered = received / ((at - startedAt) / 1000);
+        if (Math.abs(delivered - sampleRate) / sampleRate > MAX_RATE_DRIFT) {
+          warnings.push({
+            kind: "sample-rate",
+            message: `Audio arrives at ${kHz(delivered)} instead of ${kHz(sampleRate)}; the device or the browser is dropping samples.`,
+          });
+        }
+      }
+
+      const health = { rms: count ? Math.sqrt(sumSquares / count) : 0, peak, warnings };
+      sumSquares = 0;
+      count = 0;
+      peak = 0;
+      return health;
+    },
+  };
+}
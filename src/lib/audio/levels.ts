@@ -0,0 +1,30 @@
+// Meter floor; anything quieter shows as an empty bar.
+const METER_FLOOR_DB = -60;
+
+export interface SignalLevel {
+  // Both as a fraction of full scale.
+  rms: number;
+  peak: number;
+}
+
+export function measureLevel(samples: Float32Array): SignalLevel {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i]!;
+    sum += s * s;
+    const a = Math.abs(s);
+    if (a > peak) peak = a;
+  }
+  return { rms: samples.length ? Math.sqrt(sum / samples.length) : 0, peak };
+}
+
+/**
+ * Maps a level (fraction of full scale) to 0..1 on a dBFS scale, which is how loudness is
+ * perceived: quiet speech still moves the bar.
+ */
+export function meterPosition(level: number): number {
+  if (level <= 0) return 0;
+  const db = 20 * Math.log10(level);
+  return Math.max(0, Math.min(1, 1 - db / METER_FLOOR_DB));
+}
@@ -0,0 +1,94 @@
+/**
+ * Local speaker attribution, used when Scribe does not report speaker ids. Segments are
+ * clustered by median voice pitch: crude (similar voices merge, one voice can split when it
+ * shouts), but enough to break a long transcript into turns.
+ */
+
+const FRAME_MS = 40;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+// RMS (fraction of full scale) below which a frame counts as silence.
+const VOICED_RMS = 0.02;
+// Normalized autocorrelation needed to call a frame voiced.
+const MIN_PERIODICITY = 0.5;
+const MIN_VOICED_FRAMES = 5;
+// Segments whose median pitch is within this distance of a cluster belong to it.
+const SAME_SPEAKER_SEMITONES = 2;
+const MAX_SPEAKERS = 8;
+
+/**
+ * Fundamental frequency of a frame via normalized autocorrelation, or null if unvoiced.
+ */
+export function estimatePitchHz(frame: Float32Array, sampleRate: number): number | null {
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i]! * frame[i]!;
+  if (Math.sqrt(energy / frame.length) < VOICED_RMS) return null;
+
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / MIN_PITCH_HZ));
+  let bestLag = -1;
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < frame.length; i++) sum += frame[i]! * frame[i + lag]!;
+    const corr = sum / energy;
+    if (corr > best) {
+      best = corr;
+      bestLag = lag;
+    }
+  }
+  return bestLag > 0 && best >= MIN_PERIODICITY ? sampleRate / bestLag : null;
+}
+
+export interface SpeakerTracker {
+  /** Feeds captured audio (16-bit PCM at the tracker's sample rate). */
+  addAudio(pcm: Int16Array): void;
+  /** Closes the current segment; returns its speaker ("1", "2", ...) or undefined if unsure. */
+  endSegment(): string | undefined;
+}
+
+export function createSpeakerTracker(sampleRate: number): SpeakerTracker {
+  const frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+  const frame = new Float32Array(frameSize);
+  let frameFill = 0;
+  let pitches: number[] = [];
+  const clusters: Array<{ semitones: number; count: number }> = [];
+
+  return {
+    addAudio(pcm) {
+      for (let i = 0; i < pcm.length; i++) {
+        frame[frameFill++] = pcm[i]! / 0x8000;
+        if (frameFill < frameSize) continue;
+        frameFill = 0;
+        const hz = estimatePitchHz(frame, sampleRate);
+        if (hz != null) pitches.push(hz);
+      }
+    },
+
+    endSegment() {
+      const voiced = pitches.sort((a, b) => a - b);
+      pitches = [];
+      if (voiced.length < MIN_VOICED_FRAMES) return undefined;
+
+      const semitones = 12 * Math.log2(voiced[Math.floor(voiced.length / 2)]!);
+      let nearest = -1;
+      for (let i = 0; i < clusters.length; i++) {
+        const d = Math.abs(clusters[i]!.semitones - semitones);
+        if (nearest < 0 || d < Math.abs(clusters[nearest]!.semitones - semitones)) nearest = i;
+      }
+
+      const isNewVoice =
+        nearest < 0 || Math.abs(clusters[nearest]!.semitones - semitones) > SAME_SPEAKER_SEMITONES;
+      if (isNewVoice && clusters.length < MAX_SPEAKERS) {
+        clusters.push({ semitones, count: 1 });
+        return String(clusters.length);
+      }
+
+      // Running mean, so a cluster follows slow drift in a speaker's voice.
+      const c = clusters[nearest]!;
+      c.count += 1;
+      c.semitones += (semitones - c.semitones) / c.count;
+      return String(nearest + 1);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Registers "tap-processor": an AudioWorklet that posts each block of its first input channel
+ * to the main thread. Returns the module URL; revoke it once the context is closed.
+ */
+export async function loadTapWorklet(audioContext: AudioContext): Promise<string> {
+  const workletCode = `
+class TapProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const input = inputs[0];
+    const channel = input && input[0];
+    if (channel && channel.length) {
+      // Copy, because Web Audio reuses the underlying buffer.
+      this.port.postMessage(new Float32Array(channel));
+    }
+    return true;
+  }
+}
+registerProcessor("tap-processor", TapProcessor);
+`;
+  const blob = new Blob([workletCode], { type: "application/javascript" });
+  const url = URL.createObjectURL(blob);
+  await audioContext.audioWorklet.addModule(url);
+  return url;
+}
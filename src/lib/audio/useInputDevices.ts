@@ -0,0 +1,28 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { listInputDevices, type InputDevice } from "./capture";
+
+/**
+ * Audio input devices, kept current as devices are plugged in or removed. Call `refresh` after
+ * mic permission is granted to pick up the real device labels.
+ */
+export function useInputDevices() {
+  const [devices, setDevices] = useState<InputDevice[]>([]);
+
+  const refresh = useCallback(() => {
+    listInputDevices()
+      .then(setDevices)
+      .catch(() => setDevices([]));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const media = navigator.mediaDevices;
+    if (!media) return;
+    media.addEventListener("devicechange", refresh);
+    return () => media.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  return { devices, refresh };
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { openCaptureStreams, stopCaptureStreams, type CaptureStream } from "./capture";
+import { createInputMonitor, type InputHealth } from "./diagnostics";
+import { loadTapWorklet } from "./tap";
+
+export type MicTestPhase = "idle" | "recording" | "playing";
+
+const TEST_DURATION_MS = 3000;
+const LEVEL_POLL_MS = 100;
+
+/**
+ * Pre-flight check: records a few seconds from a microphone, then plays them back, so the
+ * right device and a sane level are confirmed before a meeting starts. `health` carries the
+ * live level while recording and the warnings for the whole take afterwards.
+ */
+export function useMicTest() {
+  const [phase, setPhase] = useState<MicTestPhase>("idle");
+  const [health, setHealth] = useState<InputHealth | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const isRunningRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(async (deviceId?: string) => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setLastError(null);
+    setHealth(null);
+    setPhase("recording");
+
+    let streams: CaptureStream[] = [];
+    let ctx: AudioContext | null = null;
+    let workletUrl: string | null = null;
+    let levelTimer: number | null = null;
+    // Resolves after `ms`, or early when the test is cancelled.
+    const wait = (ms: number) =>
+      new Promise<void>((resolve) => {
+        const timer = window.setTimeout(resolve, ms);
+        abort.signal.addEventListener("abort", () => {
+          window.clearTimeout(timer);
+          resolve();
+        });
+      });
+
+    try {
+      streams = await openCaptureStreams({ kind: "microphone", deviceId });
+      if (abort.signal.aborted) return;
+      ctx = new AudioContext();
+      workletUrl = await loadTapWorklet(ctx);
+
+      const stream = streams[0]!.stream;
+      const source = ctx.createMediaStreamSource(stream);
+      const tap = new AudioWorkletNode(ctx, "tap-processor");
+      const mute = ctx.createGain();
+      mute.gain.value = 0;
+      source.connect(tap);
+      tap.connect(mute);
+      mute.connect(ctx.destination);
+
+      const monitor = createInputMonitor({
+        sampleRate: ctx.sampleRate,
+        deviceSampleRate: stream.getAudioTracks()[0]?.getSettings().sampleRate,
+        // A take that is silent almost throughout; pauses between words are fine.
+        silenceAfterMs: TEST_DURATION_MS - 500,
+      });
+      const take: Float32Array[] = [];
+      let warnings: InputHealth["warnings"] = [];
+      // Clipping is only held for a moment; keep anything seen during the take.
+      const readHealth = () => {
+        const h = monitor.read();
+        for (const w of h.warnings) {
+          if (!warnings.some((x) => x.kind === w.kind)) warnings = [...warnings, w];
+        }
+        return { ...h, warnings };
+      };
+      tap.port.onmessage = (evt: MessageEvent<Float32Array>) => {
+        take.push(evt.data);
+        monitor.addSamples(evt.data);
+      };
+      levelTimer = window.setInterval(() => setHealth(readHealth()), LEVEL_POLL_MS);
+
+      await wait(TEST_DURATION_MS);
+      window.clearInterval(levelTimer);
+      levelTimer = null;
+      tap.port.onmessage = null;
+      source.disconnect();
+      stopCaptureStreams(streams);
+      if (abort.signal.aborted) return;
+
+      setHealth({ ...readHealth(), rms: 0, peak: 0 });
+
+      const length = take.reduce((n, c) => n + c.length, 0);
+      if (!length) return;
+      const recorded = ctx.createBuffer(1, length, ctx.sampleRate);
+      const channel = recorded.getChannelData(0);
+      let offset = 0;
+      for (const c of take) {
+        channel.set(c, offset);
+        offset += c.length;
+      }
+
+      setPhase("playing");
+      const player = ctx.createBufferSource();
+      player.buffer = recorded;
+      player.connect(ctx.destination);
+      await new Promise<void>((resolve) => {
+        player.onended = () => resolve();
+        abort.signal.addEventListener("abort", () => resolve());
+        player.start();
+      });
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : "Microphone test failed.");
+    } finally {
+      if (levelTimer != null) window.clearInterval(levelTimer);
+      stopCaptureStreams(streams);
+      if (ctx) void ctx.close().catch(() => {});
+      if (workletUrl) URL.revokeObjectURL(workletUrl);
+      isRunningRef.current = false;
+      if (abortRef.current === abort) abortRef.current = null;
+      setPhase("idle");
+    }
+  }, []);
+
+  // Stop recording/playback if the page goes away mid-test.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { phase, health, lastError, run };
+}
@@ -0,0 +1,128 @@
+import type { SessionUser } from "./session";
+
+/**
+ * Sign-in configuration (all optional; without AUTH_MODE the app stays open, as in development):
+ * - AUTH_MODE: none | local | oidc
+ * - AUTH_SECRET: signs session cookies and, unless KEY_ENCRYPTION_SECRET is set, encrypts stored
+ *   API keys (at least 32 characters)
+ * - AUTH_USERS (local): `name=<hash>,name2=<hash>`; hashes come from `npm run hash-password`
+ * - OIDC_ISSUER / OIDC_CLIENT_ID / OIDC_CLIENT_SECRET (oidc), OIDC_SCOPES (default
+ *   "openid profile email"), OIDC_ALLOWED_EMAILS (optional allow list: addresses or @domains)
+ * - AUTH_URL: public origin for OIDC redirects when behind a proxy (default: request origin)
+ * - AUTH_KEY_SCOPE: user (default) | workspace — who shares API keys saved in Settings
+ * - AUTH_ADMINS: users who see everyone's usage (local usernames or OIDC subjects); others see
+ *   only their own
+ * - AUTH_DATA_DIR: where encrypted keys and the usage log are stored (default ".data")
+ */
+export type AuthMode = "none" | "local" | "oidc";
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  allowedEmails: string[];
+}
+
+export interface AuthConfig {
+  mode: AuthMode;
+  secret: string;
+  keySecret: string;
+  // Local mode: username → password hash.
+  users: Map<string, string>;
+  oidc: OidcConfig | null;
+  publicUrl: string | null;
+  keyScope: "user" | "workspace";
+  // Local usernames or OIDC `sub` values.
+  admins: Set<string>;
+  dataDir: string;
+}
+
+export type ResolvedAuthConfig = { ok: true; config: AuthConfig } | { ok: false; error: string };
+
+const MIN_SECRET_CHARS = 32;
+
+function parseUsers(raw: string): Map<string, string> {
+  const users = new Map<string, string>();
+  for (const entry of raw.split(",")) {
+    const eq = entry.indexOf("=");
+    if (eq <= 0) continue;
+    users.set(entry.slice(0, eq).trim(), entry.slice(eq + 1).trim());
+  }
+  return users;
+}
+
+function list(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function resolveAuthConfig(): ResolvedAuthConfig {
+  const mode = (process.env.AUTH_MODE || "none").trim().toLowerCase();
+  if (mode !== "none" && mode !== "local" && mode !== "oidc") {
+    return { ok: false, error: `Unknown AUTH_MODE "${mode}".` };
+  }
+
+  const secret = process.env.AUTH_SECRET?.trim() || "";
+  if (mode !== "none" && secret.length < MIN_SECRET_CHARS) {
+    return { ok: false, error: `AUTH_SECRET must be at least ${MIN_SECRET_CHARS} characters.` };
+  }
+
+  const users = parseUsers(process.env.AUTH_USERS || "");
+  if (mode === "local" && users.size === 0) {
+    return { ok: false, error: "AUTH_USERS is empty; add users with `npm run hash-password`." };
+  }
+
+  let oidc: OidcConfig | null = null;
+  if (mode === "oidc") {
+    const issuer = process.env.OIDC_ISSUER?.trim();
+    const clientId = process.env.OIDC_CLIENT_ID?.trim();
+    if (!issuer || !clientId) {
+      return {
+        ok: false,
+        error: "OIDC_ISSUER and OIDC_CLIENT_ID are required for AUTH_MODE=oidc.",
+      };
+    }
+    oidc = {
+      issuer: issuer.replace(/\/+$/, ""),
+      clientId,
+      clientSecret: process.env.OIDC_CLIENT_SECRET?.trim() || "",
+      scopes: process.env.OIDC_SCOPES?.trim() || "openid profile email",
+      allowedEmails: list(process.env.OIDC_ALLOWED_EMAILS),
+    };
+  }
+
+  return {
+    ok: true,
+    config: {
+      mode,
+      secret,
+      keySecret: process.env.KEY_ENCRYPTION_SECRET?.trim() || secret,
+      users,
+      oidc,
+      publicUrl: process.env.AUTH_URL?.trim().replace(/\/+$/, "") || null,
+      keyScope:
+        process.env.AUTH_KEY_SCOPE?.trim().toLowerCase() === "workspace" ? "workspace" : "user",
+      admins: new Set(
+        (process.env.AUTH_ADMINS ?? "")
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean),
+      ),
+      dataDir: process.env.AUTH_DATA_DIR?.trim() || ".data",
+    },
+  };
+}
+
+/** Whether the user may see everyone's usage. */
+export function isAdmin(config: AuthConfig, user: SessionUser): boolean {
+  // OIDC ids are `<issuer>|<sub>`.
+  return config.admins.has(user.id) || config.admins.has(user.id.slice(user.id.indexOf("|") + 1));
+}
+
+/** Keys typed into the browser are only honoured while developing locally. */
+export function allowHeaderKeys(): boolean {
+  return process.env.NODE_ENV === "development";
+}
@@ -0,0 +1,57 @@
+import { allowHeaderKeys, resolveAuthConfig, type AuthConfig } from "./config";
+import { getStoredKey, keyScope, type StoredKeyName } from "./keyStore";
+import { readCookie, readSessionToken, SESSION_COOKIE, type SessionUser } from "./session";
+
+export { allowHeaderKeys, isAdmin, resolveAuthConfig } from "./config";
+export type { AuthConfig, AuthMode } from "./config";
+export {
+  createSessionToken,
+  cookieOptions,
+  readCookie,
+  sealValue,
+  unsealValue,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from "./session";
+export type { SessionUser } from "./session";
+
+// Dev-only request headers carrying keys typed into the Settings panel.
+const KEY_HEADERS: Record<StoredKeyName, string> = {
+  elevenlabs: "x-elevenlabs-api-key",
+  translate: "x-openai-api-key",
+};
+
+export function getSessionUser(req: Request, config: AuthConfig): SessionUser | null {
+  if (config.mode === "none") return null;
+  return readSessionToken(readCookie(req, SESSION_COOKIE), config.secret);
+}
+
+/**
+ * The API key a route should use, in order: the key the signed-in user (or workspace) saved
+ * in Settings, the server's env key, and — in development only — the key sent in a header.
+ */
+export async function resolveApiKey(
+  req: Request,
+  name: StoredKeyName,
+  serverKey: string | undefined,
+): Promise<string | null> {
+  const auth = resolveAuthConfig();
+  if (auth.ok) {
+    const user = getSessionUser(req, auth.config);
+    if (user) {
+      const stored = await getStoredKey(auth.config, keyScope(auth.config, user), name);
+      if (stored) return stored;
+    }
+  }
+  if (serverKey) return serverKey;
+  if (!allowHeaderKeys()) return null;
+  return req.headers.get(KEY_HEADERS[name])?.trim() || null;
+}
+
+/** The `next` target after sign-in: same-origin paths only, never an open redirect. */
+export function safeNextPath(value: string | null | undefined): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/";
+  }
+  return value;
+}
@@ -0,0 +1,135 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AuthConfig } from "./config";
+import type { SessionUser } from "./session";
+
+/**
+ * API keys saved from Settings, encrypted with AES-256-GCM under a key derived from
+ * KEY_ENCRYPTION_SECRET (or AUTH_SECRET). Stored as one JSON file in AUTH_DATA_DIR:
+ * `{ [scope]: { [keyName]: "<iv>.<tag>.<ciphertext>" } }`, scope being the user or the workspace.
+ */
+export type StoredKeyName = "elevenlabs" | "translate";
+
+export const STORED_KEY_NAMES: StoredKeyName[] = ["elevenlabs", "translate"];
+
+type KeyFile = Record<string, Partial<Record<StoredKeyName, string>>>;
+
+const FILE_NAME = "keys.json";
+const MAX_KEY_CHARS = 500;
+
+// Writes are chained so concurrent saves don't overwrite each other.
+let writeChain: Promise<unknown> = Promise.resolve();
+// Parsed file for lookups, until it is replaced (a save renames a new file into place).
+let cached: { path: string; ino: number; mtimeMs: number; file: KeyFile } | null = null;
+
+export function isStoredKeyName(value: unknown): value is StoredKeyName {
+  return (STORED_KEY_NAMES as unknown[]).includes(value);
+}
+
+export function validateStoredKey(value: unknown): string | null {
+  if (value === null) return null;
+  if (typeof value !== "string" || !value.trim() || value.length > MAX_KEY_CHARS) {
+    return `Keys must be 1-${MAX_KEY_CHARS} characters (or null to remove).`;
+  }
+  return null;
+}
+
+export function keyScope(config: AuthConfig, user: SessionUser): string {
+  return config.keyScope === "workspace" ? "workspace" : `user:${user.id}`;
+}
+
+function encryptionKey(config: AuthConfig): Buffer {
+  return Buffer.from(hkdfSync("sha256", config.keySecret, "translator3", "api-keys", 32));
+}
+
+function encrypt(plain: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((b) => b.toString("base64url")).join(".");
+}
+
+function decrypt(sealed: string, key: Buffer): string | null {
+  const [iv, tag, data] = sealed.split(".").map((p) => Buffer.from(p, "base64url"));
+  if (!iv || !tag || !data) return null;
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+  } catch {
+    // Wrong secret (rotated) or a tampered file: treat the key as missing.
+    return null;
+  }
+}
+
+// For saving: only a missing file is empty, since anything else would be overwritten.
+async function readKeyFile(config: AuthConfig): Promise<KeyFile> {
+  try {
+    return JSON.parse(await readFile(path.join(config.dataDir, FILE_NAME), "utf8")) as KeyFile;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw e;
+  }
+}
+
+// For lookups: an unreadable or corrupt file has no keys, so routes fall back to the server's.
+async function lookupKeyFile(config: AuthConfig): Promise<KeyFile> {
+  const file = path.join(config.dataDir, FILE_NAME);
+  try {
+    const { ino, mtimeMs } = await stat(file);
+    if (cached?.path === file && cached.ino === ino && cached.mtimeMs === mtimeMs) {
+      return cached.file;
+    }
+    cached = { path: file, ino, mtimeMs, file: await readKeyFile(config) };
+    return cached.file;
+  } catch {
+    return {};
+  }
+}
+
+export async function getStoredKey(
+  config: AuthConfig,
+  scope: string,
+  name: StoredKeyName,
+): Promise<string | null> {
+  const sealed = (await lookupKeyFile(config))[scope]?.[name];
+  return sealed ? decrypt(sealed, encryptionKey(config)) : null;
+}
+
+/** Which keys the scope has saved (never the keys themselves). */
+export async function listStoredKeys(
+  config: AuthConfig,
+  scope: string,
+): Promise<Record<StoredKeyName, boolean>> {
+  const entry = (await lookupKeyFile(config))[scope] ?? {};
+  return { elevenlabs: Boolean(entry.elevenlabs), translate: Boolean(entry.translate) };
+}
+
+/** Saves (or, with null, removes) keys for a scope. */
+export function setStoredKeys(
+  config: AuthConfig,
+  scope: string,
+  keys: Partial<Record<StoredKeyName, string | null>>,
+): Promise<void> {
+  const run = writeChain.then(async () => {
+    const file = await readKeyFile(config);
+    const entry = { ...file[scope] };
+    const key = encryptionKey(config);
+    for (const name of STORED_KEY_NAMES) {
+      const value = keys[name];
+      if (value === undefined) continue;
+      if (value === null) delete entry[name];
+      else entry[name] = encrypt(value.trim(), key);
+    }
+    file[scope] = entry;
+
+    await mkdir(config.dataDir, { recursive: true });
+    const target = path.join(config.dataDir, FILE_NAME);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await rename(tmp, target);
+  });
+  writeChain = run.catch(() => {});
+  return run;
+}
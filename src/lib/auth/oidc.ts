@@ -0,0 +1,129 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { OidcConfig } from "./config";
+import type { SessionUser } from "./session";
+
+/**
+ * Authorization-code flow with PKCE against any OpenID Connect provider (Google, Entra ID,
+ * Okta, Keycloak, ...). The user comes from the userinfo endpoint, fetched with the access
+ * token over TLS, so ID token signatures don't need to be verified here.
+ */
+interface Discovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+/** Kept in a sealed cookie between the redirect to the provider and the callback. */
+export interface OidcLoginState {
+  state: string;
+  verifier: string;
+  next: string;
+  exp: number;
+}
+
+export const OIDC_STATE_COOKIE = "t3_oidc";
+export const OIDC_STATE_TTL_SECONDS = 10 * 60;
+export const OIDC_CALLBACK_PATH = "/api/auth/oidc/callback";
+
+const discoveryCache = new Map<string, Promise<Discovery>>();
+
+function discover(issuer: string): Promise<Discovery> {
+  let cached = discoveryCache.get(issuer);
+  if (!cached) {
+    cached = (async () => {
+      const resp = await fetch(`${issuer}/.well-known/openid-configuration`, { cache: "no-store" });
+      if (!resp.ok) throw new Error(`OIDC discovery failed (${resp.status}).`);
+      const d = (await resp.json()) as Partial<Discovery>;
+      if (!d.authorization_endpoint || !d.token_endpoint || !d.userinfo_endpoint) {
+        throw new Error("OIDC discovery document is missing endpoints.");
+      }
+      return d as Discovery;
+    })();
+    // Retry on the next login instead of caching a failure.
+    cached.catch(() => discoveryCache.delete(issuer));
+    discoveryCache.set(issuer, cached);
+  }
+  return cached;
+}
+
+export async function createAuthorizationRequest(
+  config: OidcConfig,
+  redirectUri: string,
+  next: string,
+): Promise<{ url: string; loginState: OidcLoginState }> {
+  const { authorization_endpoint } = await discover(config.issuer);
+  const state = randomBytes(16).toString("base64url");
+  const verifier = randomBytes(32).toString("base64url");
+  const challenge = createHash("sha256").update(verifier).digest("base64url");
+
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", config.scopes);
+  url.searchParams.set("state", state);
+  url.searchParams.set("code_challenge", challenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return {
+    url: url.toString(),
+    loginState: { state, verifier, next, exp: Date.now() + OIDC_STATE_TTL_SECONDS * 1000 },
+  };
+}
+
+export async function completeAuthorization(
+  config: OidcConfig,
+  redirectUri: string,
+  code: string,
+  verifier: string,
+): Promise<SessionUser> {
+  const { token_endpoint, userinfo_endpoint } = await discover(config.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    client_id: config.clientId,
+    code_verifier: verifier,
+  });
+  if (config.clientSecret) body.set("client_secret", config.clientSecret);
+
+  const tokenResp = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body,
+    cache: "no-store",
+  });
+  if (!tokenResp.ok) throw new Error(`OIDC token exchange failed (${tokenResp.status}).`);
+  const tokens = (await tokenResp.json()) as { access_token?: string };
+  if (!tokens.access_token) throw new Error("OIDC token response has no access_token.");
+
+  const infoResp = await fetch(userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${tokens.access_token}` },
+    cache: "no-store",
+  });
+  if (!infoResp.ok) throw new Error(`OIDC userinfo request failed (${infoResp.status}).`);
+  const info = (await infoResp.json()) as {
+    sub?: string;
+    name?: string;
+    email?: string;
+    email_verified?: boolean;
+    preferred_username?: string;
+  };
+  if (!info.sub) throw new Error("OIDC userinfo has no subject.");
+
+  if (config.allowedEmails.length) {
+    const email = info.email?.toLowerCase();
+    const allowed = config.allowedEmails.some((a) =>
+      a.startsWith("@") ? email?.endsWith(a) : email === a,
+    );
+    if (!email || info.email_verified === false || !allowed) {
+      throw new Error("This account is not allowed to sign in.");
+    }
+  }
+
+  return {
+    id: `${config.issuer}|${info.sub}`,
+    name: info.name || info.email || info.preferred_username || info.sub,
+  };
+}
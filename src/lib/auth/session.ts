@@ -0,0 +1,82 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Stateless sessions: the user is stored in an HMAC-signed cookie, so any server instance
+ * with the same AUTH_SECRET can check it.
+ */
+export interface SessionUser {
+  // Stable id: the local username, or `<issuer>|<sub>` for OIDC.
+  id: string;
+  name: string;
+}
+
+interface SessionPayload extends SessionUser {
+  exp: number;
+}
+
+export const SESSION_COOKIE = "t3_session";
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function sign(value: string, secret: string): string {
+  return createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+/** `<base64url json>.<signature>`; also used for the short-lived OIDC login state. */
+export function sealValue(value: unknown, secret: string): string {
+  const body = Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${body}.${sign(body, secret)}`;
+}
+
+export function unsealValue<T>(sealed: string | undefined, secret: string): T | null {
+  if (!sealed) return null;
+  const dot = sealed.lastIndexOf(".");
+  if (dot <= 0) return null;
+  const body = sealed.slice(0, dot);
+  const given = Buffer.from(sealed.slice(dot + 1));
+  const expected = Buffer.from(sign(body, secret));
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    return JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function createSessionToken(user: SessionUser, secret: string, now = Date.now()): string {
+  const payload: SessionPayload = { ...user, exp: now + SESSION_TTL_SECONDS * 1000 };
+  return sealValue(payload, secret);
+}
+
+export function readSessionToken(token: string | undefined, secret: string, now = Date.now()) {
+  const payload = unsealValue<SessionPayload>(token, secret);
+  if (!payload || typeof payload.id !== "string" || !(payload.exp > now)) return null;
+  return { id: payload.id, name: String(payload.name || payload.id) } satisfies SessionUser;
+}
+
+export function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.get("cookie");
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const eq = part.indexOf("=");
+    if (eq < 0) continue;
+    if (part.slice(0, eq).trim() !== name) continue;
+    try {
+      return decodeURIComponent(part.slice(eq + 1).trim());
+    } catch {
+      // Malformed percent-escapes: treat the cookie as absent.
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+export function cookieOptions(req: Request, maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    // Plain http only in local development.
+    secure: new URL(req.url).protocol === "https:",
+    path: "/",
+    maxAge,
+  };
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { AuthMode } from "./config";
+import type { StoredKeyName } from "./keyStore";
+import type { SessionUser } from "./session";
+
+export interface AuthSessionInfo {
+  mode: AuthMode;
+  user: SessionUser | null;
+  // Whether the server accepts keys typed into the browser (development only).
+  allowHeaderKeys: boolean;
+}
+
+export type SavedKeys = Record<StoredKeyName, boolean>;
+
+/**
+ * Client view of /api/auth/session and /api/keys: who is signed in, which API keys are saved
+ * server-side, and actions to save keys or sign out.
+ */
+export function useAuthSession() {
+  const [session, setSession] = useState<AuthSessionInfo | null>(null);
+  const [savedKeys, setSavedKeys] = useState<SavedKeys | null>(null);
+  const [keyScope, setKeyScope] = useState<"user" | "workspace">("user");
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const resp = await fetch("/api/auth/session", { cache: "no-store" });
+        const data = (await resp.json()) as AuthSessionInfo | { error?: string };
+        if (!resp.ok || !("mode" in data)) {
+          throw new Error(("error" in data && data.error) || "Failed to load session.");
+        }
+        if (cancelled) return;
+        setSession(data);
+        if (!data.user) return;
+        const keysResp = await fetch("/api/keys", { cache: "no-store" });
+        if (!keysResp.ok || cancelled) return;
+        const keys = (await keysResp.json()) as { keys: SavedKeys; scope: "user" | "workspace" };
+        setSavedKeys(keys.keys);
+        setKeyScope(keys.scope);
+      } catch (e) {
+        if (!cancelled) setLastError(e instanceof Error ? e.message : "Failed to load session.");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // null removes a key; omitted keys stay as they are.
+  const saveKeys = useCallback(async (keys: Partial<Record<StoredKeyName, string | null>>) => {
+    setLastError(null);
+    try {
+      const resp = await fetch("/api/keys", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(keys),
+      });
+      const data = (await resp.json()) as { keys?: SavedKeys; error?: string };
+      if (!resp.ok || !data.keys) throw new Error(data.error || "Failed to save keys.");
+      setSavedKeys(data.keys);
+      return true;
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : "Failed to save keys.");
+      return false;
+    }
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    window.location.assign("/login");
+  }, []);
+
+  return { session, savedKeys, keyScope, lastError, saveKeys, signOut };
+}
@@ -0,0 +1,12 @@
+export function downloadFile(filename: string, content: BlobPart, mime: string) {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a tick to start the download before revoking.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
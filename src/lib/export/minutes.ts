@@ -0,0 +1,52 @@
+import { languageLabel } from "@/lib/languages";
+import type { MeetingSession } from "@/lib/meetings/types";
+import type { MeetingMinutes } from "@/lib/minutes/types";
+import { exportBaseName } from "./transcript";
+
+export type MinutesExportInput = Pick<MeetingSession, "name" | "startedAt" | "endedAt">;
+
+function list(items: string[], empty: string): string[] {
+  return items.length ? items.map((item) => `- ${item}`) : [`_${empty}_`];
+}
+
+export function minutesToMarkdown(minutes: MeetingMinutes, meeting: MinutesExportInput): string {
+  const start = new Date(meeting.startedAt).toLocaleString();
+  const date = meeting.endedAt
+    ? `${start} – ${new Date(meeting.endedAt).toLocaleTimeString()}`
+    : start;
+  const lines = [
+    `# Minutes: ${meeting.name}`,
+    "",
+    `- Date: ${date}`,
+    `- Language: ${languageLabel(minutes.lang)}`,
+    "",
+    "## Overview",
+    "",
+    minutes.overview || "_No overview._",
+    "",
+    "## Decisions",
+    "",
+    ...list(minutes.decisions, "No decisions recorded."),
+    "",
+    "## Action items",
+    "",
+  ];
+  if (minutes.actionItems.length) {
+    for (const a of minutes.actionItems) {
+      const details = [a.owner && `owner: ${a.owner}`, a.due && `due: ${a.due}`].filter(Boolean);
+      lines.push(`- [ ] ${a.task}${details.length ? ` (${details.join(", ")})` : ""}`);
+    }
+  } else {
+    lines.push("_No action items._");
+  }
+  lines.push("", "## Open questions", "", ...list(minutes.openQuestions, "No open questions."));
+  return `${lines.join("\n")}\n`;
+}
+
+export function exportMinutes(minutes: MeetingMinutes, meeting: MinutesExportInput) {
+  return {
+    filename: `${exportBaseName(meeting.name)}-minutes.md`,
+    content: minutesToMarkdown(minutes, meeting),
+    mime: "text/markdown;charset=utf-8",
+  };
+}
@@ -0,0 +1,199 @@
+import { speakerLabel, type MeetingSession } from "@/lib/meetings/types";
+
+export type TranscriptExportFormat = "srt" | "vtt" | "md" | "html";
+
+export type TranscriptExportInput = Pick<
+  MeetingSession,
+  | "name"
+  | "startedAt"
+  | "endedAt"
+  | "inputLang"
+  | "targetLangs"
+  | "segments"
+  | "translations"
+  | "summary"
+  | "speakers"
+>;
+
+interface Cue {
+  startMs: number;
+  endMs: number;
+  original: string;
+  // Display name, when the segment has a speaker.
+  speaker?: string;
+  // One entry per target language, in targetLangs order ("" when missing).
+  translations: string[];
+}
+
+// Segments only carry their commit time, so a cue runs from the previous commit
+// (or connection start) up to its own commit, capped to keep subtitles readable.
+const MAX_CUE_MS = 10_000;
+const MIN_CUE_MS = 1_000;
+
+function buildCues(input: TranscriptExportInput): Cue[] {
+  const byKey = new Map(input.translations.map((t) => [`${t.sourceId}:${t.lang}`, t.text]));
+  const cues: Cue[] = [];
+  let prevEnd = 0;
+  for (const seg of input.segments) {
+    const endMs = Math.max(prevEnd + MIN_CUE_MS, seg.createdAt - input.startedAt);
+    const startMs = Math.max(prevEnd, endMs - MAX_CUE_MS);
+    cues.push({
+      startMs,
+      endMs,
+      original: seg.text,
+      speaker: seg.speaker ? speakerLabel(seg.speaker, input.speakers) : undefined,
+      translations: input.targetLangs.map((lang) => byKey.get(`${seg.id}:${lang}`) ?? ""),
+    });
+    prevEnd = endMs;
+  }
+  return cues;
+}
+
+function formatTimestamp(ms: number, fractionSeparator: "," | "."): string {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3_600_000);
+  const m = Math.floor((total % 3_600_000) / 60_000);
+  const s = Math.floor((total % 60_000) / 1000);
+  const frac = total % 1000;
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+  return `${pad(h)}:${pad(m)}:${pad(s)}${fractionSeparator}${pad(frac, 3)}`;
+}
+
+// `original` is the cue's source line as the format labels speakers.
+function cueText(cue: Cue, original: string): string {
+  return [original, ...cue.translations.filter(Boolean)].join("\n");
+}
+
+export function toSrt(input: TranscriptExportInput): string {
+  return buildCues(input)
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatTimestamp(cue.startMs, ",")} --> ${formatTimestamp(cue.endMs, ",")}\n${cueText(cue, cue.speaker ? `${cue.speaker}: ${cue.original}` : cue.original)}\n`,
+    )
+    .join("\n");
+}
+
+export function toWebVtt(input: TranscriptExportInput): string {
+  const body = buildCues(input)
+    .map(
+      // "-->" is not allowed inside a cue payload.
+      // Speakers become voice spans, which players can style or show on their own.
+      (cue) =>
+        `${formatTimestamp(cue.startMs, ".")} --> ${formatTimestamp(cue.endMs, ".")}\n${cueText(
+          cue,
+          cue.speaker ? `<v ${cue.speaker.replace(/[<>]/g, "")}>${cue.original}` : cue.original,
+        ).replace(/-->/g, "->")}\n`,
+    )
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+export function formatClock(ms: number): string {
+  return formatTimestamp(ms, ".").slice(0, 8);
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function formatMeetingDate(input: TranscriptExportInput): string {
+  const start = new Date(input.startedAt).toLocaleString();
+  return input.endedAt ? `${start} – ${new Date(input.endedAt).toLocaleTimeString()}` : start;
+}
+
+export function toMarkdown(input: TranscriptExportInput): string {
+  const lines = [
+    `# ${input.name}`,
+    "",
+    `- Date: ${formatMeetingDate(input)}`,
+    `- Languages: ${input.inputLang} → ${input.targetLangs.join(", ")}`,
+    "",
+  ];
+  if (input.summary) {
+    lines.push("## Summary", "", input.summary, "");
+  }
+  const cues = buildCues(input);
+  const hasSpeakers = cues.some((c) => c.speaker);
+  lines.push(
+    "## Transcript",
+    "",
+    `| Time |${hasSpeakers ? " Speaker |" : ""} Original (${input.inputLang}) | ${input.targetLangs.map((l) => `Translation (${l})`).join(" | ")} |`,
+    `| --- |${hasSpeakers ? " --- |" : ""} --- | ${input.targetLangs.map(() => "---").join(" | ")} |`,
+  );
+  for (const cue of cues) {
+    lines.push(
+      `| ${formatClock(cue.startMs)} |${hasSpeakers ? ` ${escapeMarkdownCell(cue.speaker ?? "")} |` : ""} ${escapeMarkdownCell(cue.original)} | ${cue.translations.map(escapeMarkdownCell).join(" | ")} |`,
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Plain, inline-styled HTML: opens cleanly in a browser and imports into Word / Google Docs.
+ */
+export function toHtml(input: TranscriptExportInput): string {
+  const cues = buildCues(input);
+  const hasSpeakers = cues.some((c) => c.speaker);
+  const rows = cues
+    .map(
+      (cue) =>
+        `<tr><td style="white-space:nowrap;color:#666">${formatClock(cue.startMs)}</td>` +
+        (hasSpeakers ? `<td style="white-space:nowrap">${escapeHtml(cue.speaker ?? "")}</td>` : "") +
+        `<td>${escapeHtml(cue.original)}</td>` +
+        cue.translations.map((t) => `<td>${escapeHtml(t)}</td>`).join("") +
+        "</tr>",
+    )
+    .join("\n");
+
+  const summary = input.summary
+    ? `<h2>Summary</h2>\n<p style="white-space:pre-wrap">${escapeHtml(input.summary)}</p>\n`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(input.name)}</title>
+</head>
+<body style="font-family:Arial,Helvetica,sans-serif;font-size:11pt">
+<h1>${escapeHtml(input.name)}</h1>
+<p>${escapeHtml(formatMeetingDate(input))} · ${escapeHtml(input.inputLang)} → ${escapeHtml(input.targetLangs.join(", "))}</p>
+${summary}<h2>Transcript</h2>
+<table border="1" cellpadding="4" cellspacing="0" style="border-collapse:collapse;width:100%">
+<thead><tr><th>Time</th>${hasSpeakers ? "<th>Speaker</th>" : ""}<th>Original</th>${input.targetLangs.map((l) => `<th>Translation (${escapeHtml(l)})</th>`).join("")}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+const EXPORTERS: Record<TranscriptExportFormat, { render: (i: TranscriptExportInput) => string; mime: string }> = {
+  srt: { render: toSrt, mime: "application/x-subrip" },
+  vtt: { render: toWebVtt, mime: "text/vtt" },
+  md: { render: toMarkdown, mime: "text/markdown" },
+  html: { render: toHtml, mime: "text/html" },
+};
+
+export function exportBaseName(meetingName: string): string {
+  return meetingName.replace(/[\\/:*?"<>|]+/g, "-").trim() || "meeting";
+}
+
+export function exportTranscript(input: TranscriptExportInput, format: TranscriptExportFormat) {
+  const { render, mime } = EXPORTERS[format];
+  return {
+    filename: `${exportBaseName(input.name)}.${format}`,
+    content: render(input),
+    mime: `${mime};charset=utf-8`,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Single source of truth for supported languages. Drives the UI selectors, the
+ * /api/translate validation, the Scribe language hint and the translation tone rules.
+ */
+
+export interface LanguageDefinition {
+  // ISO-639-1; also what the UI stores and what the translate API speaks.
+  code: string;
+  name: string;
+  // Language code sent to ElevenLabs Scribe (ISO-639-1 or ISO-639-3).
+  scribeCode: string;
+  // DeepL target_lang, where DeepL supports the language.
+  deeplTarget?: string;
+  // Register/tone guidance for the interpreter prompt when translating INTO this language.
+  tone: string;
+}
+
+export const LANGUAGES = [
+  {
+    code: "en",
+    name: "English",
+    scribeCode: "en",
+    deeplTarget: "EN-US",
+    tone: "professional tone",
+  },
+  {
+    code: "ja",
+    name: "Japanese",
+    scribeCode: "ja",
+    deeplTarget: "JA",
+    tone: "polite business Japanese (desu/masu, keigo where appropriate)",
+  },
+  {
+    code: "ko",
+    name: "Korean",
+    scribeCode: "ko",
+    deeplTarget: "KO",
+    tone: "natural business Korean (합니다/해요체)",
+  },
+  {
+    code: "zh",
+    name: "Chinese (Simplified)",
+    scribeCode: "cmn",
+    deeplTarget: "ZH-HANS",
+    tone: "clear, polite Mandarin in Simplified Chinese characters",
+  },
+  {
+    code: "es",
+    name: "Spanish",
+    scribeCode: "es",
+    deeplTarget: "ES",
+    tone: "professional Spanish using usted",
+  },
+  {
+    code: "fr",
+    name: "French",
+    scribeCode: "fr",
+    deeplTarget: "FR",
+    tone: "professional French using vous",
+  },
+  {
+    code: "de",
+    name: "German",
+    scribeCode: "de",
+    deeplTarget: "DE",
+    tone: "professional German using Sie",
+  },
+  {
+    code: "pt",
+    name: "Portuguese",
+    scribeCode: "pt",
+    deeplTarget: "PT-BR",
+    tone: "professional Portuguese",
+  },
+  {
+    code: "vi",
+    name: "Vietnamese",
+    scribeCode: "vi",
+    tone: "polite business Vietnamese with appropriate pronouns (anh/chị/quý vị)",
+  },
+  {
+    code: "th",
+    name: "Thai",
+    scribeCode: "th",
+    tone: "polite business Thai with polite particles (ครับ/ค่ะ)",
+  },
+  {
+    code: "id",
+    name: "Indonesian",
+    scribeCode: "id",
+    deeplTarget: "ID",
+    tone: "formal Indonesian (Bapak/Ibu)",
+  },
+] as const satisfies readonly LanguageDefinition[];
+
+export type LanguageCode = (typeof LANGUAGES)[number]["code"];
+export type LanguageOption = "auto" | LanguageCode;
+export type DetectedLanguage = LanguageCode | "other";
+
+const BY_CODE = new Map<string, LanguageDefinition>(LANGUAGES.map((l) => [l.code, l]));
+
+export const LANGUAGE_CODES: LanguageCode[] = LANGUAGES.map((l) => l.code);
+
+export function isLanguageCode(v: unknown): v is LanguageCode {
+  return typeof v === "string" && BY_CODE.has(v);
+}
+
+export function isLanguageOption(v: unknown): v is LanguageOption {
+  return v === "auto" || isLanguageCode(v);
+}
+
+export function getLanguage(code: LanguageCode): LanguageDefinition {
+  return BY_CODE.get(code)!;
+}
+
+export function languageLabel(option: LanguageOption): string {
+  return option === "auto" ? "Auto" : getLanguage(option).name;
+}
@@ -0,0 +1,133 @@
+/**
+ * Rate limits and daily quotas (all optional; 0 turns a limit off):
+ * - RATE_LIMIT_PER_CLIENT: requests per minute per client IP, e.g.
+ *   `translate=300,scribe-token=20,tts=60,minutes=10` (unlisted buckets keep their defaults);
+ *   only applies with TRUST_PROXY, since otherwise there is no client IP to tell clients apart
+ * - RATE_LIMIT_PER_USER: the same per signed-in user (defaults to the per-client limits)
+ * - QUOTA_DAILY_REQUESTS: translate, text-to-speech and minutes requests per day
+ * - QUOTA_DAILY_CHARACTERS: characters sent to translation, text-to-speech and minutes per day
+ * - QUOTA_DAILY_AUDIO_MINUTES: minutes of audio streamed for transcription per day
+ * - QUOTA_AUDIO_MINUTES_PER_TOKEN: audio minutes charged up front for every Scribe token
+ *   (default 10), since the browser streams to ElevenLabs directly
+ * - TRUST_PROXY: where the client IP comes from — the number of reverse proxies in front of the
+ *   app (read from X-Forwarded-For) or `x-real-ip`; unset, all clients share one address for
+ *   quotas and there is no per-client rate limit
+ *
+ * Quotas count per signed-in user, or per client IP while sign-in is off. Days are UTC.
+ */
+export type RateLimitBucket = "translate" | "scribe-token" | "tts" | "minutes";
+
+export const RATE_LIMIT_BUCKETS: RateLimitBucket[] = [
+  "translate",
+  "scribe-token",
+  "tts",
+  "minutes",
+];
+
+export interface DailyQuotas {
+  requests: number;
+  characters: number;
+  audioSeconds: number;
+}
+
+// Forwarded headers are only believed when a proxy we run sets them.
+export type TrustProxy = { kind: "none" } | { kind: "hops"; hops: number } | { kind: "real-ip" };
+
+export interface LimitsConfig {
+  // Requests per minute; 0 = unlimited.
+  perClient: Record<RateLimitBucket, number>;
+  perUser: Record<RateLimitBucket, number>;
+  daily: DailyQuotas;
+  audioSecondsPerToken: number;
+  trustProxy: TrustProxy;
+}
+
+export type ResolvedLimitsConfig =
+  { ok: true; config: LimitsConfig } | { ok: false; error: string };
+
+// Partial translations run per output language while someone speaks: hundreds a minute is normal.
+const DEFAULT_PER_MINUTE: Record<RateLimitBucket, number> = {
+  translate: 300,
+  "scribe-token": 20,
+  tts: 60,
+  minutes: 10,
+};
+const DEFAULT_AUDIO_MINUTES_PER_TOKEN = 10;
+
+function isBucket(v: string): v is RateLimitBucket {
+  return (RATE_LIMIT_BUCKETS as string[]).includes(v);
+}
+
+function parseCount(name: string, raw: string | undefined): number | string {
+  const value = raw?.trim();
+  if (!value) return 0;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) return `${name} must be a non-negative number.`;
+  return n;
+}
+
+function parseRates(
+  name: string,
+  raw: string | undefined,
+  defaults: Record<RateLimitBucket, number>,
+): Record<RateLimitBucket, number> | string {
+  const rates = { ...defaults };
+  for (const entry of (raw ?? "").split(",")) {
+    if (!entry.trim()) continue;
+    const [bucket, value] = entry.split("=").map((s) => s.trim().toLowerCase());
+    if (!bucket || !isBucket(bucket)) {
+      return `${name}: unknown bucket "${bucket}" (use ${RATE_LIMIT_BUCKETS.join(", ")}).`;
+    }
+    const n = value ? parseCount(name, value) : `${name}: "${entry.trim()}" needs a value.`;
+    if (typeof n === "string") return n;
+    rates[bucket] = n;
+  }
+  return rates;
+}
+
+function parseTrustProxy(raw: string | undefined): TrustProxy | string {
+  const value = raw?.trim().toLowerCase();
+  if (!value || value === "0" || value === "false") return { kind: "none" };
+  if (value === "x-real-ip") return { kind: "real-ip" };
+  const hops = Number(value);
+  if (!Number.isInteger(hops) || hops < 1) {
+    return "TRUST_PROXY must be the number of proxies in front of the app, or x-real-ip.";
+  }
+  return { kind: "hops", hops };
+}
+
+export function resolveLimitsConfig(): ResolvedLimitsConfig {
+  const perClient = parseRates(
+    "RATE_LIMIT_PER_CLIENT",
+    process.env.RATE_LIMIT_PER_CLIENT,
+    DEFAULT_PER_MINUTE,
+  );
+  if (typeof perClient === "string") return { ok: false, error: perClient };
+
+  const perUser = parseRates("RATE_LIMIT_PER_USER", process.env.RATE_LIMIT_PER_USER, perClient);
+  if (typeof perUser === "string") return { ok: false, error: perUser };
+
+  const daily: DailyQuotas = { requests: 0, characters: 0, audioSeconds: 0 };
+  for (const [name, key, scale] of [
+    ["QUOTA_DAILY_REQUESTS", "requests", 1],
+    ["QUOTA_DAILY_CHARACTERS", "characters", 1],
+    ["QUOTA_DAILY_AUDIO_MINUTES", "audioSeconds", 60],
+  ] as const) {
+    const n = parseCount(name, process.env[name]);
+    if (typeof n === "string") return { ok: false, error: n };
+    daily[key] = n * scale;
+  }
+
+  const perToken = process.env.QUOTA_AUDIO_MINUTES_PER_TOKEN?.trim()
+    ? parseCount("QUOTA_AUDIO_MINUTES_PER_TOKEN", process.env.QUOTA_AUDIO_MINUTES_PER_TOKEN)
+    : DEFAULT_AUDIO_MINUTES_PER_TOKEN;
+  if (typeof perToken === "string") return { ok: false, error: perToken };
+
+  const trustProxy = parseTrustProxy(process.env.TRUST_PROXY);
+  if (typeof trustProxy === "string") return { ok: false, error: trustProxy };
+
+  return {
+    ok: true,
+    config: { perClient, perUser, daily, audioSecondsPerToken: perToken * 60, trustProxy },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * A failed response from one of our API routes, with its HTTP status and whatever the route
+ * added about the cause (an upstream error body, an unparseable model reply).
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details?: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Client side of the 429 responses sent by the rate-limited routes.
+ */
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    // How long the server asked us to wait before trying again.
+    readonly retryAfterMs: number,
+  ) {
+    super(message, 429);
+    this.name = "RateLimitError";
+  }
+}
+
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+/** Error body of our routes; provider failures add `details` or the model's `raw` reply. */
+export interface ApiErrorBody {
+  error?: string;
+  details?: string;
+  raw?: string;
+}
+
+export function errorBodyDetails(data: ApiErrorBody | null): string | undefined {
+  const details = [data?.details, data?.raw].find((v) => typeof v === "string" && v.trim());
+  return details?.trim();
+}
+
+/** Builds the Error for a failed API response; 429s become a RateLimitError. */
+export function apiError(resp: Response, data: ApiErrorBody | null, fallback: string): ApiError {
+  const message = typeof data?.error === "string" && data.error ? data.error : fallback;
+  if (resp.status !== 429) return new ApiError(message, resp.status, errorBodyDetails(data));
+  const seconds = Number(resp.headers.get("retry-after"));
+  return new RateLimitError(
+    message,
+    Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_RETRY_AFTER_MS,
+  );
+}
+
+/** A caught error as shown to the user. */
+export interface ErrorInfo {
+  message: string;
+  details?: string;
+}
+
+export function describeError(e: unknown, fallback: string): ErrorInfo {
+  const message = e instanceof Error && e.message ? e.message : fallback;
+  const details = e instanceof ApiError ? e.details : undefined;
+  return details ? { message, details } : { message };
+}
@@ -0,0 +1,239 @@
+import { NextResponse } from "next/server";
+import { getSessionUser, resolveAuthConfig } from "@/lib/auth";
+import {
+  resolveLimitsConfig,
+  type DailyQuotas,
+  type RateLimitBucket,
+  type TrustProxy,
+} from "./config";
+
+export { resolveLimitsConfig, RATE_LIMIT_BUCKETS } from "./config";
+export type { DailyQuotas, LimitsConfig, RateLimitBucket, TrustProxy } from "./config";
+
+/**
+ * In-memory rate limits (token buckets, refilled per minute) and daily quotas, keyed by client
+ * IP and signed-in user. Like the share relay this lives in the server process, so the limits
+ * hold per Next.js instance and reset on restart.
+ */
+
+export interface LimitCharge {
+  // Rate-limited bucket; omit to only charge the daily quota.
+  bucket?: RateLimitBucket;
+  requests?: number;
+  characters?: number;
+  // A Scribe token: prepays QUOTA_AUDIO_MINUTES_PER_TOKEN against the daily audio quota.
+  audioToken?: boolean;
+}
+
+// retryAfterSeconds is missing when the limits themselves are misconfigured.
+export type LimitResult = { ok: true } | { ok: false; error: string; retryAfterSeconds?: number };
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface DailyUsage extends DailyQuotas {
+  day: string;
+  // Prepaid with Scribe tokens and not yet reported as streamed.
+  audioCreditSeconds: number;
+}
+
+interface LimitState {
+  buckets: Map<string, TokenBucket>;
+  daily: Map<string, DailyUsage>;
+  prunedAt: number;
+}
+
+const PRUNE_EVERY_MS = 60_000;
+
+// Kept on globalThis so dev-mode module reloads don't reset the counters.
+const globalForLimits = globalThis as typeof globalThis & { __t3Limits?: LimitState };
+const state = (globalForLimits.__t3Limits ??= {
+  buckets: new Map(),
+  daily: new Map(),
+  prunedAt: 0,
+});
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilTomorrow(now: number): number {
+  const d = new Date(now);
+  const midnight = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+  return Math.ceil((midnight - now) / 1000);
+}
+
+function prune(now: number) {
+  if (now - state.prunedAt < PRUNE_EVERY_MS) return;
+  state.prunedAt = now;
+  // A bucket idle for a minute is full again; yesterday's usage no longer matters.
+  for (const [key, b] of state.buckets) if (now - b.updatedAt > 60_000) state.buckets.delete(key);
+  const today = utcDay(now);
+  for (const [key, u] of state.daily) if (u.day !== today) state.daily.delete(key);
+}
+
+/**
+ * The client address as reported by our own reverse proxies (TRUST_PROXY). Clients can send
+ * these headers too, so without a trusted proxy every client shares one address: otherwise
+ * anyone could pick their own bucket.
+ */
+export function clientAddress(req: Request, trust: TrustProxy): string {
+  if (trust.kind === "real-ip") return req.headers.get("x-real-ip")?.trim() || "unknown";
+  if (trust.kind === "none") return "shared";
+  // Each proxy appends the address it was reached from; hops further left are the client's word.
+  const hops = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return hops[hops.length - trust.hops] || "unknown";
+}
+
+// Quotas count per user, else per client. The per-client rate limit also applies to signed-in
+// users. Without a trusted proxy there is no per-client rate limit at all: everyone would share
+// the one address, and a few meetings at once would use up its budget.
+function limitKeys(
+  req: Request,
+  trust: TrustProxy,
+): { quota: string; client: string | null; user: string | null } {
+  const auth = resolveAuthConfig();
+  const user = auth.ok ? getSessionUser(req, auth.config) : null;
+  const address = `ip:${clientAddress(req, trust)}`;
+  const client = trust.kind === "none" ? null : address;
+  if (!user) return { quota: address, client, user: null };
+  return { quota: `user:${user.id}`, client, user: `user:${user.id}` };
+}
+
+// Refills `perMinute` tokens a minute; returns the wait in seconds when the bucket is empty.
+function takeToken(key: string, perMinute: number, now: number): number {
+  const b = state.buckets.get(key) ?? { tokens: perMinute, updatedAt: now };
+  const tokens = Math.min(perMinute, b.tokens + ((now - b.updatedAt) / 60_000) * perMinute);
+  if (tokens < 1) {
+    state.buckets.set(key, { tokens, updatedAt: now });
+    return Math.max(1, Math.ceil(((1 - tokens) / perMinute) * 60));
+  }
+  state.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+  return 0;
+}
+
+function usageFor(key: string, now: number): DailyUsage {
+  const day = utcDay(now);
+  let usage = state.daily.get(key);
+  if (!usage || usage.day !== day) {
+    usage = { day, requests: 0, characters: 0, audioSeconds: 0, audioCreditSeconds: 0 };
+    state.daily.set(key, usage);
+  }
+  return usage;
+}
+
+function quotaError(kind: keyof DailyQuotas, now: number): LimitResult {
+  const what =
+    kind === "audioSeconds"
+      ? "audio minutes"
+      : kind === "characters"
+        ? "translation characters"
+        : "requests";
+  return {
+    ok: false,
+    error: `Daily quota of ${what} used up; it resets at midnight UTC.`,
+    retryAfterSeconds: secondsUntilTomorrow(now),
+  };
+}
+
+/**
+ * Checks the rate limits of `charge.bucket` and the daily quotas, and records the charge when
+ * everything passes. Nothing is recorded for a denied request.
+ */
+export function chargeLimits(req: Request, charge: LimitCharge): LimitResult {
+  const resolved = resolveLimitsConfig();
+  if (!resolved.ok) return { ok: false, error: resolved.error };
+  const { config } = resolved;
+  const now = Date.now();
+  prune(now);
+
+  const keys = limitKeys(req, config.trustProxy);
+  const usage = usageFor(keys.quota, now);
+  const requests = charge.requests ?? 0;
+  const characters = charge.characters ?? 0;
+  const { daily } = config;
+  if (daily.requests && requests && usage.requests + requests > daily.requests) {
+    return quotaError("requests", now);
+  }
+  if (daily.characters && characters && usage.characters + characters > daily.characters) {
+    return quotaError("characters", now);
+  }
+  // Minting a Scribe token only makes sense while there are audio minutes left.
+  if (
+    charge.bucket === "scribe-token" &&
+    daily.audioSeconds &&
+    usage.audioSeconds >= daily.audioSeconds
+  ) {
+    return quotaError("audioSeconds", now);
+  }
+
+  if (charge.bucket) {
+    const perClient = config.perClient[charge.bucket];
+    const perUser = config.perUser[charge.bucket];
+    const wait = Math.max(
+      keys.client && perClient ? takeToken(`${charge.bucket}:${keys.client}`, perClient, now) : 0,
+      keys.user && perUser ? takeToken(`${charge.bucket}:${keys.user}`, perUser, now) : 0,
+    );
+    if (wait > 0) {
+      return { ok: false, error: "Too many requests; slow down.", retryAfterSeconds: wait };
+    }
+  }
+
+  usage.requests += requests;
+  usage.characters += characters;
+  if (charge.audioToken) {
+    usage.audioSeconds += config.audioSecondsPerToken;
+    usage.audioCreditSeconds += config.audioSecondsPerToken;
+  }
+  return { ok: true };
+}
+
+/**
+ * Adds audio streamed for transcription: `metered` by the streaming proxy, or `reported` by the
+ * browser while it streams to Scribe directly. Reports only count beyond what the session's
+ * tokens prepaid, so a client that never reports still pays for its tokens. The audio has
+ * already been sent, so it is always recorded; the result says whether to stop streaming.
+ */
+export function recordAudioUsage(
+  req: Request,
+  seconds: number,
+  source: "metered" | "reported",
+): LimitResult {
+  const resolved = resolveLimitsConfig();
+  if (!resolved.ok) return { ok: false, error: resolved.error };
+  const now = Date.now();
+  prune(now);
+
+  const keys = limitKeys(req, resolved.config.trustProxy);
+  const usage = usageFor(keys.quota, now);
+  const prepaid = source === "reported" ? Math.min(seconds, usage.audioCreditSeconds) : 0;
+  usage.audioCreditSeconds -= prepaid;
+  usage.audioSeconds += seconds - prepaid;
+  const quota = resolved.config.daily.audioSeconds;
+  return quota && usage.audioSeconds >= quota ? quotaError("audioSeconds", now) : { ok: true };
+}
+
+/** JSON error response for a denied LimitResult: 429 with Retry-After, or 500 for bad config. */
+export function limitErrorResponse(result: Extract<LimitResult, { ok: false }>): NextResponse {
+  if (result.retryAfterSeconds === undefined) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+  return NextResponse.json(
+    { error: result.error, retryAfterSeconds: result.retryAfterSeconds },
+    {
+      status: 429,
+      headers: { "Retry-After": String(result.retryAfterSeconds) },
+    },
+  );
+}
+
+/** Charges a request and returns the error response to send, or null to go ahead. */
+export function checkLimits(req: Request, charge: LimitCharge): NextResponse | null {
+  const result = chargeLimits(req, charge);
+  return result.ok ? null : limitErrorResponse(result);
+}
@@ -0,0 +1,131 @@
+import { isLanguageCode, type LanguageCode } from "@/lib/languages";
+import type { MeetingSession } from "./types";
+
+const DB_NAME = "t3.meetings";
+const DB_VERSION = 2;
+const MEETINGS_STORE = "meetings";
+// v2: MediaRecorder chunks, one record per timeslice, appended while the meeting runs.
+const RECORDING_CHUNKS_STORE = "recordingChunks";
+
+interface RecordingChunkRecord {
+  seq?: number; // auto-increment key, keeps chunks in recording order
+  meetingId: string;
+  mimeType: string;
+  data: Blob;
+}
+
+// Meetings saved before multi-target translation had a single `targetLang`
+// and translations without `lang`.
+type StoredMeeting = Omit<MeetingSession, "targetLangs" | "translations"> & {
+  targetLangs?: LanguageCode[];
+  targetLang?: string;
+  translations: Array<Omit<MeetingSession["translations"][number], "lang"> & { lang?: LanguageCode }>;
+};
+
+function fromStored(m: StoredMeeting): MeetingSession {
+  const { targetLang, ...rest } = m;
+  const targetLangs = m.targetLangs?.length
+    ? m.targetLangs
+    : [isLanguageCode(targetLang) ? targetLang : "en"];
+  return {
+    ...rest,
+    targetLangs,
+    translations: m.translations.map((t) => ({ ...t, lang: t.lang ?? targetLangs[0]! })),
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(MEETINGS_STORE)) {
+        db.createObjectStore(MEETINGS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(RECORDING_CHUNKS_STORE)) {
+        const chunks = db.createObjectStore(RECORDING_CHUNKS_STORE, { keyPath: "seq", autoIncrement: true });
+        chunks.createIndex("meetingId", "meetingId");
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Failed to open IndexedDB."));
+  });
+  // Allow a retry on the next call if opening failed (e.g. private mode quirks).
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed."));
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted."));
+  });
+}
+
+export async function listMeetings(): Promise<MeetingSession[]> {
+  const all = await run<StoredMeeting[]>(MEETINGS_STORE, "readonly", (s) => s.getAll());
+  return all.map(fromStored).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getMeeting(id: string): Promise<MeetingSession | null> {
+  const m = await run<StoredMeeting | undefined>(MEETINGS_STORE, "readonly", (s) => s.get(id));
+  return m ? fromStored(m) : null;
+}
+
+export async function putMeeting(meeting: MeetingSession): Promise<void> {
+  await run(MEETINGS_STORE, "readwrite", (s) => s.put(meeting));
+}
+
+export async function deleteMeeting(id: string): Promise<void> {
+  await run(MEETINGS_STORE, "readwrite", (s) => s.delete(id));
+  await deleteRecording(id);
+}
+
+export async function appendRecordingChunk(meetingId: string, data: Blob, mimeType: string): Promise<void> {
+  const record: RecordingChunkRecord = { meetingId, mimeType, data };
+  await run(RECORDING_CHUNKS_STORE, "readwrite", (s) => s.add(record));
+}
+
+/**
+ * Reassembles the recording of a meeting, or null if nothing was recorded.
+ */
+export async function getRecording(meetingId: string): Promise<Blob | null> {
+  const chunks = await run<RecordingChunkRecord[]>(RECORDING_CHUNKS_STORE, "readonly", (s) =>
+    s.index("meetingId").getAll(meetingId),
+  );
+  if (!chunks.length) return null;
+  chunks.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  return new Blob(
+    chunks.map((c) => c.data),
+    { type: chunks[0]!.mimeType },
+  );
+}
+
+export async function deleteRecording(meetingId: string): Promise<void> {
+  const keys = await run<IDBValidKey[]>(RECORDING_CHUNKS_STORE, "readonly", (s) =>
+    s.index("meetingId").getAllKeys(meetingId),
+  );
+  if (!keys.length) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(RECORDING_CHUNKS_STORE, "readwrite");
+    const store = tx.objectStore(RECORDING_CHUNKS_STORE);
+    for (const key of keys) store.delete(key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed."));
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted."));
+  });
+}
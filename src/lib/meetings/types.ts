@@ -0,0 +1,70 @@
+import type { DetectedLanguage, LanguageCode } from "@/lib/languages";
+import type { MeetingMinutes } from "@/lib/minutes/types";
+import type { LanguageOption, TranscriptLine } from "@/lib/realtime/useRealtimeScribe";
+import type { GlossaryViolation } from "@/lib/translate/glossary";
+
+export interface TranslatedLine {
+  id: string;
+  sourceId: string;
+  lang: LanguageCode;
+  text: string;
+  createdAt: number;
+  // Glossary rules the translation broke, as flagged by /api/translate.
+  glossaryViolations?: GlossaryViolation[];
+}
+
+// Why a committed line has no translation, or what it took to get one.
+export type LineOutcome =
+  | { status: "ignored"; detectedLanguage: DetectedLanguage }
+  | { status: "empty" }
+  | { status: "retried"; failures: number };
+
+/**
+ * One Start/Stop run, persisted in IndexedDB.
+ */
+export interface MeetingSession {
+  id: string;
+  name: string;
+  inputLang: LanguageOption;
+  targetLangs: LanguageCode[];
+  // Connection start / stop. endedAt stays undefined if the tab died mid-meeting.
+  startedAt: number;
+  endedAt?: number;
+  updatedAt: number;
+  // Set once the first audio chunk was stored (see appendRecordingChunk).
+  recordingMimeType?: string;
+  segments: TranscriptLine[];
+  translations: TranslatedLine[];
+  summary: string;
+  // Keyed by TranslatedLine.id; only lines with something to explain. Missing in older meetings.
+  lineOutcomes?: Record<string, LineOutcome>;
+  // Display names for TranscriptLine.speaker ids, as renamed by the user.
+  speakers?: Record<string, string>;
+  // Generated on demand after the meeting (see /api/minutes).
+  minutes?: MeetingMinutes;
+}
+
+export function speakerLabel(speaker: string, names?: Record<string, string>): string {
+  return names?.[speaker] || `Speaker ${speaker}`;
+}
+
+/**
+ * What the history sidebar needs, without the (potentially large) transcript.
+ */
+export type MeetingListItem = Omit<MeetingSession, "segments" | "translations" | "summary" | "lineOutcomes" | "speakers" | "minutes"> & {
+  segmentCount: number;
+};
+
+export function toMeetingListItem(m: MeetingSession): MeetingListItem {
+  return {
+    id: m.id,
+    name: m.name,
+    inputLang: m.inputLang,
+    targetLangs: m.targetLangs,
+    startedAt: m.startedAt,
+    endedAt: m.endedAt,
+    updatedAt: m.updatedAt,
+    recordingMimeType: m.recordingMimeType,
+    segmentCount: m.segments.length,
+  };
+}
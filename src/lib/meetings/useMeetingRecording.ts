@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { downsampleFloat32ToInt16PCM, encodeWav } from "@/lib/audio/pcm";
+import { downloadFile } from "@/lib/export/download";
+import { appendRecordingChunk, getRecording } from "./db";
+
+export type RecordingDownloadFormat = "original" | "wav";
+
+// WAV exports are speech-grade: mono, same rate we stream to Scribe.
+const WAV_SAMPLE_RATE = 16000;
+
+function extensionForMime(mime: string): string {
+  if (mime.includes("ogg")) return "ogg";
+  if (mime.includes("mp4")) return "m4a";
+  return "webm";
+}
+
+async function toWav(blob: Blob): Promise<ArrayBuffer> {
+  // decodeAudioData resamples to the context rate, so decode straight to 16 kHz.
+  const ctx = new OfflineAudioContext(1, 1, WAV_SAMPLE_RATE);
+  const decoded = await ctx.decodeAudioData(await blob.arrayBuffer());
+  const pcm = downsampleFloat32ToInt16PCM(decoded.getChannelData(0), decoded.sampleRate, WAV_SAMPLE_RATE);
+  return encodeWav(pcm, WAV_SAMPLE_RATE);
+}
+
+function waitForMetadata(audio: HTMLAudioElement): Promise<void> {
+  if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    audio.addEventListener("loadedmetadata", () => resolve(), { once: true });
+    audio.addEventListener("error", () => reject(new Error("Failed to load recording.")), { once: true });
+  });
+}
+
+/**
+ * MediaRecorder writes WebM without a duration or cues, so seeks into it land in the wrong place
+ * (or nowhere) until the browser has scanned the file. Seeking past the end makes it do that and
+ * report the real duration; after that, `currentTime` seeks are exact.
+ */
+function resolveDuration(audio: HTMLAudioElement): Promise<void> {
+  if (Number.isFinite(audio.duration)) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      audio.removeEventListener("durationchange", onDurationChange);
+      audio.removeEventListener("error", onError);
+    };
+    const onDurationChange = () => {
+      if (!Number.isFinite(audio.duration)) return;
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("Failed to load recording."));
+    };
+    audio.addEventListener("durationchange", onDurationChange);
+    audio.addEventListener("error", onError);
+    audio.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+}
+
+/**
+ * Stores the meeting recording in IndexedDB and plays back / downloads parts of it.
+ * While the meeting is live the recording keeps growing, so it is re-read on every play.
+ */
+export function useMeetingRecording(meetingId: string | null, isLive: boolean) {
+  const [playingKey, setPlayingKey] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const meetingIdRef = useRef(meetingId);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const loadedRef = useRef<{ meetingId: string; url: string } | null>(null);
+  const stopAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    meetingIdRef.current = meetingId;
+  }, [meetingId]);
+
+  const releaseAudio = useCallback(() => {
+    audioRef.current?.pause();
+    if (loadedRef.current) URL.revokeObjectURL(loadedRef.current.url);
+    loadedRef.current = null;
+  }, []);
+
+  useEffect(() => releaseAudio, [releaseAudio]);
+
+  const appendChunk = useCallback((chunk: Blob, mimeType: string) => {
+    const id = meetingIdRef.current;
+    if (!id) return;
+    appendRecordingChunk(id, chunk, mimeType).catch((e: unknown) => {
+      setLastError(e instanceof Error ? e.message : "Failed to store recording.");
+    });
+  }, []);
+
+  const stop = useCallback(() => {
+    audioRef.current?.pause();
+    stopAtRef.current = null;
+    setPlayingKey(null);
+  }, []);
+
+  const play = useCallback(
+    async (key: string, startMs: number, endMs: number) => {
+      if (!meetingId) return;
+      setLastError(null);
+      try {
+        if (!audioRef.current) {
+          const audio = new Audio();
+          audio.ontimeupdate = () => {
+            if (stopAtRef.current != null && audio.currentTime >= stopAtRef.current) {
+              audio.pause();
+              stopAtRef.current = null;
+              setPlayingKey(null);
+            }
+          };
+          audio.onended = () => setPlayingKey(null);
+          audioRef.current = audio;
+        }
+        const audio = audioRef.current;
+
+        if (isLive || loadedRef.current?.meetingId !== meetingId) {
+          const blob = await getRecording(meetingId);
+          if (!blob) throw new Error("No recording for this meeting.");
+          releaseAudio();
+          const url = URL.createObjectURL(blob);
+          loadedRef.current = { meetingId, url };
+          audio.src = url;
+        }
+
+        stopAtRef.current = null;
+        await waitForMetadata(audio);
+        await resolveDuration(audio);
+        audio.currentTime = startMs / 1000;
+        stopAtRef.current = endMs / 1000;
+        setPlayingKey(key);
+        await audio.play();
+      } catch (e) {
+        setPlayingKey(null);
+        setLastError(e instanceof Error ? e.message : "Playback failed.");
+      }
+    },
+    [isLive, meetingId, releaseAudio],
+  );
+
+  const download = useCallback(
+    async (format: RecordingDownloadFormat, baseName: string) => {
+      if (!meetingId) return;
+      setLastError(null);
+      try {
+        const blob = await getRecording(meetingId);
+        if (!blob) throw new Error("No recording for this meeting.");
+        if (format === "wav") {
+          downloadFile(`${baseName}.wav`, await toWav(blob), "audio/wav");
+        } else {
+          downloadFile(`${baseName}.${extensionForMime(blob.type)}`, blob, blob.type);
+        }
+      } catch (e) {
+        setLastError(e instanceof Error ? e.message : "Failed to export recording.");
+      }
+    },
+    [meetingId],
+  );
+
+  return { playingKey, lastError, appendChunk, play, stop, download };
+}
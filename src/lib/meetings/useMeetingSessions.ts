@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { deleteMeeting, getMeeting, listMeetings, putMeeting } from "./db";
+import { toMeetingListItem, type MeetingListItem, type MeetingSession } from "./types";
+
+export function useMeetingSessions() {
+  const [meetings, setMeetings] = useState<MeetingListItem[]>([]);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    return listMeetings().then(
+      (all) => setMeetings(all.map(toMeetingListItem)),
+      (e: unknown) => setLastError(e instanceof Error ? e.message : "Failed to load meetings."),
+    );
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // Autosave path: update the list in memory instead of re-reading every meeting.
+  const save = useCallback(async (meeting: MeetingSession) => {
+    try {
+      await putMeeting(meeting);
+      const item = toMeetingListItem(meeting);
+      setMeetings((prev) =>
+        [item, ...prev.filter((m) => m.id !== meeting.id)].sort((a, b) => b.startedAt - a.startedAt),
+      );
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : "Failed to save meeting.");
+    }
+  }, []);
+
+  const load = useCallback(async (id: string) => {
+    try {
+      return await getMeeting(id);
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : "Failed to open meeting.");
+      return null;
+    }
+  }, []);
+
+  const rename = useCallback(async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      const m = await getMeeting(id);
+      if (!m) return;
+      await putMeeting({ ...m, name: trimmed });
+      setMeetings((prev) => prev.map((x) => (x.id === id ? { ...x, name: trimmed } : x)));
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : "Failed to rename meeting.");
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteMeeting(id);
+      setMeetings((prev) => prev.filter((x) => x.id !== id));
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : "Failed to delete meeting.");
+    }
+  }, []);
+
+  return { meetings, lastError, refresh, save, load, rename, remove };
+}
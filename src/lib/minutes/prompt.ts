@@ -0,0 +1,157 @@
+import { getLanguage, isLanguageCode, type LanguageCode } from "@/lib/languages";
+import type { ActionItem, MeetingMinutes, MinutesRequestBody } from "./types";
+
+const MAX_SEGMENTS = 20_000;
+const MAX_SEGMENT_CHARS = 5000;
+const MAX_SPEAKER_CHARS = 80;
+const MAX_NAME_CHARS = 200;
+// About 6k tokens of transcript per model call; longer meetings are summarized part by part.
+export const CHUNK_CHARS = 24_000;
+// Upper bound on model calls per request: roughly 16 hours of speech.
+export const MAX_CHUNKS = 40;
+
+export const MINUTES_INSTRUCTION = `
+You write meeting minutes from a transcript produced by live speech recognition. It may contain
+recognition errors, filler words and more than one language. Lines are "Speaker: text" when the
+speaker is known.
+
+Rules:
+- Write everything in the language named by lang, whatever language the meeting was held in.
+- Keep names, product names, numbers and dates exactly as said.
+- Report only what was said. Never invent decisions, owners or deadlines.
+
+Output MUST be a JSON object with fields:
+overview: string (3-6 sentences: purpose, main topics, outcome)
+decisions: string[] (what was agreed, one decision per item)
+actionItems: { task: string, owner: string | null, due: string | null }[]
+  owner: the person made responsible, null if nobody was named
+  due: the deadline as YYYY-MM-DD when it can be worked out from meetingDate, else the words used; null if none
+openQuestions: string[] (questions or issues raised but left unresolved)
+Use empty arrays when there is nothing to report.
+`.trim();
+
+/**
+ * Returns an error message for a request the route should reject with 400, else null.
+ */
+export function validateMinutesRequest(payload: MinutesRequestBody): string | null {
+  if (!isLanguageCode(payload.lang)) return `Unsupported lang "${String(payload.lang)}".`;
+  if (
+    payload.meetingName != null &&
+    (typeof payload.meetingName !== "string" || payload.meetingName.length > MAX_NAME_CHARS)
+  ) {
+    return `meetingName must be a string of at most ${MAX_NAME_CHARS} characters.`;
+  }
+  if (
+    payload.meetingDate != null &&
+    (typeof payload.meetingDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(payload.meetingDate))
+  ) {
+    return "meetingDate must be YYYY-MM-DD.";
+  }
+  const segments = payload.segments;
+  if (!Array.isArray(segments) || segments.length === 0 || segments.length > MAX_SEGMENTS) {
+    return `segments must be a non-empty array of at most ${MAX_SEGMENTS} items.`;
+  }
+  for (const s of segments) {
+    if (!s || typeof s.text !== "string" || s.text.length > MAX_SEGMENT_CHARS) {
+      return `Each segment needs a text of at most ${MAX_SEGMENT_CHARS} characters.`;
+    }
+    if (
+      s.speaker != null &&
+      (typeof s.speaker !== "string" || s.speaker.length > MAX_SPEAKER_CHARS)
+    ) {
+      return `speaker must be a string of at most ${MAX_SPEAKER_CHARS} characters.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The transcript as "Speaker: text" lines, split into parts of at most `maxChars` (a single
+ * longer line gets a part of its own).
+ */
+export function chunkTranscript(payload: MinutesRequestBody, maxChars = CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const s of payload.segments) {
+    const text = s.text.trim();
+    if (!text) continue;
+    const line = s.speaker?.trim() ? `${s.speaker.trim()}: ${text}` : text;
+    if (current && current.length + line.length + 1 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function header(payload: MinutesRequestBody) {
+  return {
+    lang: `${payload.lang} (${getLanguage(payload.lang).name})`,
+    meetingName: payload.meetingName || undefined,
+    meetingDate: payload.meetingDate || undefined,
+  };
+}
+
+/** User message for one part of the transcript (`index` of `count`, 0-based). */
+export function buildChunkMessage(
+  payload: MinutesRequestBody,
+  transcript: string,
+  index: number,
+  count: number,
+): string {
+  const intro =
+    count === 1
+      ? "Write the minutes of this meeting."
+      : `This is part ${index + 1} of ${count} of a longer meeting. Write minutes for this part only; they will be combined with the other parts later.`;
+  const body = JSON.stringify({ ...header(payload), transcript }, null, 2);
+  return `${intro}\n\n${body}`;
+}
+
+/** User message combining the minutes of consecutive parts into minutes for the whole meeting. */
+export function buildMergeMessage(payload: MinutesRequestBody, parts: unknown[]): string {
+  const intro =
+    "These are the minutes of consecutive parts of one meeting. Combine them into minutes for the whole meeting, in the same JSON format: one overview, duplicates merged, questions answered in a later part removed, every action item kept.";
+  const body = JSON.stringify({ ...header(payload), parts }, null, 2);
+  return `${intro}\n\n${body}`;
+}
+
+function strings(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === "string" && Boolean(v.trim()))
+    .map((v) => v.trim());
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Guardrails for the model's JSON: anything missing or of the wrong type becomes empty.
+ */
+export function normalizeMinutes(
+  json: unknown,
+  lang: LanguageCode,
+  segmentCount: number,
+): MeetingMinutes {
+  const parsed = (json && typeof json === "object" ? json : {}) as Record<string, unknown>;
+  const actionItems: ActionItem[] = Array.isArray(parsed.actionItems)
+    ? parsed.actionItems.flatMap((item: unknown) => {
+        const a = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+        const task = optionalString(a.task);
+        return task ? [{ task, owner: optionalString(a.owner), due: optionalString(a.due) }] : [];
+      })
+    : [];
+
+  return {
+    lang,
+    overview: optionalString(parsed.overview) ?? "",
+    decisions: strings(parsed.decisions),
+    actionItems,
+    openQuestions: strings(parsed.openQuestions),
+    generatedAt: Date.now(),
+    segmentCount,
+  };
+}
@@ -0,0 +1,37 @@
+import type { LanguageCode } from "@/lib/languages";
+
+export interface ActionItem {
+  task: string;
+  // As named in the meeting; null when nobody was assigned.
+  owner: string | null;
+  // YYYY-MM-DD when it could be resolved, else the words used; null when none was given.
+  due: string | null;
+}
+
+/**
+ * Structured minutes generated from a meeting's committed transcript by /api/minutes.
+ */
+export interface MeetingMinutes {
+  lang: LanguageCode;
+  overview: string;
+  decisions: string[];
+  actionItems: ActionItem[];
+  openQuestions: string[];
+  generatedAt: number;
+  // Segments the minutes were written from; a longer transcript now means they are out of date.
+  segmentCount: number;
+}
+
+export interface MinutesSegment {
+  text: string;
+  // Display name, when known.
+  speaker?: string;
+}
+
+export interface MinutesRequestBody {
+  lang: LanguageCode;
+  meetingName?: string;
+  // YYYY-MM-DD, so relative deadlines ("next Friday") can be turned into dates.
+  meetingDate?: string;
+  segments: MinutesSegment[];
+}
@@ -1,92 +1,133 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { CommitStrategy } from "@elevenlabs/client";
 import {
-  AudioFormat,
-  CommitStrategy,
-  RealtimeEvents,
-  Scribe,
-  type RealtimeConnection,
-} from "@elevenlabs/client";
-
-export type LanguageOption = "auto" | "en" | "ja" | "ko";
+  openCaptureStreams,
+  stopCaptureStreams,
+  type CaptureSource,
+  type CaptureStream,
+} from "@/lib/audio/capture";
+import { decodeAudioFile, mixToMono } from "@/lib/audio/decode";
+import { createInputMonitor, type InputHealth, type InputMonitor } from "@/lib/audio/diagnostics";
+import { measureLevel } from "@/lib/audio/levels";
+import { downsampleFloat32ToInt16PCM } from "@/lib/audio/pcm";
+import { createSpeakerTracker, type SpeakerTracker } from "@/lib/audio/speakers";
+import { loadTapWorklet } from "@/lib/audio/tap";
+import type { LanguageOption } from "@/lib/languages";
+import { apiError, describeError, RateLimitError, type ErrorInfo } from "@/lib/limits/errors";
+import {
+  createReplaySttProvider,
+  createSttProvider,
+  parseReplayScript,
+  type SttConnection,
+  type SttEvent,
+  type SttInfo,
+  type SttProvider,
+} from "@/lib/stt";
+import { MEETING_ID_HEADER } from "@/lib/usage/types";
+
+export type { LanguageOption };
 
 export interface TranscriptLine {
   id: string;
   text: string;
   createdAt: number;
   kind: "partial" | "committed";
+  // Position in the meeting recording (ms since the recorder started), when one is running.
+  audioStartMs?: number;
+  audioEndMs?: number;
+  // Speaker id ("1", "2", ...) when speaker detection is on; display names live on the meeting.
+  speaker?: string;
+  // What the transcription backend heard, when the user corrected `text`.
+  originalText?: string;
 }
 
-function toElevenLabsLanguageCode(lang: LanguageOption): string | undefined {
-  if (lang === "auto") return undefined;
-  // ElevenLabs expects ISO-639-1 or ISO-639-3.
-  // We use ISO-639-1 for the three supported languages.
-  return lang;
-}
-
-function downsampleFloat32ToInt16PCM(
-  input: Float32Array,
-  inputSampleRate: number,
-  outputSampleRate: number,
-): Int16Array {
-  if (outputSampleRate === inputSampleRate) {
-    const out = new Int16Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-      const s = Math.max(-1, Math.min(1, input[i] ?? 0));
-      out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-    }
-    return out;
+// Partials lag behind the start of speech; rewind a little so playback doesn't clip the first word.
+const SPEECH_LEAD_MS = 1000;
+
+const RECORDING_MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+// Reconnect with exponential backoff (+/-25% jitter) after the socket drops mid-meeting.
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// A rate-limited token request is retried after Retry-After; a longer wait (a used-up daily
+// quota) ends the session instead.
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+// Audio captured while disconnected is replayed on reconnect, up to this much (oldest dropped).
+const MAX_BUFFERED_AUDIO_MS = 60_000;
+
+// Uploaded files end with this much silence so VAD commits the last segment; the session
+// closes once the backend had a moment to send it.
+const FILE_TRAILING_SILENCE_MS = 2000;
+const FILE_FINISH_GRACE_MS = 4000;
+
+// Streamed audio is reported to the server's daily quota in batches this long.
+const AUDIO_REPORT_MS = 30_000;
+
+// The backend is configured on the server; asked once per connect().
+async function fetchSttProvider(): Promise<SttProvider> {
+  const resp = await fetch("/api/stt", { cache: "no-store" });
+  const data = (await resp.json()) as Partial<SttInfo> & { error?: string };
+  if (!resp.ok || !data.provider) {
+    throw apiError(resp, data, "Failed to load the transcription backend.");
   }
+  return createSttProvider(data.provider);
+}
 
-  const ratio = inputSampleRate / outputSampleRate;
-  const newLength = Math.max(1, Math.round(input.length / ratio));
-  const out = new Int16Array(newLength);
-
-  for (let i = 0; i < newLength; i++) {
-    const pos = i * ratio;
-    const idx = Math.floor(pos);
-    const frac = pos - idx;
-    const s0 = input[idx] ?? 0;
-    const s1 = input[idx + 1] ?? s0;
-    const sample = s0 + (s1 - s0) * frac;
-    const clamped = Math.max(-1, Math.min(1, sample));
-    out[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+// Counts streamed audio against the daily audio quota and the meeting's usage; resolves to the
+// error once the quota is used up.
+async function reportAudioUsage(seconds: number, meetingId?: string): Promise<Error | null> {
+  try {
+    const resp = await fetch("/api/usage/audio", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(meetingId ? { [MEETING_ID_HEADER]: meetingId } : null),
+      },
+      body: JSON.stringify({ seconds }),
+      // The last report is sent while the page may be closing.
+      keepalive: true,
+    });
+    if (resp.ok) return null;
+    const data = (await resp.json().catch(() => null)) as { error?: string } | null;
+    return apiError(resp, data, "Failed to report audio usage.");
+  } catch {
+    return null;
   }
-
-  return out;
 }
 
-function bytesToBase64(bytes: Uint8Array): string {
-  // Avoid stack overflows by chunking.
-  let binary = "";
-  const chunkSize = 0x8000;
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize);
-    binary += String.fromCharCode(...chunk);
-  }
-  return btoa(binary);
+/**
+ * Where connect() takes audio from: a live source, or a file streamed at `speed` × real time
+ * (default 1). `replay` plays a scripted transcript (see ReplayScript) instead of audio.
+ */
+export type AudioInput =
+  | CaptureSource
+  | { kind: "file"; file: File; speed?: number }
+  | { kind: "replay"; file: File; speed?: number };
+
+/** Current level of one live input (fractions of full scale over the last ~100ms). */
+export interface InputLevel {
+  id: CaptureStream["id"];
+  label: string;
+  rms: number;
+  peak: number;
 }
 
-async function loadInlineWorklet(audioContext: AudioContext): Promise<string> {
-  const workletCode = `
-class TapProcessor extends AudioWorkletProcessor {
-  process(inputs) {
-    const input = inputs[0];
-    const channel = input && input[0];
-    if (channel && channel.length) {
-      // Copy, because Web Audio reuses the underlying buffer.
-      this.port.postMessage(new Float32Array(channel));
-    }
-    return true;
-  }
+/**
+ * The live input meters, read by whoever shows them (as often as it likes), so meter updates
+ * don't re-render the component that runs the session. Each read covers the time since the last.
+ */
+export interface InputMeters {
+  read(): { health: InputHealth; levels: InputLevel[] };
 }
-registerProcessor("tap-processor", TapProcessor);
-`;
-  const blob = new Blob([workletCode], { type: "application/javascript" });
-  const url = URL.createObjectURL(blob);
-  await audioContext.audioWorklet.addModule(url);
-  return url;
+
+export interface FileProgress {
+  kind: "file" | "replay";
+  name: string;
+  positionMs: number;
+  durationMs: number;
 }
 
 export interface UseRealtimeScribeOptions {
@@ -98,6 +139,14 @@ export interface UseRealtimeScribeOptions {
   minSilenceDurationMs?: number;
   includeTimestamps?: boolean;
   elevenLabsApiKey?: string; // dev-only (stored in localStorage by UI)
+  // Attribute committed segments to speakers: the backend's speaker ids when it reports them
+  // (Scribe needs timestamps for that, so this turns them on), else local pitch clustering.
+  detectSpeakers?: boolean;
+  // Receives the meeting recording in ~1s chunks (MediaRecorder timeslices), or the uploaded
+  // file as a single chunk.
+  onRecordingChunk?: (chunk: Blob, mimeType: string) => void;
+  // Streamed audio is attributed to this meeting on the usage page.
+  meetingId?: string;
 }
 
 export function useRealtimeScribe(options: UseRealtimeScribeOptions) {
@@ -110,32 +159,87 @@ export function useRealtimeScribe(options: UseRealtimeScribeOptions) {
     minSilenceDurationMs,
     includeTimestamps = false,
     elevenLabsApiKey,
+    detectSpeakers = false,
+    onRecordingChunk,
+    meetingId,
   } = options;
 
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [lastError, setLastError] = useState<string | null>(null);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [lastError, setLastError] = useState<ErrorInfo | null>(null);
   const [partialTranscript, setPartialTranscript] = useState("");
   const [committed, setCommitted] = useState<TranscriptLine[]>([]);
+  const [fileProgress, setFileProgress] = useState<FileProgress | null>(null);
+  const [inputMeters, setInputMeters] = useState<InputMeters | null>(null);
 
-  const connectionRef = useRef<RealtimeConnection | null>(null);
+  const providerRef = useRef<SttProvider | null>(null);
+  const connectionRef = useRef<SttConnection | null>(null);
   const audioCleanupRef = useRef<null | (() => void)>(null);
   const workletUrlRef = useRef<string | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const onRecordingChunkRef = useRef(onRecordingChunk);
+  const meetingIdRef = useRef(meetingId);
+  // Current position in the recording (ms), while there is one. Segment offsets come from it.
+  const audioClockRef = useRef<(() => number) | null>(null);
+  const segmentStartedAtRef = useRef<number | null>(null);
+  const lastSegmentEndMsRef = useRef(0);
+  const speakerTrackerRef = useRef<SpeakerTracker | null>(null);
+  // Set once the backend reports speaker ids; the local tracker is ignored from then on.
+  const backendSpeakersRef = useRef(false);
+  const pendingSpeakerRef = useRef<{ text: string; speaker: string } | null>(null);
+
+  // Reconnect state. The mic keeps running across socket drops; audio is buffered meanwhile.
+  const committedRef = useRef<TranscriptLine[]>([]);
+  const isOpenRef = useRef(false);
+  const pendingAudioRef = useRef<Uint8Array[]>([]);
+  const manualCloseRef = useRef(false);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const unreportedAudioMsRef = useRef(0);
+  const openConnectionRef = useRef<() => Promise<void>>(async () => {});
+
+  useEffect(() => {
+    onRecordingChunkRef.current = onRecordingChunk;
+  }, [onRecordingChunk]);
+
+  useEffect(() => {
+    meetingIdRef.current = meetingId;
+  }, [meetingId]);
+
+  useEffect(() => {
+    committedRef.current = committed;
+  }, [committed]);
 
   const targetSampleRate = 16000;
   const chunkMs = 200; // 0.2s chunks keep latency low with minimal overhead
 
-  const tokenHeaders = useMemo(() => {
+  const sttHeaders = useMemo(() => {
     const headers: Record<string, string> = {};
     if (elevenLabsApiKey?.trim()) headers["x-elevenlabs-api-key"] = elevenLabsApiKey.trim();
     return headers;
   }, [elevenLabsApiKey]);
 
   const disconnect = useCallback(() => {
+    manualCloseRef.current = true;
     setIsConnecting(false);
     setIsConnected(false);
+    setIsReconnecting(false);
+    setReconnectAttempt(0);
+    setInputMeters(null);
+
+    if (reconnectTimerRef.current != null) {
+      window.clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    pendingAudioRef.current = [];
+    isOpenRef.current = false;
+    if (unreportedAudioMsRef.current > 0) {
+      void reportAudioUsage(unreportedAudioMsRef.current / 1000, meetingIdRef.current);
+      unreportedAudioMsRef.current = 0;
+    }
 
     try {
       connectionRef.current?.close();
@@ -173,134 +277,440 @@ export function useRealtimeScribe(options: UseRealtimeScribeOptions) {
     }
   }, []);
 
-  const connect = useCallback(async () => {
-    if (isConnected || isConnecting) return;
-    setLastError(null);
-    setPartialTranscript("");
-    setIsConnecting(true);
+  const sendChunk = useCallback(
+    (connection: SttConnection, pcm16: Uint8Array) => {
+      try {
+        connection.send(pcm16);
+      } catch {
+        return false;
+      }
 
-    try {
-      const tokenResp = await fetch("/api/scribe-token", {
-        method: "POST",
-        headers: tokenHeaders,
-      });
-      const tokenData = (await tokenResp.json()) as { token?: string; error?: string };
-      if (!tokenResp.ok || !tokenData?.token) {
-        throw new Error(tokenData?.error || "Failed to fetch scribe token.");
+      unreportedAudioMsRef.current += chunkMs;
+      if (unreportedAudioMsRef.current >= AUDIO_REPORT_MS) {
+        const seconds = unreportedAudioMsRef.current / 1000;
+        unreportedAudioMsRef.current = 0;
+        void reportAudioUsage(seconds, meetingIdRef.current).then((err) => {
+          // Out of audio minutes for today.
+          if (!(err instanceof RateLimitError) || manualCloseRef.current) return;
+          setLastError(describeError(err, "Out of audio minutes for today."));
+          disconnect();
+        });
+      }
+      return true;
+    },
+    [disconnect],
+  );
+
+  const flushPendingAudio = useCallback(() => {
+    const connection = connectionRef.current;
+    if (!connection || !isOpenRef.current) return;
+    while (pendingAudioRef.current.length) {
+      if (!sendChunk(connection, pendingAudioRef.current[0]!)) return;
+      pendingAudioRef.current.shift();
+    }
+  }, [sendChunk]);
+
+  const enqueueAudio = useCallback(
+    (pcm16: Uint8Array) => {
+      const connection = connectionRef.current;
+      if (connection && isOpenRef.current) {
+        flushPendingAudio();
+        if (!pendingAudioRef.current.length && sendChunk(connection, pcm16)) return;
       }
+      // Not open (yet / anymore): keep the most recent audio for replay after (re)connect.
+      const pending = pendingAudioRef.current;
+      pending.push(pcm16);
+      const maxChunks = Math.ceil(MAX_BUFFERED_AUDIO_MS / chunkMs);
+      if (pending.length > maxChunks) pending.splice(0, pending.length - maxChunks);
+    },
+    [flushPendingAudio, sendChunk],
+  );
+
+  // minDelayMs: the server's Retry-After when the token request was rate limited.
+  const scheduleReconnect = useCallback((minDelayMs = 0) => {
+    if (manualCloseRef.current || reconnectTimerRef.current != null) return;
+
+    const attempt = reconnectAttemptRef.current;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      setLastError({ message: `Connection lost. Gave up after ${attempt} reconnect attempts.` });
+      disconnect();
+      return;
+    }
 
-      const languageCode = toElevenLabsLanguageCode(inputLanguage);
+    const backoff = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+    const delay = Math.max(minDelayMs, backoff * (0.75 + Math.random() * 0.5));
+    reconnectAttemptRef.current = attempt + 1;
+    setIsReconnecting(true);
+    setReconnectAttempt(attempt + 1);
+
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      openConnectionRef.current().catch((e: unknown) => {
+        if (manualCloseRef.current) return;
+        setLastError(describeError(e, "Reconnect failed."));
+        if (e instanceof RateLimitError) {
+          if (e.retryAfterMs > MAX_RATE_LIMIT_WAIT_MS) disconnect();
+          else scheduleReconnect(e.retryAfterMs);
+          return;
+        }
+        scheduleReconnect();
+      });
+    }, delay);
+  }, [disconnect]);
+
+  // Opens a session on the transcription backend (for Scribe, with a fresh single-use token).
+  // Used for the initial connect and for every reconnect, so it must not touch the audio pipeline.
+  const openConnection = useCallback(async () => {
+    providerRef.current ??= await fetchSttProvider();
+    if (manualCloseRef.current) return;
+
+    const recent = committedRef.current.slice(-12);
+    let connection: SttConnection | null = null;
+    const onEvent = (e: SttEvent) => {
+      switch (e.type) {
+        case "open": {
+          if (connectionRef.current !== connection) return;
+          isOpenRef.current = true;
+          reconnectAttemptRef.current = 0;
+          setIsConnected(true);
+          setIsConnecting(false);
+          setIsReconnecting(false);
+          setReconnectAttempt(0);
+          flushPendingAudio();
+          return;
+        }
 
-      const connection = Scribe.connect({
-        token: tokenData.token,
-        modelId: "scribe_v2_realtime",
+        case "close": {
+          if (connectionRef.current !== connection) return;
+          connectionRef.current = null;
+          isOpenRef.current = false;
+          setIsConnected(false);
+          if (manualCloseRef.current) {
+            setIsConnecting(false);
+            return;
+          }
+          // A half-spoken segment will not be committed by the old session.
+          setPartialTranscript("");
+          segmentStartedAtRef.current = null;
+          scheduleReconnect();
+          return;
+        }
+
+        case "error": {
+          setLastError({ message: e.message });
+          // Retrying won't help with these; stop instead of burning reconnect attempts.
+          if (e.fatal) disconnect();
+          return;
+        }
+
+        case "partial": {
+          if (e.text && segmentStartedAtRef.current == null) {
+            segmentStartedAtRef.current = audioClockRef.current?.() ?? null;
+          }
+          setPartialTranscript(e.text);
+          return;
+        }
+
+        case "committed": {
+          const text = e.text.trim();
+          const now = Date.now();
+          const speechStartedAt = segmentStartedAtRef.current;
+          segmentStartedAtRef.current = null;
+          const localSpeaker = speakerTrackerRef.current?.endSegment();
+          if (!text) return;
+
+          let audio: Pick<TranscriptLine, "audioStartMs" | "audioEndMs"> | null = null;
+          const clock = audioClockRef.current;
+          if (clock) {
+            const prevEnd = lastSegmentEndMsRef.current;
+            const endMs = clock();
+            const startMs = speechStartedAt != null ? speechStartedAt - SPEECH_LEAD_MS : prevEnd;
+            audio = { audioStartMs: Math.min(endMs, Math.max(prevEnd, startMs)), audioEndMs: endMs };
+            lastSegmentEndMsRef.current = endMs;
+          }
+
+          let speaker: string | undefined;
+          if (detectSpeakers) {
+            const pending = pendingSpeakerRef.current;
+            pendingSpeakerRef.current = null;
+            if (e.speaker) backendSpeakersRef.current = true;
+            speaker =
+              e.speaker ??
+              (pending?.text === text ? pending.speaker : backendSpeakersRef.current ? undefined : localSpeaker);
+          }
+
+          const id = `${now}-${Math.random().toString(16).slice(2)}`;
+          setCommitted((prev) => [
+            ...prev,
+            { id, text, createdAt: now, kind: "committed", ...audio, ...(speaker ? { speaker } : null) },
+          ]);
+          setPartialTranscript("");
+          return;
+        }
+
+        case "speaker": {
+          if (!detectSpeakers) return;
+          backendSpeakersRef.current = true;
+          // Picked up by the commit handler if the segment isn't there yet.
+          pendingSpeakerRef.current = { text: e.text, speaker: e.speaker };
+          setCommitted((prev) => {
+            const last = prev[prev.length - 1];
+            if (last?.text !== e.text || last.speaker === e.speaker) return prev;
+            return [...prev.slice(0, -1), { ...last, speaker: e.speaker }];
+          });
+          return;
+        }
+      }
+    };
+
+    connection = await providerRef.current.connect(
+      {
+        inputLanguage,
+        sampleRate: targetSampleRate,
+        previousText: recent.length ? recent.map((c) => c.text).join("\n") : undefined,
+        detectSpeakers,
         commitStrategy,
         vadSilenceThresholdSecs,
-        ...(typeof vadThreshold === "number" ? { vadThreshold } : null),
-        ...(typeof minSpeechDurationMs === "number" ? { minSpeechDurationMs } : null),
-        ...(typeof minSilenceDurationMs === "number" ? { minSilenceDurationMs } : null),
+        vadThreshold,
+        minSpeechDurationMs,
+        minSilenceDurationMs,
         includeTimestamps,
-        languageCode,
-        audioFormat: AudioFormat.PCM_16000,
-        sampleRate: targetSampleRate,
-      });
+        headers: sttHeaders,
+      },
+      onEvent,
+    );
+    // Stop was pressed while the session was being set up.
+    if (manualCloseRef.current) {
+      connection.close();
+      return;
+    }
+    connectionRef.current = connection;
+    isOpenRef.current = false;
+  }, [
+    commitStrategy,
+    detectSpeakers,
+    disconnect,
+    flushPendingAudio,
+    includeTimestamps,
+    inputLanguage,
+    minSilenceDurationMs,
+    minSpeechDurationMs,
+    scheduleReconnect,
+    sttHeaders,
+    vadThreshold,
+    vadSilenceThresholdSecs,
+  ]);
 
-      connectionRef.current = connection;
+  useEffect(() => {
+    openConnectionRef.current = openConnection;
+  }, [openConnection]);
+
+  // Feeds a decoded file through the same path as microphone audio, paced to `speed` × real time.
+  const streamFile = useCallback(
+    (buffer: AudioBuffer, name: string, speed: number) => {
+      const inputRate = buffer.sampleRate;
+      const durationMs = buffer.duration * 1000;
+      const framesPerChunk = Math.round(inputRate * (chunkMs / 1000));
+      const silence = new Uint8Array(Math.round(targetSampleRate * (chunkMs / 1000)) * 2);
+      const silenceChunks = Math.ceil(FILE_TRAILING_SILENCE_MS / chunkMs);
+      let frame = 0;
+      let silenceSent = 0;
+      let finishTimer: number | null = null;
+
+      audioClockRef.current = () => (frame / inputRate) * 1000;
+      setFileProgress({ kind: "file", name, positionMs: 0, durationMs });
+
+      const timer = window.setInterval(() => {
+        // Hold the position while the socket is down, so a reconnect doesn't skip audio.
+        if (!isOpenRef.current) return;
+
+        if (frame < buffer.length) {
+          const end = Math.min(buffer.length, frame + framesPerChunk);
+          const mono = mixToMono(buffer, frame, end);
+          const pcm16 = downsampleFloat32ToInt16PCM(mono, inputRate, targetSampleRate);
+          const prevSecond = Math.floor(frame / inputRate);
+          frame = end;
+          speakerTrackerRef.current?.addAudio(pcm16);
+          enqueueAudio(new Uint8Array(pcm16.buffer));
+          if (frame === buffer.length || Math.floor(frame / inputRate) !== prevSecond) {
+            setFileProgress({
+              kind: "file",
+              name,
+              positionMs: (frame / inputRate) * 1000,
+              durationMs,
+            });
+          }
+          return;
+        }
 
-      connection.on(RealtimeEvents.OPEN, () => {
-        setIsConnected(true);
-        setIsConnecting(false);
-      });
+        if (silenceSent < silenceChunks) {
+          silenceSent += 1;
+          enqueueAudio(silence);
+          return;
+        }
 
-      connection.on(RealtimeEvents.CLOSE, () => {
-        setIsConnected(false);
-        setIsConnecting(false);
-      });
+        window.clearInterval(timer);
+        finishTimer = window.setTimeout(() => disconnect(), FILE_FINISH_GRACE_MS);
+      }, chunkMs / speed);
 
-      connection.on(RealtimeEvents.ERROR, (err) => {
-        setLastError(err?.error || "Unknown realtime error.");
-      });
+      audioCleanupRef.current = () => {
+        window.clearInterval(timer);
+        if (finishTimer != null) window.clearTimeout(finishTimer);
+      };
+    },
+    [disconnect, enqueueAudio],
+  );
 
-      connection.on(RealtimeEvents.PARTIAL_TRANSCRIPT, (data) => {
-        setPartialTranscript(data.text || "");
-      });
+  const connect = useCallback(async (input: AudioInput = { kind: "microphone" }) => {
+    if (isConnected || isConnecting || isReconnecting) return;
+    setLastError(null);
+    setPartialTranscript("");
+    setFileProgress(null);
+    setIsConnecting(true);
+    manualCloseRef.current = false;
+    reconnectAttemptRef.current = 0;
+    pendingAudioRef.current = [];
+    audioClockRef.current = null;
+    segmentStartedAtRef.current = null;
+    lastSegmentEndMsRef.current = 0;
+    speakerTrackerRef.current = detectSpeakers ? createSpeakerTracker(targetSampleRate) : null;
+    backendSpeakersRef.current = false;
+    pendingSpeakerRef.current = null;
+    providerRef.current = null;
 
-      connection.on(RealtimeEvents.COMMITTED_TRANSCRIPT, (data) => {
-        const text = (data.text || "").trim();
-        if (!text) return;
-        const id = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-        setCommitted((prev) => [
-          ...prev,
-          { id, text, createdAt: Date.now(), kind: "committed" },
-        ]);
-        setPartialTranscript("");
-      });
+    try {
+      if (input.kind === "replay") {
+        const parsed = parseReplayScript(await input.file.text());
+        if (!parsed.ok) throw new Error(parsed.error);
+        if (manualCloseRef.current) return;
+        const name = parsed.script.name || input.file.name;
+        // No recording, so segments get no audio offsets; reconnects never happen either.
+        providerRef.current = createReplaySttProvider(parsed.script, {
+          speed: input.speed,
+          onProgress: (positionMs, durationMs) => {
+            setFileProgress({ kind: "replay", name, positionMs, durationMs });
+          },
+          onEnd: disconnect,
+        });
+        await openConnection();
+        return;
+      }
 
-      // Microphone capture (Web Audio API) + optional MediaRecorder (for local debug/recording).
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          channelCount: 1,
-        },
-      });
+      if (input.kind === "file") {
+        // Decode before connecting: a bad file shouldn't cost a session.
+        const buffer = await decodeAudioFile(input.file);
+        if (manualCloseRef.current) return;
+        await openConnection();
+        if (manualCloseRef.current) return;
+        // The file itself is the meeting recording; offsets are positions in it.
+        onRecordingChunkRef.current?.(input.file, input.file.type || "application/octet-stream");
+        streamFile(buffer, input.file.name, input.speed ?? 1);
+        return;
+      }
 
-      // Optional: keep a MediaRecorder running (useful for future "download recording" feature).
-      try {
-        const mr = new MediaRecorder(stream);
-        mr.start(1000);
-        mediaRecorderRef.current = mr;
-      } catch {
-        // Some browsers may not support MediaRecorder for the chosen mime type. Ignore.
+      // Capture first: permission prompts and the tab picker shouldn't cost a session, and
+      // getDisplayMedia needs the click that called connect().
+      const streams = await openCaptureStreams(input);
+      audioCleanupRef.current = () => stopCaptureStreams(streams);
+      if (manualCloseRef.current) {
+        stopCaptureStreams(streams);
+        return;
       }
 
+      await openConnection();
+      if (manualCloseRef.current) return;
+
+      // All inputs are mixed down to one mono bus that feeds the tap and the recorder.
       const audioContext = new AudioContext();
       audioContextRef.current = audioContext;
 
-      const workletUrl = await loadInlineWorklet(audioContext);
+      const workletUrl = await loadTapWorklet(audioContext);
       workletUrlRef.current = workletUrl;
 
-      const source = audioContext.createMediaStreamSource(stream);
+      const bus = audioContext.createGain();
+      bus.channelCount = 1;
+      bus.channelCountMode = "explicit";
+      const inputs = streams.map((s) => {
+        const source = audioContext.createMediaStreamSource(s.stream);
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 2048;
+        source.connect(analyser);
+        source.connect(bus);
+        return { ...s, source, analyser };
+      });
       const tap = new AudioWorkletNode(audioContext, "tap-processor");
       const mute = audioContext.createGain();
       mute.gain.value = 0;
+      const recordingDestination = audioContext.createMediaStreamDestination();
 
       // Ensure the node stays "alive" by connecting it into the graph.
-      source.connect(tap);
+      bus.connect(tap);
+      bus.connect(recordingDestination);
       tap.connect(mute);
       mute.connect(audioContext.destination);
 
+      // Meeting recording; chunks go to onRecordingChunk, segments get offsets into it.
+      try {
+        const mimeType = RECORDING_MIME_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+        const mr = new MediaRecorder(
+          recordingDestination.stream,
+          mimeType ? { mimeType } : undefined,
+        );
+        mr.ondataavailable = (evt) => {
+          if (evt.data.size > 0) onRecordingChunkRef.current?.(evt.data, mr.mimeType || evt.data.type);
+        };
+        mr.start(1000);
+        const recordingStartedAt = Date.now();
+        audioClockRef.current = () => Date.now() - recordingStartedAt;
+        mediaRecorderRef.current = mr;
+      } catch {
+        // Some browsers may not support MediaRecorder for the chosen mime type. Ignore.
+      }
+
+      // The mixed signal is watched from the tap's samples: what the backend gets is what counts.
+      const mic = streams.find((s) => s.id === "microphone");
+      const monitor: InputMonitor = createInputMonitor({
+        sampleRate: audioContext.sampleRate,
+        deviceSampleRate: mic?.stream.getAudioTracks()[0]?.getSettings().sampleRate,
+      });
+
+      // Per-input levels, sampled off the analysers so each source gets its own meter.
+      const levelBuffer = new Float32Array(2048);
+      setInputMeters({
+        read: () => ({
+          health: monitor.read(),
+          levels: inputs.map(({ id, label, analyser }) => {
+            analyser.getFloatTimeDomainData(levelBuffer);
+            return { id, label, ...measureLevel(levelBuffer) };
+          }),
+        }),
+      });
+
+      // Stopping the share from the browser bar ends a tab-only session; a mix keeps the mic.
+      for (const s of streams) {
+        if (s.id !== "tab") continue;
+        s.stream.getAudioTracks()[0]?.addEventListener("ended", () => {
+          if (input.kind === "tab") disconnect();
+        });
+      }
+
       let pendingBytes: number[] = [];
       const bytesPerChunk = Math.round((targetSampleRate * (chunkMs / 1000)) * 2);
       const inputRate = audioContext.sampleRate;
-      let firstChunk = true;
 
       tap.port.onmessage = (evt: MessageEvent<Float32Array>) => {
         const floatChunk = evt.data;
+        monitor.addSamples(floatChunk);
         const pcm16 = downsampleFloat32ToInt16PCM(floatChunk, inputRate, targetSampleRate);
+        speakerTrackerRef.current?.addAudio(pcm16);
         const u8 = new Uint8Array(pcm16.buffer);
         for (let i = 0; i < u8.length; i++) pendingBytes.push(u8[i]!);
 
         while (pendingBytes.length >= bytesPerChunk) {
           const chunk = pendingBytes.slice(0, bytesPerChunk);
           pendingBytes = pendingBytes.slice(bytesPerChunk);
-          const base64 = bytesToBase64(new Uint8Array(chunk));
-
-          try {
-            connection.send({
-              audioBase64: base64,
-              sampleRate: targetSampleRate,
-              ...(firstChunk && committed.length
-                ? { previousText: committed.slice(-12).map((c) => c.text).join("\n") }
-                : null),
-            });
-          } catch {
-            // If connection isn't open yet, just drop audio until it is.
-            // This keeps UX simple and avoids buffering minutes of audio.
-          } finally {
-            firstChunk = false;
-          }
+          // Sent right away when the socket is open, buffered while (re)connecting.
+          enqueueAudio(new Uint8Array(chunk));
         }
       };
 
@@ -308,8 +718,16 @@ export function useRealtimeScribe(options: UseRealtimeScribeOptions) {
         try {
           tap.port.onmessage = null;
         } catch {}
+        for (const { source, analyser } of inputs) {
+          try {
+            source.disconnect();
+          } catch {}
+          try {
+            analyser.disconnect();
+          } catch {}
+        }
         try {
-          source.disconnect();
+          bus.disconnect();
         } catch {}
         try {
           tap.disconnect();
@@ -317,30 +735,23 @@ export function useRealtimeScribe(options: UseRealtimeScribeOptions) {
         try {
           mute.disconnect();
         } catch {}
-        try {
-          stream.getTracks().forEach((t) => t.stop());
-        } catch {}
+        stopCaptureStreams(streams);
       };
     } catch (e) {
-      const msg = e instanceof Error ? e.message : "Failed to start realtime transcription.";
-      setLastError(msg);
+      setLastError(describeError(e, "Failed to start realtime transcription."));
       setIsConnected(false);
       setIsConnecting(false);
       disconnect();
     }
   }, [
-    commitStrategy,
-    committed,
+    detectSpeakers,
     disconnect,
-    includeTimestamps,
-    inputLanguage,
+    enqueueAudio,
     isConnected,
     isConnecting,
-    tokenHeaders,
-    minSilenceDurationMs,
-    minSpeechDurationMs,
-    vadThreshold,
-    vadSilenceThresholdSecs,
+    isReconnecting,
+    openConnection,
+    streamFile,
   ]);
 
   // Ensure cleanup on unmount.
@@ -352,15 +763,44 @@ export function useRealtimeScribe(options: UseRealtimeScribeOptions) {
     setLastError(null);
   }, []);
 
+  // User correction of a committed line; the version the backend produced is kept alongside.
+  const updateLine = useCallback((id: string, text: string) => {
+    setCommitted((prev) =>
+      prev.map((t) => {
+        if (t.id !== id || t.text === text) return t;
+        const next: TranscriptLine = { ...t, text, originalText: t.originalText ?? t.text };
+        // Edited back to what the backend heard: no longer a correction.
+        if (next.originalText === text) delete next.originalText;
+        return next;
+      }),
+    );
+  }, []);
+
+  const dismissError = useCallback(() => setLastError(null), []);
+
+  // Replaces the committed transcript, e.g. when reopening a saved meeting.
+  const loadTranscript = useCallback((lines: TranscriptLine[]) => {
+    setPartialTranscript("");
+    setCommitted(lines);
+    setLastError(null);
+  }, []);
+
   return {
     isConnected,
     isConnecting,
+    isReconnecting,
+    reconnectAttempt,
     lastError,
     partialTranscript,
     committed,
+    fileProgress,
+    inputMeters,
     connect,
     disconnect,
     reset,
+    updateLine,
+    loadTranscript,
+    dismissError,
   };
 }
 
@@ -0,0 +1,39 @@
+import type { ShareSnapshot, ShareUpdate } from "./types";
+
+function upsert<T extends { id: string }>(list: T[], items: T[]): T[] {
+  const byId = new Map(list.map((x, i) => [x.id, i]));
+  const next = [...list];
+  for (const item of items) {
+    const i = byId.get(item.id);
+    if (i == null) {
+      byId.set(item.id, next.length);
+      next.push(item);
+    } else {
+      next[i] = item;
+    }
+  }
+  return next;
+}
+
+/**
+ * Applies a host update to a snapshot (relay and viewer share this). Returns a new snapshot.
+ * With `maxSegments`, only the most recent segments and their translations are kept.
+ */
+export function mergeShareUpdate(
+  snapshot: ShareSnapshot,
+  update: ShareUpdate,
+  maxSegments?: number,
+): ShareSnapshot {
+  const next = { ...snapshot };
+  if (update.meta) next.meta = update.meta;
+  if (update.segments) next.segments = upsert(next.segments, update.segments);
+  if (update.translations) next.translations = upsert(next.translations, update.translations);
+  if (update.partial) next.partial = update.partial;
+
+  if (maxSegments != null && next.segments.length > maxSegments) {
+    next.segments = next.segments.slice(-maxSegments);
+    const kept = new Set(next.segments.map((s) => s.id));
+    next.translations = next.translations.filter((t) => kept.has(t.sourceId));
+  }
+  return next;
+}
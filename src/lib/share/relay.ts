@@ -0,0 +1,187 @@
+import { randomInt, randomUUID } from "node:crypto";
+import { isLanguageCode, isLanguageOption } from "@/lib/languages";
+import { mergeShareUpdate } from "./merge";
+import type {
+  ShareCreated,
+  ShareMeta,
+  ShareSegment,
+  ShareSnapshot,
+  ShareTranslation,
+  ShareUpdate,
+} from "./types";
+
+/**
+ * In-memory relay between a host and its viewers. Lives in the server process, so shares
+ * only work with a single Next.js instance (no serverless fan-out).
+ */
+
+export type ShareEvent =
+  { event: "update"; data: ShareUpdate } | { event: "end"; data: { endedAt: number } };
+
+interface ShareSession {
+  id: string;
+  joinCode: string;
+  hostToken: string;
+  updatedAt: number;
+  snapshot: ShareSnapshot;
+  listeners: Set<(e: ShareEvent) => void>;
+}
+
+// Late joiners get the most recent segments only.
+const MAX_SNAPSHOT_SEGMENTS = 500;
+// Most recent translations kept per share: 500 segments in up to 10 output languages.
+const MAX_SNAPSHOT_TRANSLATIONS = 5000;
+// Live shares across all hosts; POST /api/share answers 503 beyond this.
+const MAX_SHARES = 100;
+const MAX_UPDATE_ITEMS = 200;
+const MAX_TEXT_CHARS = 5000;
+// Idle or ended shares are dropped after this long.
+const SHARE_TTL_MS = 12 * 60 * 60 * 1000;
+const ENDED_TTL_MS = 10 * 60 * 1000;
+// No 0/O/1/I, so codes survive being read out loud.
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const JOIN_CODE_LENGTH = 6;
+
+// Kept on globalThis so dev-mode module reloads don't drop live shares.
+const globalForShare = globalThis as typeof globalThis & {
+  __t3ShareSessions?: Map<string, ShareSession>;
+};
+const sessions = (globalForShare.__t3ShareSessions ??= new Map<string, ShareSession>());
+
+function prune(now: number) {
+  for (const [id, s] of sessions) {
+    const ttl = s.snapshot.endedAt ? ENDED_TTL_MS : SHARE_TTL_MS;
+    if (now - s.updatedAt > ttl) {
+      s.listeners.clear();
+      sessions.delete(id);
+    }
+  }
+}
+
+function newJoinCode(): string {
+  let code = "";
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++)
+    code += JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)];
+  return code;
+}
+
+export function createShare(
+  meta: ShareMeta,
+): { ok: true; share: ShareCreated } | { ok: false; error: string } {
+  const now = Date.now();
+  prune(now);
+  if (sessions.size >= MAX_SHARES) {
+    return { ok: false, error: "Too many active shares; try again later." };
+  }
+  const session: ShareSession = {
+    id: randomUUID(),
+    joinCode: newJoinCode(),
+    hostToken: randomUUID(),
+    updatedAt: now,
+    snapshot: { meta, segments: [], translations: [], partial: { original: "", translations: {} } },
+    listeners: new Set(),
+  };
+  sessions.set(session.id, session);
+  return {
+    ok: true,
+    share: { sessionId: session.id, joinCode: session.joinCode, hostToken: session.hostToken },
+  };
+}
+
+// Expired shares are dropped before the lookup, so none is served past its TTL.
+export function getShare(id: string): ShareSession | undefined {
+  prune(Date.now());
+  return sessions.get(id);
+}
+
+export function isHost(session: ShareSession, req: Request): boolean {
+  return req.headers.get("x-share-host-token") === session.hostToken;
+}
+
+export function joinCodeMatches(session: ShareSession, code: string | null): boolean {
+  return (code || "").trim().toUpperCase() === session.joinCode;
+}
+
+export function applyUpdate(session: ShareSession, update: ShareUpdate) {
+  const snapshot = mergeShareUpdate(session.snapshot, update, MAX_SNAPSHOT_SEGMENTS);
+  if (snapshot.translations.length > MAX_SNAPSHOT_TRANSLATIONS) {
+    snapshot.translations = snapshot.translations.slice(-MAX_SNAPSHOT_TRANSLATIONS);
+  }
+  session.snapshot = snapshot;
+  session.updatedAt = Date.now();
+  for (const listener of session.listeners) listener({ event: "update", data: update });
+}
+
+export function endShare(session: ShareSession) {
+  if (session.snapshot.endedAt) return;
+  const endedAt = Date.now();
+  session.snapshot.endedAt = endedAt;
+  session.snapshot.partial = { original: "", translations: {} };
+  session.updatedAt = endedAt;
+  for (const listener of session.listeners) listener({ event: "end", data: { endedAt } });
+  session.listeners.clear();
+}
+
+export function subscribe(session: ShareSession, listener: (e: ShareEvent) => void): () => void {
+  session.listeners.add(listener);
+  return () => session.listeners.delete(listener);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === "string" && value.length <= MAX_TEXT_CHARS;
+}
+
+function isMeta(value: unknown): value is ShareMeta {
+  const m = value as Partial<ShareMeta> | null;
+  return (
+    isText(m?.name) &&
+    isLanguageOption(m.inputLang) &&
+    Array.isArray(m.targetLangs) &&
+    m.targetLangs.every(isLanguageCode)
+  );
+}
+
+function isSegment(value: unknown): value is ShareSegment {
+  const s = value as Partial<ShareSegment> | null;
+  return (
+    isText(s?.id) &&
+    isText(s.text) &&
+    typeof s.createdAt === "number" &&
+    (s.speaker == null || isText(s.speaker))
+  );
+}
+
+function isTranslation(value: unknown): value is ShareTranslation {
+  const t = value as Partial<ShareTranslation> | null;
+  return isText(t?.id) && isText(t.sourceId) && isLanguageCode(t.lang) && isText(t.text);
+}
+
+function isItems<T>(value: unknown, check: (v: unknown) => v is T): value is T[] {
+  return Array.isArray(value) && value.length <= MAX_UPDATE_ITEMS && value.every(check);
+}
+
+/**
+ * Returns an error message for a malformed ShareUpdate / ShareMeta body, else null.
+ */
+export function validateShareUpdate(payload: ShareUpdate): string | null {
+  if (!payload || typeof payload !== "object") return "Invalid update.";
+  if (payload.meta != null && !isMeta(payload.meta)) return "Invalid meta.";
+  if (payload.segments != null && !isItems(payload.segments, isSegment)) return "Invalid segments.";
+  if (payload.translations != null && !isItems(payload.translations, isTranslation)) {
+    return "Invalid translations.";
+  }
+  if (payload.partial != null) {
+    const p = payload.partial;
+    if (!isText(p.original) || !p.translations || typeof p.translations !== "object") {
+      return "Invalid partial.";
+    }
+    for (const [lang, text] of Object.entries(p.translations)) {
+      if (!isLanguageCode(lang) || !isText(text)) return "Invalid partial.";
+    }
+  }
+  return null;
+}
+
+export function validateShareMeta(payload: unknown): string | null {
+  return isMeta(payload) ? null : "Invalid meta.";
+}
@@ -0,0 +1,57 @@
+import type { LanguageCode, LanguageOption } from "@/lib/languages";
+
+export interface ShareSegment {
+  id: string;
+  text: string;
+  createdAt: number;
+  // Display name, already resolved by the host.
+  speaker?: string;
+}
+
+export interface ShareTranslation {
+  id: string;
+  sourceId: string;
+  lang: LanguageCode;
+  text: string;
+}
+
+export interface SharePartial {
+  original: string;
+  translations: Partial<Record<LanguageCode, string>>;
+}
+
+export interface ShareMeta {
+  name: string;
+  inputLang: LanguageOption;
+  targetLangs: LanguageCode[];
+}
+
+/**
+ * What a viewer sees. Segments and translations are upserted by id.
+ */
+export interface ShareSnapshot {
+  meta: ShareMeta;
+  segments: ShareSegment[];
+  translations: ShareTranslation[];
+  partial: SharePartial;
+  endedAt?: number;
+}
+
+/**
+ * Host → server (POST /api/share/[sessionId]) and server → viewer (`update` event).
+ */
+export interface ShareUpdate {
+  meta?: ShareMeta;
+  segments?: ShareSegment[];
+  translations?: ShareTranslation[];
+  partial?: SharePartial;
+}
+
+/**
+ * Response of POST /api/share. `hostToken` authorizes updates and ending the share.
+ */
+export interface ShareCreated {
+  sessionId: string;
+  joinCode: string;
+  hostToken: string;
+}
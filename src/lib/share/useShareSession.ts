@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ShareCreated,
+  ShareMeta,
+  SharePartial,
+  ShareSegment,
+  ShareTranslation,
+  ShareUpdate,
+} from "./types";
+
+export interface UseShareSessionOptions {
+  meta: ShareMeta | null;
+  segments: ShareSegment[];
+  translations: ShareTranslation[];
+  partial: SharePartial;
+}
+
+export interface ActiveShare {
+  sessionId: string;
+  joinCode: string;
+  viewUrl: string;
+}
+
+// Partials change with every Scribe event; viewers don't need all of them.
+const PARTIAL_THROTTLE_MS = 300;
+// Matches the relay's per-update limit.
+const MAX_UPDATE_ITEMS = 200;
+
+function chunk<T>(items: T[]): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += MAX_UPDATE_ITEMS)
+    out.push(items.slice(i, i + MAX_UPDATE_ITEMS));
+  return out;
+}
+
+/**
+ * Host side of the audience view: publishes the meeting to /api/share while sharing is on.
+ * Only new or changed segments/translations are sent; updates go out one at a time, in order.
+ */
+export function useShareSession({ meta, segments, translations, partial }: UseShareSessionOptions) {
+  const [share, setShare] = useState<ActiveShare | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const hostTokenRef = useRef<string | null>(null);
+  const sendChainRef = useRef<Promise<void>>(Promise.resolve());
+  // What the relay already has, keyed by id → serialized item.
+  const sentSegmentsRef = useRef<Map<string, string>>(new Map());
+  const sentTranslationsRef = useRef<Map<string, string>>(new Map());
+  const sentMetaRef = useRef("");
+  const partialTimerRef = useRef<number | null>(null);
+  const latestPartialRef = useRef(partial);
+
+  const send = useCallback((sessionId: string, update: ShareUpdate) => {
+    const hostToken = hostTokenRef.current;
+    if (!hostToken) return;
+    sendChainRef.current = sendChainRef.current.then(async () => {
+      try {
+        const resp = await fetch(`/api/share/${sessionId}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "x-share-host-token": hostToken },
+          body: JSON.stringify(update),
+        });
+        if (!resp.ok) {
+          const data = (await resp.json().catch(() => ({}))) as { error?: string };
+          setLastError(data?.error || "Failed to publish to viewers.");
+        }
+      } catch (e) {
+        setLastError(e instanceof Error ? e.message : "Failed to publish to viewers.");
+      }
+    });
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!meta || share || isStarting) return;
+    setIsStarting(true);
+    setLastError(null);
+    try {
+      const resp = await fetch("/api/share", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ meta }),
+      });
+      const data = (await resp.json()) as ShareCreated | { error?: string };
+      if (!resp.ok || !("sessionId" in data)) {
+        throw new Error(("error" in data && data.error) || "Failed to start sharing.");
+      }
+      hostTokenRef.current = data.hostToken;
+      sentSegmentsRef.current = new Map();
+      sentTranslationsRef.current = new Map();
+      sentMetaRef.current = JSON.stringify(meta);
+      setShare({
+        sessionId: data.sessionId,
+        joinCode: data.joinCode,
+        viewUrl: `${window.location.origin}/view/${data.sessionId}`,
+      });
+    } catch (e) {
+      setLastError(e instanceof Error ? e.message : "Failed to start sharing.");
+    } finally {
+      setIsStarting(false);
+    }
+  }, [isStarting, meta, share]);
+
+  const end = useCallback(() => {
+    const hostToken = hostTokenRef.current;
+    if (!share || !hostToken) return;
+    hostTokenRef.current = null;
+    setShare(null);
+    if (partialTimerRef.current != null) window.clearTimeout(partialTimerRef.current);
+    partialTimerRef.current = null;
+    // After pending updates, so viewers see everything before the end.
+    sendChainRef.current = sendChainRef.current.then(async () => {
+      try {
+        await fetch(`/api/share/${share.sessionId}`, {
+          method: "DELETE",
+          headers: { "x-share-host-token": hostToken },
+        });
+      } catch {
+        // The relay drops abandoned shares on its own.
+      }
+    });
+  }, [share]);
+
+  const sessionId = share?.sessionId;
+
+  useEffect(() => {
+    if (!sessionId || !meta) return;
+    const serialized = JSON.stringify(meta);
+    if (serialized === sentMetaRef.current) return;
+    sentMetaRef.current = serialized;
+    send(sessionId, { meta });
+  }, [meta, send, sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const sent = sentSegmentsRef.current;
+    const changed = segments.filter((s) => sent.get(s.id) !== JSON.stringify(s));
+    for (const s of changed) sent.set(s.id, JSON.stringify(s));
+    for (const batch of chunk(changed)) send(sessionId, { segments: batch });
+  }, [segments, send, sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const sent = sentTranslationsRef.current;
+    const changed = translations.filter((t) => sent.get(t.id) !== JSON.stringify(t));
+    for (const t of changed) sent.set(t.id, JSON.stringify(t));
+    for (const batch of chunk(changed)) send(sessionId, { translations: batch });
+  }, [send, sessionId, translations]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    latestPartialRef.current = partial;
+    if (partialTimerRef.current != null) return;
+    partialTimerRef.current = window.setTimeout(() => {
+      partialTimerRef.current = null;
+      send(sessionId, { partial: latestPartialRef.current });
+    }, PARTIAL_THROTTLE_MS);
+  }, [partial, send, sessionId]);
+
+  return { share, isStarting, lastError, start, end };
+}
@@ -0,0 +1,37 @@
+import type { SttProviderId } from "./types";
+
+/**
+ * Speech-to-text backend selection (server-side; the browser asks GET /api/stt):
+ * - STT_PROVIDER: elevenlabs (default) | websocket
+ * - STT_WS_URL: the streaming server for `websocket`, e.g. `ws://whisper.internal:9090/stream`
+ * - STT_API_KEY: optional; sent to it as `Authorization: Bearer <key>`
+ */
+export type SttConfig =
+  { provider: "elevenlabs" } | { provider: "websocket"; url: string; apiKey?: string };
+
+const PROVIDERS: SttProviderId[] = ["elevenlabs", "websocket"];
+
+function isProviderId(v: string): v is SttProviderId {
+  return (PROVIDERS as string[]).includes(v);
+}
+
+export type ResolvedSttConfig = { ok: true; config: SttConfig } | { ok: false; error: string };
+
+export function resolveSttConfig(): ResolvedSttConfig {
+  const provider = (process.env.STT_PROVIDER || "elevenlabs").trim().toLowerCase();
+  if (!isProviderId(provider)) {
+    return { ok: false, error: `Unknown STT_PROVIDER "${provider}".` };
+  }
+  if (provider === "elevenlabs") return { ok: true, config: { provider } };
+
+  const url = (process.env.STT_WS_URL || "").trim();
+  if (!url) return { ok: false, error: "STT_PROVIDER=websocket needs STT_WS_URL." };
+  try {
+    const { protocol } = new URL(url);
+    if (protocol !== "ws:" && protocol !== "wss:") throw new Error();
+  } catch {
+    return { ok: false, error: "STT_WS_URL must be a ws:// or wss:// URL." };
+  }
+  const apiKey = (process.env.STT_API_KEY || "").trim() || undefined;
+  return { ok: true, config: { provider, url, apiKey } };
+}
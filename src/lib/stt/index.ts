@@ -0,0 +1,17 @@
+import { createElevenLabsSttProvider } from "./providers/elevenlabs";
+import { createWebSocketSttProvider } from "./providers/websocket";
+import type { SttProvider, SttProviderId } from "./types";
+
+export { createReplaySttProvider, type ReplayOptions } from "./providers/replay";
+export * from "./replay";
+export * from "./types";
+
+// The backend is chosen on the server (STT_PROVIDER); GET /api/stt tells the browser which.
+export function createSttProvider(id: SttProviderId): SttProvider {
+  switch (id) {
+    case "elevenlabs":
+      return createElevenLabsSttProvider();
+    case "websocket":
+      return createWebSocketSttProvider();
+  }
+}
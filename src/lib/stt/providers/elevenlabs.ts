@@ -0,0 +1,124 @@
+import {
+  AudioFormat,
+  RealtimeEvents,
+  Scribe,
+  type CommittedTranscriptWithTimestampsMessage,
+} from "@elevenlabs/client";
+import { getLanguage, type LanguageOption } from "@/lib/languages";
+import { apiError } from "@/lib/limits/errors";
+import type { SttProvider } from "../types";
+
+const FATAL_ERROR_TYPES: string[] = ["auth_error", "quota_exceeded", "unaccepted_terms"];
+
+function toElevenLabsLanguageCode(lang: LanguageOption): string | undefined {
+  if (lang === "auto") return undefined;
+  // ElevenLabs expects ISO-639-1 or ISO-639-3; see the registry for per-language codes.
+  return getLanguage(lang).scribeCode;
+}
+
+// Speaker of most words in a timestamped commit, as a "1"-based id like the local tracker's.
+function dominantScribeSpeaker(data: CommittedTranscriptWithTimestampsMessage): string | undefined {
+  const counts = new Map<string, number>();
+  for (const w of data.words ?? []) {
+    if (w.type !== "word" || !w.speaker_id) continue;
+    counts.set(w.speaker_id, (counts.get(w.speaker_id) ?? 0) + 1);
+  }
+  let best: string | undefined;
+  for (const [id, n] of counts) if (!best || n > counts.get(best)!) best = id;
+  if (!best) return undefined;
+  const m = best.match(/(\d+)$/);
+  return m ? String(Number(m[1]) + 1) : best;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  // Avoid stack overflows by chunking.
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, i + chunkSize);
+    binary += String.fromCharCode(...chunk);
+  }
+  return btoa(binary);
+}
+
+/**
+ * ElevenLabs Scribe v2 Realtime. The browser connects to ElevenLabs directly with a single-use
+ * token minted by /api/scribe-token, so the API key stays on the server.
+ */
+export function createElevenLabsSttProvider(): SttProvider {
+  return {
+    id: "elevenlabs",
+
+    async connect(options, onEvent) {
+      const tokenResp = await fetch("/api/scribe-token", {
+        method: "POST",
+        headers: options.headers,
+      });
+      const tokenData = (await tokenResp.json()) as { token?: string; error?: string };
+      if (!tokenResp.ok || !tokenData?.token) {
+        throw apiError(tokenResp, tokenData, "Failed to fetch scribe token.");
+      }
+
+      const connection = Scribe.connect({
+        token: tokenData.token,
+        modelId: "scribe_v2_realtime",
+        commitStrategy: options.commitStrategy,
+        vadSilenceThresholdSecs: options.vadSilenceThresholdSecs,
+        ...(typeof options.vadThreshold === "number"
+          ? { vadThreshold: options.vadThreshold }
+          : null),
+        ...(typeof options.minSpeechDurationMs === "number"
+          ? { minSpeechDurationMs: options.minSpeechDurationMs }
+          : null),
+        ...(typeof options.minSilenceDurationMs === "number"
+          ? { minSilenceDurationMs: options.minSilenceDurationMs }
+          : null),
+        includeTimestamps: options.includeTimestamps || options.detectSpeakers,
+        languageCode: toElevenLabsLanguageCode(options.inputLanguage),
+        audioFormat: AudioFormat.PCM_16000,
+        sampleRate: options.sampleRate,
+      });
+
+      connection.on(RealtimeEvents.OPEN, () => onEvent({ type: "open" }));
+      connection.on(RealtimeEvents.CLOSE, () => onEvent({ type: "close" }));
+      connection.on(RealtimeEvents.ERROR, (err) => {
+        onEvent({
+          type: "error",
+          message: err?.error || "Unknown realtime error.",
+          // Retrying won't help with these.
+          fatal: Boolean(err && FATAL_ERROR_TYPES.includes(err.message_type)),
+        });
+      });
+      connection.on(RealtimeEvents.PARTIAL_TRANSCRIPT, (data) => {
+        onEvent({ type: "partial", text: data.text || "" });
+      });
+      connection.on(RealtimeEvents.COMMITTED_TRANSCRIPT, (data) => {
+        onEvent({ type: "committed", text: data.text || "" });
+      });
+      if (options.detectSpeakers) {
+        // Sent alongside COMMITTED_TRANSCRIPT, in either order.
+        connection.on(RealtimeEvents.COMMITTED_TRANSCRIPT_WITH_TIMESTAMPS, (data) => {
+          const text = (data.text || "").trim();
+          const speaker = dominantScribeSpeaker(data);
+          if (text && speaker) onEvent({ type: "speaker", text, speaker });
+        });
+      }
+
+      // previousText is only accepted alongside the first chunk of a connection.
+      let isFirst = true;
+      return {
+        send(pcm16) {
+          connection.send({
+            audioBase64: bytesToBase64(pcm16),
+            sampleRate: options.sampleRate,
+            ...(isFirst && options.previousText ? { previousText: options.previousText } : null),
+          });
+          isFirst = false;
+        },
+        close() {
+          connection.close();
+        },
+      };
+    },
+  };
+}
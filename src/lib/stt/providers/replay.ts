@@ -0,0 +1,75 @@
+import { buildReplayTimeline, replayDurationMs, type ReplayScript } from "../replay";
+import type { SttProvider } from "../types";
+
+const TICK_MS = 200;
+
+export interface ReplayOptions {
+  // Multiple of real time (default 1).
+  speed?: number;
+  // Replay position, about once per second.
+  onProgress?: (positionMs: number, durationMs: number) => void;
+  // After the last commit; the replay doesn't close the connection itself.
+  onEnd?: () => void;
+}
+
+/**
+ * Plays a scripted transcript instead of transcribing audio, for demos and offline development.
+ * Runs entirely in the browser; sent audio is ignored. Every connect() starts from the top.
+ */
+export function createReplaySttProvider(
+  script: ReplayScript,
+  options: ReplayOptions = {},
+): SttProvider {
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const durationMs = replayDurationMs(script);
+
+  return {
+    id: "replay",
+
+    async connect(_options, onEvent) {
+      const steps = buildReplayTimeline(script);
+      let positionMs = 0;
+      let next = 0;
+      let timer: number | null = null;
+      let isClosed = false;
+
+      const tick = () => {
+        const prevSecond = Math.floor(positionMs / 1000);
+        positionMs += TICK_MS;
+        while (next < steps.length && steps[next]!.atMs <= positionMs) {
+          onEvent(steps[next]!.event);
+          next += 1;
+        }
+        if (next === steps.length) {
+          stop();
+          options.onProgress?.(durationMs, durationMs);
+          options.onEnd?.();
+          return;
+        }
+        if (Math.floor(positionMs / 1000) !== prevSecond) {
+          options.onProgress?.(positionMs, durationMs);
+        }
+      };
+      const stop = () => {
+        if (timer != null) window.clearInterval(timer);
+        timer = null;
+      };
+
+      // After the caller has the connection, like a real socket opening.
+      window.setTimeout(() => {
+        if (isClosed) return;
+        onEvent({ type: "open" });
+        options.onProgress?.(0, durationMs);
+        timer = window.setInterval(tick, TICK_MS / speed);
+      }, 0);
+
+      return {
+        send() {},
+        close() {
+          isClosed = true;
+          stop();
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { apiError } from "@/lib/limits/errors";
+import { readSseStream } from "@/lib/translate/stream";
+import {
+  STT_TOKEN_HEADER,
+  type SttEvent,
+  type SttProvider,
+  type SttSessionCreated,
+  type SttSessionRequest,
+} from "../types";
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0]!;
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+/**
+ * A self-hosted streaming server (Whisper-style), reached through the /api/stt proxy: the
+ * server holds the WebSocket, the browser posts PCM16 and reads events over SSE. Audio never
+ * leaves the network the app runs in.
+ */
+export function createWebSocketSttProvider(): SttProvider {
+  return {
+    id: "websocket",
+
+    async connect(options, onEvent) {
+      const body: SttSessionRequest = {
+        inputLanguage: options.inputLanguage,
+        sampleRate: options.sampleRate,
+        previousText: options.previousText,
+      };
+      const resp = await fetch("/api/stt", {
+        method: "POST",
+        headers: { ...options.headers, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = (await resp.json()) as Partial<SttSessionCreated> & { error?: string };
+      if (!resp.ok || !data.sessionId || !data.token) {
+        throw apiError(resp, data, "Failed to start transcription.");
+      }
+      const url = `/api/stt/${encodeURIComponent(data.sessionId)}`;
+      const headers = { [STT_TOKEN_HEADER]: data.token };
+
+      let closed = false;
+      const events = new AbortController();
+      // Reported once, whoever notices first: the event stream ending or a failed post.
+      const finish = () => {
+        if (closed) return;
+        closed = true;
+        events.abort();
+        onEvent({ type: "close" });
+      };
+
+      void (async () => {
+        try {
+          const stream = await fetch(`${url}/events`, { headers, signal: events.signal });
+          if (!stream.ok || !stream.body) {
+            const err = (await stream.json().catch(() => null)) as { error?: string } | null;
+            throw apiError(stream, err, "Transcription stream failed.");
+          }
+          onEvent({ type: "open" });
+          await readSseStream(stream.body, ({ event, data }) => {
+            if (closed) return;
+            if (event === "close") finish();
+            // Event names match SttEvent types; the payload carries the rest.
+            else onEvent({ ...(JSON.parse(data) as object), type: event } as SttEvent);
+          });
+        } catch (e) {
+          if (!closed) {
+            const message = e instanceof Error ? e.message : "Transcription stream failed.";
+            onEvent({ type: "error", message, fatal: false });
+          }
+        }
+        finish();
+      })();
+
+      // Chunks go out one request at a time, so they reach the server in order; whatever
+      // piles up meanwhile is sent together.
+      let queue: Uint8Array[] = [];
+      let isPosting = false;
+      const post = async () => {
+        if (isPosting || closed || !queue.length) return;
+        isPosting = true;
+        const chunk = concat(queue);
+        queue = [];
+        try {
+          const r = await fetch(url, {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/octet-stream" },
+            body: chunk as Uint8Array<ArrayBuffer>,
+          });
+          if (r.status === 503) {
+            // The server is still forwarding earlier audio: keep this chunk and wait.
+            queue.unshift(chunk);
+            const waitSeconds = Number(r.headers.get("Retry-After")) || 1;
+            await new Promise((resolve) => setTimeout(resolve, waitSeconds * 1000));
+          } else if (r.status === 429) {
+            // Out of audio minutes: reconnecting won't help.
+            const err = (await r.json().catch(() => null)) as { error?: string } | null;
+            onEvent({ type: "error", message: err?.error || "Audio quota used up.", fatal: true });
+          }
+          if (!r.ok && r.status !== 503) finish();
+        } catch {
+          finish();
+        } finally {
+          isPosting = false;
+        }
+        void post();
+      };
+
+      return {
+        send(pcm16) {
+          if (closed) throw new Error("Transcription session closed.");
+          queue.push(pcm16);
+          void post();
+        },
+        close() {
+          if (closed) return;
+          closed = true;
+          events.abort();
+          void fetch(url, { method: "DELETE", headers, keepalive: true }).catch(() => {});
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,226 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import WebSocket from "ws";
+import { STT_TOKEN_HEADER, type SttEvent, type SttSessionRequest } from "./types";
+
+/**
+ * Server side of the `websocket` transcription backend: one upstream WebSocket per browser
+ * session, fed with the PCM16 the browser posts; what the server sends back is relayed to the
+ * session's event stream. Lives in the server process, like the share relay.
+ *
+ * Upstream protocol (JSON text frames, audio as binary frames):
+ * - to the server: `{ type: "start", language, sampleRate, previousText }` once, then raw PCM16
+ *   (little-endian, mono), then `{ type: "stop" }`
+ * - from the server: `{ type: "partial", text }`, `{ type: "committed", text, speaker? }`,
+ *   `{ type: "error", message, fatal? }`; anything else is ignored
+ */
+
+// Everything but `open`, which the browser derives from its event stream opening.
+export type SttRelayEvent = Exclude<SttEvent, { type: "open" }>;
+
+interface SttSession {
+  id: string;
+  token: string;
+  socket: WebSocket;
+  listener: ((e: SttRelayEvent) => void) | null;
+  // Events that arrived before the browser subscribed.
+  backlog: SttRelayEvent[];
+  isSubscribed: boolean;
+  isClosed: boolean;
+}
+
+const CONNECT_TIMEOUT_MS = 10_000;
+// A session whose event stream never connects (the tab went away) is closed after this long.
+const SUBSCRIBE_TIMEOUT_MS = 30_000;
+const MAX_BACKLOG_EVENTS = 100;
+const MAX_TEXT_CHARS = 5000;
+// Open sessions across all clients; each holds an upstream connection.
+const MAX_SESSIONS = 50;
+// Audio queued for a server that isn't reading (~30 s at 16 kHz); more is refused until it drains.
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+// Kept on globalThis so dev-mode module reloads don't drop live sessions.
+const globalForStt = globalThis as typeof globalThis & {
+  __t3SttSessions?: Map<string, SttSession>;
+};
+const sessions = (globalForStt.__t3SttSessions ??= new Map<string, SttSession>());
+
+function emit(session: SttSession, e: SttRelayEvent) {
+  if (session.listener) {
+    session.listener(e);
+    return;
+  }
+  session.backlog.push(e);
+  if (session.backlog.length > MAX_BACKLOG_EVENTS) session.backlog.shift();
+}
+
+function toRelayEvent(data: WebSocket.RawData, isBinary: boolean): SttRelayEvent | null {
+  if (isBinary) return null;
+  let msg: Record<string, unknown>;
+  try {
+    msg = JSON.parse(data.toString()) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (!msg || typeof msg !== "object") return null;
+  const text = typeof msg.text === "string" ? msg.text.slice(0, MAX_TEXT_CHARS) : "";
+  const speaker =
+    typeof msg.speaker === "string" || typeof msg.speaker === "number"
+      ? String(msg.speaker).slice(0, 20)
+      : "";
+  switch (msg.type) {
+    case "partial":
+      return { type: "partial", text };
+    case "committed":
+      return { type: "committed", text, ...(speaker ? { speaker } : null) };
+    case "error":
+      return {
+        type: "error",
+        message:
+          typeof msg.message === "string" && msg.message
+            ? msg.message.slice(0, MAX_TEXT_CHARS)
+            : "Transcription server error.",
+        fatal: msg.fatal === true,
+      };
+    default:
+      return null;
+  }
+}
+
+/** Whether another session may be opened. */
+export function hasSttCapacity(): boolean {
+  return sessions.size < MAX_SESSIONS;
+}
+
+/**
+ * Connects to the streaming server; resolves once the socket is open.
+ */
+export async function openSttSession(
+  upstream: { url: string; apiKey?: string },
+  request: SttSessionRequest,
+): Promise<SttSession> {
+  const socket = new WebSocket(upstream.url, {
+    headers: upstream.apiKey ? { Authorization: `Bearer ${upstream.apiKey}` } : undefined,
+    handshakeTimeout: CONNECT_TIMEOUT_MS,
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once("open", () => resolve());
+    socket.once("error", (err) => reject(new Error(`Transcription server: ${err.message}`)));
+  });
+
+  const session: SttSession = {
+    id: randomUUID(),
+    token: randomUUID(),
+    socket,
+    listener: null,
+    backlog: [],
+    isSubscribed: false,
+    isClosed: false,
+  };
+  sessions.set(session.id, session);
+
+  socket.on("message", (data, isBinary) => {
+    const e = toRelayEvent(data, isBinary);
+    if (e) emit(session, e);
+  });
+  socket.on("error", (err) => {
+    emit(session, { type: "error", message: `Transcription server: ${err.message}`, fatal: false });
+  });
+  socket.on("close", () => {
+    session.isClosed = true;
+    sessions.delete(session.id);
+    emit(session, { type: "close" });
+  });
+
+  socket.send(
+    JSON.stringify({
+      type: "start",
+      language: request.inputLanguage === "auto" ? null : request.inputLanguage,
+      sampleRate: request.sampleRate,
+      previousText: request.previousText || null,
+    }),
+  );
+  setTimeout(() => {
+    if (!session.isSubscribed) closeSttSession(session);
+  }, SUBSCRIBE_TIMEOUT_MS).unref();
+  return session;
+}
+
+export function getSttSession(id: string): SttSession | undefined {
+  return sessions.get(id);
+}
+
+export function isSessionOwner(session: SttSession, req: Request): boolean {
+  const token = Buffer.from(req.headers.get(STT_TOKEN_HEADER) || "");
+  const expected = Buffer.from(session.token);
+  return token.length === expected.length && timingSafeEqual(token, expected);
+}
+
+/**
+ * Forwards audio upstream: "busy" while the server has too much unread audio queued (the caller
+ * should retry later), "closed" once the session has ended.
+ */
+export function sendSttAudio(session: SttSession, pcm16: Uint8Array): "sent" | "busy" | "closed" {
+  if (session.isClosed || session.socket.readyState !== WebSocket.OPEN) return "closed";
+  if (session.socket.bufferedAmount > MAX_BUFFERED_BYTES) return "busy";
+  session.socket.send(pcm16);
+  return "sent";
+}
+
+/**
+ * The request body, or null when it is longer than `maxBytes`. Stops reading at the limit
+ * rather than buffering whatever the client sends.
+ */
+export async function readLimitedBody(req: Request, maxBytes: number): Promise<Uint8Array | null> {
+  if (Number(req.headers.get("content-length") ?? 0) > maxBytes) return null;
+  if (!req.body) return new Uint8Array();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = req.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/**
+ * One listener per session (its event stream). The backlog is replayed first.
+ */
+export function subscribeSttSession(
+  session: SttSession,
+  listener: (e: SttRelayEvent) => void,
+): (() => void) | null {
+  if (session.isSubscribed) return null;
+  session.isSubscribed = true;
+  for (const e of session.backlog.splice(0)) listener(e);
+  session.listener = listener;
+  return () => {
+    if (session.listener === listener) session.listener = null;
+  };
+}
+
+export function closeSttSession(session: SttSession) {
+  sessions.delete(session.id);
+  if (session.isClosed) return;
+  session.isClosed = true;
+  try {
+    if (session.socket.readyState === WebSocket.OPEN) {
+      session.socket.send(JSON.stringify({ type: "stop" }));
+    }
+    session.socket.close(1000);
+  } catch {
+    session.socket.terminate();
+  }
+}
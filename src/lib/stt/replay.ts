@@ -0,0 +1,132 @@
+import type { SttEvent } from "./types";
+
+/**
+ * One utterance of a replay script. Offsets are ms from the start of the replay; `partials`
+ * are the interim transcripts shown while it is spoken (generated from `text` when omitted).
+ */
+export interface ReplaySegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  speaker?: string;
+  partials?: string[];
+}
+
+/** A scripted transcript, replayed through the same events a live backend sends. */
+export interface ReplayScript {
+  name?: string;
+  segments: ReplaySegment[];
+}
+
+export interface ReplayStep {
+  atMs: number;
+  event: SttEvent;
+}
+
+export type ParsedReplayScript = { ok: true; script: ReplayScript } | { ok: false; error: string };
+
+const MAX_SEGMENTS = 5000;
+const MAX_TEXT_CHARS = 5000;
+const MAX_AUTO_PARTIALS = 6;
+
+function isOffset(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+export function parseReplayScript(text: string): ParsedReplayScript {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "Replay script is not valid JSON." };
+  }
+  const body = raw as Partial<ReplayScript> | null;
+  if (!body || !Array.isArray(body.segments) || body.segments.length === 0) {
+    return { ok: false, error: "Replay script needs a non-empty `segments` array." };
+  }
+  if (body.segments.length > MAX_SEGMENTS) {
+    return { ok: false, error: `Replay script has more than ${MAX_SEGMENTS} segments.` };
+  }
+
+  const segments: ReplaySegment[] = [];
+  let prevEnd = 0;
+  for (const [i, s] of body.segments.entries()) {
+    const where = `Segment ${i + 1}`;
+    if (!s || typeof s.text !== "string" || !s.text.trim()) {
+      return { ok: false, error: `${where}: \`text\` is required.` };
+    }
+    if (s.text.length > MAX_TEXT_CHARS) {
+      return {
+        ok: false,
+        error: `${where}: \`text\` is longer than ${MAX_TEXT_CHARS} characters.`,
+      };
+    }
+    if (!isOffset(s.startMs) || !isOffset(s.endMs) || s.endMs < s.startMs) {
+      return { ok: false, error: `${where}: needs \`startMs\` <= \`endMs\` (ms, non-negative).` };
+    }
+    // Partials of overlapping segments would interleave; a live backend never does that.
+    if (s.startMs < prevEnd) {
+      return { ok: false, error: `${where}: starts before the previous segment ends.` };
+    }
+    if (s.speaker != null && typeof s.speaker !== "string") {
+      return { ok: false, error: `${where}: \`speaker\` must be a string.` };
+    }
+    if (
+      s.partials != null &&
+      (!Array.isArray(s.partials) || !s.partials.every((p) => typeof p === "string"))
+    ) {
+      return { ok: false, error: `${where}: \`partials\` must be an array of strings.` };
+    }
+    prevEnd = s.endMs;
+    segments.push({
+      startMs: s.startMs,
+      endMs: s.endMs,
+      text: s.text.trim(),
+      ...(s.speaker ? { speaker: s.speaker } : null),
+      ...(s.partials ? { partials: s.partials } : null),
+    });
+  }
+
+  return {
+    ok: true,
+    script: { ...(typeof body.name === "string" ? { name: body.name } : null), segments },
+  };
+}
+
+// Growing prefixes of the text, by words (or characters for scripts written without spaces).
+function autoPartials(text: string): string[] {
+  const words = text.split(/\s+/);
+  const units = words.length > 1 ? words : Array.from(text);
+  const joiner = words.length > 1 ? " " : "";
+  const count = Math.min(MAX_AUTO_PARTIALS, units.length - 1);
+  const partials: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    partials.push(units.slice(0, Math.ceil((units.length * i) / (count + 1))).join(joiner));
+  }
+  return partials;
+}
+
+/**
+ * The script as timed events: each segment's partials spread evenly from its start, and the
+ * commit at its end.
+ */
+export function buildReplayTimeline(script: ReplayScript): ReplayStep[] {
+  const steps: ReplayStep[] = [];
+  for (const s of script.segments) {
+    const partials = s.partials ?? autoPartials(s.text);
+    const stepMs = (s.endMs - s.startMs) / Math.max(1, partials.length);
+    partials.forEach((text, i) => {
+      steps.push({ atMs: s.startMs + i * stepMs, event: { type: "partial", text } });
+    });
+    steps.push({
+      atMs: s.endMs,
+      event: { type: "committed", text: s.text, ...(s.speaker ? { speaker: s.speaker } : null) },
+    });
+  }
+  return steps;
+}
+
+/** Where the replay ends: the last commit. */
+export function replayDurationMs(script: ReplayScript): number {
+  return script.segments[script.segments.length - 1]?.endMs ?? 0;
+}
@@ -0,0 +1,77 @@
+import type { CommitStrategy } from "@elevenlabs/client";
+import type { LanguageOption } from "@/lib/languages";
+
+export type SttProviderId = "elevenlabs" | "websocket";
+
+/**
+ * What a transcription backend reports. `speaker` is an id like "1", "2", ... when the backend
+ * attributes speech itself; a `speaker` event attributes a commit that was already reported
+ * (or is about to be) with the same text.
+ */
+export type SttEvent =
+  | { type: "open" }
+  | { type: "close" }
+  | { type: "error"; message: string; fatal: boolean }
+  | { type: "partial"; text: string }
+  | { type: "committed"; text: string; speaker?: string }
+  | { type: "speaker"; text: string; speaker: string };
+
+export interface SttConnectOptions {
+  inputLanguage: LanguageOption;
+  // PCM16 mono at this rate.
+  sampleRate: number;
+  // Recent committed text, as context for the new connection.
+  previousText?: string;
+  detectSpeakers: boolean;
+  // Scribe tuning; other backends ignore it.
+  commitStrategy: CommitStrategy;
+  vadSilenceThresholdSecs: number;
+  vadThreshold?: number;
+  minSpeechDurationMs?: number;
+  minSilenceDurationMs?: number;
+  includeTimestamps: boolean;
+  // Dev-only keys typed into the UI, sent to our own API routes.
+  headers: Record<string, string>;
+}
+
+/**
+ * One transcription session. send() throws once the connection is no longer usable, so the
+ * caller can buffer the chunk for the next one.
+ */
+export interface SttConnection {
+  send(pcm16: Uint8Array): void;
+  close(): void;
+}
+
+/**
+ * Streaming speech-to-text backend. connect() resolves once the session is being opened;
+ * events (starting with `open`) follow through `onEvent`.
+ */
+export interface SttProvider {
+  // `replay` plays a script file in the browser; the server never selects it.
+  id: SttProviderId | "replay";
+  connect(options: SttConnectOptions, onEvent: (e: SttEvent) => void): Promise<SttConnection>;
+}
+
+/** GET /api/stt */
+export interface SttInfo {
+  provider: SttProviderId;
+}
+
+/** POST /api/stt (websocket backend) */
+export interface SttSessionRequest {
+  inputLanguage: LanguageOption;
+  sampleRate: number;
+  previousText?: string;
+}
+
+export interface SttSessionCreated {
+  sessionId: string;
+  // Required as `x-stt-token` on the session's audio, events and close requests.
+  token: string;
+}
+
+export const STT_TOKEN_HEADER = "x-stt-token";
+
+// Streaming servers take 16 kHz mono PCM16 like Scribe.
+export const STT_SAMPLE_RATE = 16000;
@@ -0,0 +1,148 @@
+import { resolveApiKey } from "@/lib/auth";
+import type {
+  TranslationAuthScheme,
+  TranslationProviderConfig,
+  TranslationProviderId,
+} from "./types";
+
+/**
+ * Translation backend selection (all optional; defaults keep the original OpenAI setup):
+ * - TRANSLATE_PROVIDER: openai | azure-openai | openai-compatible | anthropic | deepl | mock
+ *   (`mock` answers locally and deterministically, for demos and offline development)
+ * - TRANSLATE_BASE_URL: API root (required for azure-openai and openai-compatible)
+ * - TRANSLATE_MODEL / TRANSLATE_MODEL_PARTIAL: committed / partial model (Azure: deployment name)
+ * - TRANSLATE_API_KEY: key for the selected provider (falls back to the provider's usual env var)
+ * - TRANSLATE_AUTH_SCHEME: bearer | api-key | x-api-key | deepl | none
+ * - TRANSLATE_API_VERSION: Azure OpenAI `api-version`
+ */
+interface ProviderDefaults {
+  baseUrl?: string;
+  authScheme: TranslationAuthScheme;
+  keyEnv: string;
+  model: string;
+  partialModel: string;
+}
+
+const PROVIDER_DEFAULTS: Record<TranslationProviderId, ProviderDefaults> = {
+  openai: {
+    baseUrl: "https://api.openai.com/v1",
+    authScheme: "bearer",
+    keyEnv: "OPENAI_API_KEY",
+    model: process.env.OPENAI_MODEL || "gpt-4.1-mini",
+    partialModel: process.env.OPENAI_MODEL_PARTIAL || "gpt-4.1-nano",
+  },
+  "azure-openai": {
+    authScheme: "api-key",
+    keyEnv: "AZURE_OPENAI_API_KEY",
+    model: "gpt-4.1-mini",
+    partialModel: "gpt-4.1-nano",
+  },
+  "openai-compatible": {
+    authScheme: "bearer",
+    keyEnv: "OPENAI_API_KEY",
+    model: process.env.OPENAI_MODEL || "gpt-4.1-mini",
+    partialModel: process.env.OPENAI_MODEL_PARTIAL || "gpt-4.1-nano",
+  },
+  anthropic: {
+    baseUrl: "https://api.anthropic.com",
+    authScheme: "x-api-key",
+    keyEnv: "ANTHROPIC_API_KEY",
+    model: "claude-3-5-haiku-latest",
+    partialModel: "claude-3-5-haiku-latest",
+  },
+  deepl: {
+    authScheme: "deepl",
+    keyEnv: "DEEPL_API_KEY",
+    model: "deepl",
+    partialModel: "deepl",
+  },
+  mock: {
+    authScheme: "none",
+    keyEnv: "",
+    model: "mock",
+    partialModel: "mock",
+  },
+};
+
+const AUTH_SCHEMES: TranslationAuthScheme[] = ["bearer", "api-key", "x-api-key", "deepl", "none"];
+
+function isProviderId(v: string): v is TranslationProviderId {
+  return Object.hasOwn(PROVIDER_DEFAULTS, v);
+}
+
+function isAuthScheme(v: string): v is TranslationAuthScheme {
+  return (AUTH_SCHEMES as string[]).includes(v);
+}
+
+export type ResolvedTranslationConfig =
+  | { ok: true; config: TranslationProviderConfig }
+  | { ok: false; error: string };
+
+export async function resolveTranslationConfig(req: Request): Promise<ResolvedTranslationConfig> {
+  const providerEnv = (process.env.TRANSLATE_PROVIDER || "openai").trim().toLowerCase();
+  if (!isProviderId(providerEnv)) {
+    return { ok: false, error: `Unknown TRANSLATE_PROVIDER "${providerEnv}".` };
+  }
+  const provider = providerEnv;
+  const defaults = PROVIDER_DEFAULTS[provider];
+
+  // A key saved by the signed-in user wins; keys typed into the UI only count in development.
+  const apiKey = await resolveApiKey(
+    req,
+    "translate",
+    process.env.TRANSLATE_API_KEY || process.env[defaults.keyEnv],
+  );
+
+  const schemeEnv = process.env.TRANSLATE_AUTH_SCHEME?.trim().toLowerCase() || "";
+  let authScheme: TranslationAuthScheme = defaults.authScheme;
+  if (isAuthScheme(schemeEnv)) {
+    authScheme = schemeEnv;
+  } else if (schemeEnv) {
+    return { ok: false, error: `Unknown TRANSLATE_AUTH_SCHEME "${schemeEnv}".` };
+  } else if (provider === "openai-compatible" && !apiKey) {
+    // Self-hosted servers (vLLM/Ollama) usually run without auth.
+    authScheme = "none";
+  }
+
+  if (authScheme !== "none" && !apiKey) {
+    return { ok: false, error: `Missing ${defaults.keyEnv}.` };
+  }
+
+  let baseUrl = process.env.TRANSLATE_BASE_URL?.trim() || defaults.baseUrl;
+  if (!baseUrl && provider === "deepl") {
+    // DeepL Free keys end with ":fx" and live on a separate host.
+    baseUrl = apiKey?.endsWith(":fx") ? "https://api-free.deepl.com" : "https://api.deepl.com";
+  }
+  if (!baseUrl && provider !== "mock") {
+    return { ok: false, error: `Missing TRANSLATE_BASE_URL for provider "${provider}".` };
+  }
+
+  return {
+    ok: true,
+    config: {
+      provider,
+      baseUrl: (baseUrl ?? "").replace(/\/+$/, ""),
+      apiKey,
+      authScheme,
+      model: process.env.TRANSLATE_MODEL || defaults.model,
+      partialModel: process.env.TRANSLATE_MODEL_PARTIAL || defaults.partialModel,
+      apiVersion: process.env.TRANSLATE_API_VERSION || "2024-10-21",
+    },
+  };
+}
+
+export function authHeaders(config: TranslationProviderConfig): Record<string, string> {
+  if (!config.apiKey) return {};
+  switch (config.authScheme) {
+    case "bearer":
+      return { Authorization: `Bearer ${config.apiKey}` };
+    case "api-key":
+      return { "api-key": config.apiKey };
+    case "x-api-key":
+      return { "x-api-key": config.apiKey };
+    case "deepl":
+      return { Authorization: `DeepL-Auth-Key ${config.apiKey}` };
+    case "none":
+      return {};
+  }
+}
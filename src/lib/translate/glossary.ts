@@ -0,0 +1,116 @@
+import { isLanguageCode, type LanguageCode, type LanguageOption } from "@/lib/languages";
+
+/**
+ * Glossary entry as edited in the UI (stored in localStorage).
+ * - "term": `source` (in sourceLang) must be translated as `target` (in targetLang)
+ * - "keep": `source` must appear verbatim in every translation (product names, ...)
+ */
+export type GlossaryEntry =
+  | {
+      id: string;
+      kind: "term";
+      sourceLang: LanguageCode;
+      targetLang: LanguageCode;
+      source: string;
+      target: string;
+    }
+  | { id: string; kind: "keep"; source: string };
+
+/**
+ * What a translate request carries: the entries for its language pair, flattened.
+ * For do-not-translate entries `target === source`.
+ */
+export interface GlossaryRule {
+  source: string;
+  target: string;
+}
+
+/**
+ * A rule whose source term appears in the text, but whose target term is missing
+ * from the translation.
+ */
+export type GlossaryViolation = GlossaryRule;
+
+export const MAX_GLOSSARY_RULES = 200;
+const MAX_GLOSSARY_TERM_CHARS = 200;
+
+export function isGlossaryEntry(value: unknown): value is GlossaryEntry {
+  if (!value || typeof value !== "object") return false;
+  const e = value as Record<string, unknown>;
+  if (typeof e.id !== "string" || typeof e.source !== "string") return false;
+  if (e.kind === "keep") return true;
+  return (
+    e.kind === "term" &&
+    isLanguageCode(e.sourceLang) &&
+    isLanguageCode(e.targetLang) &&
+    typeof e.target === "string"
+  );
+}
+
+/**
+ * Rules that apply when translating `sourceLang` → `targetLang`. With auto-detected input
+ * every source language is a candidate; rules only fire when their term occurs anyway.
+ */
+export function glossaryRulesFor(
+  entries: GlossaryEntry[],
+  sourceLang: LanguageOption,
+  targetLang: LanguageCode,
+): GlossaryRule[] {
+  const rules: GlossaryRule[] = [];
+  for (const e of entries) {
+    const source = e.source.trim();
+    if (!source) continue;
+    if (e.kind === "keep") {
+      rules.push({ source, target: source });
+      continue;
+    }
+    const target = e.target.trim();
+    if (!target || e.targetLang !== targetLang) continue;
+    if (sourceLang !== "auto" && e.sourceLang !== sourceLang) continue;
+    rules.push({ source, target });
+  }
+  return rules.slice(0, MAX_GLOSSARY_RULES);
+}
+
+/**
+ * Returns an error message for a malformed `glossary` request field, else null.
+ */
+export function validateGlossaryRules(value: unknown): string | null {
+  if (value == null) return null;
+  if (!Array.isArray(value)) return "glossary must be an array.";
+  if (value.length > MAX_GLOSSARY_RULES) {
+    return `glossary may have at most ${MAX_GLOSSARY_RULES} entries.`;
+  }
+  for (const rule of value) {
+    const r = rule as Partial<GlossaryRule> | null;
+    if (
+      typeof r?.source !== "string" ||
+      typeof r.target !== "string" ||
+      !r.source.trim() ||
+      r.source.length > MAX_GLOSSARY_TERM_CHARS ||
+      r.target.length > MAX_GLOSSARY_TERM_CHARS
+    ) {
+      return `glossary entries need a non-empty source and a target of at most ${MAX_GLOSSARY_TERM_CHARS} characters.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Rules the translation broke. Matching is a case-insensitive substring check, which works
+ * for scripts without word boundaries (ja, zh, th) at the cost of the odd false positive.
+ */
+export function findGlossaryViolations(
+  text: string,
+  translation: string,
+  rules: GlossaryRule[],
+): GlossaryViolation[] {
+  if (!translation) return [];
+  const haystack = text.toLocaleLowerCase();
+  const translated = translation.toLocaleLowerCase();
+  return rules.filter(
+    (r) =>
+      haystack.includes(r.source.toLocaleLowerCase()) &&
+      !translated.includes(r.target.toLocaleLowerCase()),
+  );
+}
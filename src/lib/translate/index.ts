@@ -0,0 +1,30 @@
+import { createAnthropicProvider } from "./providers/anthropic";
+import { createDeepLProvider } from "./providers/deepl";
+import { createMockProvider } from "./providers/mock";
+import { createOpenAIProvider } from "./providers/openai";
+import type { TranslationProvider, TranslationProviderConfig } from "./types";
+
+export { resolveTranslationConfig } from "./config";
+export {
+  checkGlossary,
+  emptyTranslateResponse,
+  providerErrorBody,
+  toTranslateInput,
+  validateTranslateRequest,
+} from "./request";
+export * from "./types";
+
+export function createTranslationProvider(config: TranslationProviderConfig): TranslationProvider {
+  switch (config.provider) {
+    case "openai":
+    case "azure-openai":
+    case "openai-compatible":
+      return createOpenAIProvider(config);
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "deepl":
+      return createDeepLProvider(config);
+    case "mock":
+      return createMockProvider(config);
+  }
+}
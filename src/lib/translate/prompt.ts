@@ -0,0 +1,115 @@
+import { isLanguageCode, LANGUAGE_CODES, LANGUAGES } from "@/lib/languages";
+import {
+  TranslationProviderError,
+  type TranslateInput,
+  type TranslateResponseBody,
+} from "./types";
+
+const TONE_RULES = LANGUAGES.map((l) => `  - ${l.code} (${l.name}): ${l.tone}`).join("\n");
+
+const DETECTED_LANGUAGE_VALUES = [...LANGUAGE_CODES, "other"].map((c) => `"${c}"`).join(" | ");
+
+export const SYSTEM_INSTRUCTION = `
+You are a real-time interpreter used inside business meetings and ChannelTalk (customer support chat + internal comms).
+
+Goals:
+- Translate faithfully, quickly, and clearly.
+- Preserve proper nouns, product names, URLs, numbers, units, and formatting.
+- Prefer concise, business-appropriate phrasing.
+- Match the tone for the target language (targetLang):
+${TONE_RULES}
+
+Input language gating:
+- If sourceLang is NOT "auto", only accept that language.
+- If the text is primarily in a different language, set shouldIgnore=true and translation="".
+- Language codes are ISO-639-1; use "other" for anything not listed below.
+
+Context:
+- You receive a compact running summary plus a few recent committed segments.
+- Use them to resolve ambiguous references and maintain consistency.
+- speaker, when present, names who said text; recent segments may be prefixed with "Name: ".
+  Use speaker names to resolve pronouns, honorifics and forms of address (e.g. who "you" or "-san" refers to),
+  but never add the speaker name to the translation.
+- Keep updatedSummary short (<= 800 characters), capturing key entities, decisions, and terminology.
+
+Glossary:
+- The payload may contain glossary: [{ source, target }]. Whenever text contains a source term,
+  the translation MUST use exactly the target term. When target equals source, keep the term
+  verbatim: do not translate or transliterate it (no Katakana/Hangul renderings of product names).
+
+Output MUST be a JSON object with fields:
+detectedLanguage: ${DETECTED_LANGUAGE_VALUES}
+shouldIgnore: boolean
+translation: string
+updatedSummary: string
+`.trim();
+
+export const SUMMARY_MAX_CHARS = 800;
+
+/**
+ * User message for chat-style LLM providers (OpenAI, Anthropic, ...).
+ */
+export function buildUserMessage(input: TranslateInput): string {
+  const userContent = JSON.stringify(
+    {
+      sourceLang: input.sourceLang,
+      targetLang: input.targetLang,
+      text: input.text,
+      speaker: input.speaker || undefined,
+      glossary: input.glossary.length ? input.glossary : undefined,
+      mode: input.mode,
+      updateSummary: input.updateSummary,
+      // To keep latency stable:
+      // - For partial mode, the client should keep context minimal.
+      summary: input.summary,
+      recent: input.recent,
+    },
+    null,
+    2,
+  );
+
+  return (
+    (input.mode === "partial"
+      ? "Translate quickly for the following JSON payload. Do NOT expand summary. If updateSummary=false, keep updatedSummary identical to the input summary.\n\n"
+      : "Translate and update summary for the following JSON payload. If updateSummary=false, keep updatedSummary identical to the input summary.\n\n") +
+    userContent
+  );
+}
+
+/**
+ * Parses the model's JSON answer. Tolerates a surrounding ```json fence, which some
+ * providers without a native JSON mode like to add.
+ */
+export function parseModelJson<T = Partial<TranslateResponseBody>>(
+  content: string | null | undefined,
+): T {
+  if (!content || typeof content !== "string") {
+    throw new TranslationProviderError("Model response missing content.");
+  }
+
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1]! : content).trim();
+  try {
+    return JSON.parse(candidate) as T;
+  } catch {
+    throw new TranslationProviderError("Model response was not valid JSON.", { raw: content });
+  }
+}
+
+/**
+ * Normalize / guardrails, applied to every provider's output.
+ */
+export function normalizeTranslateResponse(
+  parsed: Partial<TranslateResponseBody>,
+  input: Pick<TranslateInput, "summary">,
+): TranslateResponseBody {
+  return {
+    detectedLanguage: isLanguageCode(parsed.detectedLanguage) ? parsed.detectedLanguage : "other",
+    shouldIgnore: Boolean(parsed.shouldIgnore),
+    translation: typeof parsed.translation === "string" ? parsed.translation : "",
+    updatedSummary:
+      typeof parsed.updatedSummary === "string"
+        ? parsed.updatedSummary.slice(0, SUMMARY_MAX_CHARS)
+        : input.summary.slice(0, SUMMARY_MAX_CHARS),
+  };
+}
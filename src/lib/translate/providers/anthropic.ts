@@ -0,0 +1,156 @@
+import { authHeaders } from "../config";
+import { buildUserMessage, normalizeTranslateResponse, parseModelJson, SYSTEM_INSTRUCTION } from "../prompt";
+import { createTranslationTracker, readSseStream } from "../stream";
+import {
+  TranslationProviderError,
+  type TranslateInput,
+  type TranslationProvider,
+  type TranslationProviderConfig,
+  type TranslationUsage,
+} from "../types";
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessagesResponse {
+  content?: Array<{ type?: string; text?: string }>;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type?: string;
+  delta?: { type?: string; text?: string };
+  // message_start carries the input tokens, message_delta the running output count.
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// The reply is prefilled with this, so it must be prepended to what the model returns.
+const PREFILL = "{";
+
+/**
+ * Anthropic Messages API. There is no JSON mode, so the reply is prefilled with "{"
+ * to keep the model on the JSON contract described in SYSTEM_INSTRUCTION.
+ */
+export function createAnthropicProvider(config: TranslationProviderConfig): TranslationProvider {
+  // Messages call with the reply prefilled; `body` adds the model, system prompt and settings.
+  async function post(user: string, body: Record<string, unknown>, signal?: AbortSignal) {
+    const resp = await fetch(`${config.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        ...authHeaders(config),
+        "anthropic-version": ANTHROPIC_VERSION,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        ...body,
+        messages: [
+          { role: "user", content: user },
+          { role: "assistant", content: PREFILL },
+        ],
+      }),
+      cache: "no-store",
+      signal,
+    });
+
+    if (!resp.ok) {
+      const details = await resp.text().catch(() => "");
+      throw new TranslationProviderError("Translation request failed.", {
+        status: resp.status,
+        details: details || undefined,
+      });
+    }
+    return resp;
+  }
+
+  function request(input: TranslateInput, stream: boolean, signal?: AbortSignal) {
+    return post(
+      buildUserMessage(input),
+      {
+        model: input.mode === "partial" ? config.partialModel : config.model,
+        max_tokens: 1024,
+        temperature: input.mode === "partial" ? 0.1 : 0.2,
+        ...(stream ? { stream: true } : null),
+        system: SYSTEM_INSTRUCTION,
+      },
+      signal,
+    );
+  }
+
+  function replyText(data: AnthropicMessagesResponse): string {
+    return (data.content || [])
+      .filter((c) => c.type === "text" && typeof c.text === "string")
+      .map((c) => c.text)
+      .join("");
+  }
+
+  function toUsage(usage: AnthropicUsage | undefined): TranslationUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      inputTokens: usage.input_tokens ?? 0,
+      outputTokens: usage.output_tokens ?? 0,
+      characters: 0,
+    };
+  }
+
+  return {
+    id: config.provider,
+    async translate(input) {
+      const resp = await request(input, false);
+      const data = (await resp.json()) as AnthropicMessagesResponse;
+      const text = replyText(data);
+      const parsed = parseModelJson(text ? PREFILL + text : null);
+      return { ...normalizeTranslateResponse(parsed, input), usage: toUsage(data.usage) };
+    },
+    async translateStream(input, onText, signal) {
+      const resp = await request(input, true, signal);
+      if (!resp.body) throw new TranslationProviderError("Model response missing content.");
+
+      const track = createTranslationTracker(onText);
+      let text = "";
+      const usage: TranslationUsage = { inputTokens: 0, outputTokens: 0, characters: 0 };
+      await readSseStream(resp.body, ({ event, data }) => {
+        if (event === "message_start" || event === "message_delta") {
+          try {
+            const evt = JSON.parse(data) as AnthropicStreamEvent;
+            const u = evt.message?.usage ?? evt.usage;
+            if (u?.input_tokens) usage.inputTokens = u.input_tokens;
+            if (u?.output_tokens) usage.outputTokens = u.output_tokens;
+          } catch {
+            // ignore malformed events
+          }
+          return;
+        }
+        if (event !== "content_block_delta") return;
+        try {
+          const evt = JSON.parse(data) as AnthropicStreamEvent;
+          if (evt.delta?.type !== "text_delta" || !evt.delta.text) return;
+          text += evt.delta.text;
+          track(PREFILL + text);
+        } catch {
+          // ignore malformed events
+        }
+      });
+
+      const parsed = parseModelJson(text ? PREFILL + text : null);
+      return { ...normalizeTranslateResponse(parsed, input), usage };
+    },
+    async completeJson({ system, user, maxTokens, signal }) {
+      const resp = await post(
+        user,
+        { model: config.model, max_tokens: maxTokens, temperature: 0.2, system },
+        signal,
+      );
+      const data = (await resp.json()) as AnthropicMessagesResponse;
+      const text = replyText(data);
+      return {
+        json: parseModelJson<unknown>(text ? PREFILL + text : null),
+        usage: toUsage(data.usage),
+      };
+    },
+  };
+}
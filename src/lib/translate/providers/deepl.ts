@@ -0,0 +1,80 @@
+import { getLanguage, isLanguageCode } from "@/lib/languages";
+import { authHeaders } from "../config";
+import { normalizeTranslateResponse } from "../prompt";
+import {
+  TranslationProviderError,
+  type TranslateInput,
+  type TranslationProvider,
+  type TranslationProviderConfig,
+} from "../types";
+
+interface DeepLTranslateResponse {
+  translations?: Array<{
+    detected_source_language?: string;
+    text?: string;
+  }>;
+}
+
+/**
+ * DeepL machine translation. DeepL cannot maintain the running summary, so
+ * updatedSummary always echoes the input. Language gating is done locally from
+ * DeepL's detected source language.
+ * Glossary rules are not applied (DeepL glossaries have to be created up front); the
+ * route still flags translations that broke them.
+ */
+export function createDeepLProvider(config: TranslationProviderConfig): TranslationProvider {
+  return {
+    id: config.provider,
+    async translate(input: TranslateInput) {
+      const target = getLanguage(input.targetLang);
+      if (!target.deeplTarget) {
+        throw new TranslationProviderError(`DeepL does not support ${target.name} as a target language.`);
+      }
+
+      const resp = await fetch(`${config.baseUrl}/v2/translate`, {
+        method: "POST",
+        headers: {
+          ...authHeaders(config),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          text: [input.text],
+          target_lang: target.deeplTarget,
+          // `context` is not translated or billed, but steers the translation.
+          ...(input.recent.length ? { context: input.recent.join("\n") } : null),
+        }),
+        cache: "no-store",
+      });
+
+      if (!resp.ok) {
+        const details = await resp.text().catch(() => "");
+        throw new TranslationProviderError("Translation request failed.", {
+          status: resp.status,
+          details: details || undefined,
+        });
+      }
+
+      const data = (await resp.json()) as DeepLTranslateResponse;
+      const first = data.translations?.[0];
+      if (!first || typeof first.text !== "string") {
+        throw new TranslationProviderError("Model response missing content.");
+      }
+
+      const detected = (first.detected_source_language || "").toLowerCase();
+      const detectedLanguage = isLanguageCode(detected) ? detected : "other";
+      const shouldIgnore = input.sourceLang !== "auto" && detectedLanguage !== input.sourceLang;
+
+      const out = normalizeTranslateResponse(
+        {
+          detectedLanguage,
+          shouldIgnore,
+          translation: shouldIgnore ? "" : first.text,
+          updatedSummary: input.summary,
+        },
+        input,
+      );
+      // DeepL bills the source text; `context` is free.
+      return { ...out, usage: { inputTokens: 0, outputTokens: 0, characters: input.text.length } };
+    },
+  };
+}
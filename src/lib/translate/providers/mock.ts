@@ -0,0 +1,151 @@
+import type { DetectedLanguage } from "@/lib/languages";
+import { normalizeTranslateResponse } from "../prompt";
+import type {
+  JsonCompletionRequest,
+  TranslateInput,
+  TranslateResult,
+  TranslationProvider,
+  TranslationProviderConfig,
+} from "../types";
+
+// Fixed delays, so loading states and partial streaming behave like a real (fast) model.
+const RESPONSE_DELAY_MS = 150;
+const STREAM_WORD_DELAY_MS = 40;
+const SUMMARY_MAX_LINES = 8;
+const SUMMARY_LINE_CHARS = 80;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Script-based guess, enough to exercise language gating with `auto`.
+function detectLanguage(text: string): DetectedLanguage {
+  if (/[\u3040-\u30ff]/.test(text)) return "ja";
+  if (/[\uac00-\ud7af]/.test(text)) return "ko";
+  if (/[\u4e00-\u9fff]/.test(text)) return "zh";
+  if (/[\u0e00-\u0e7f]/.test(text)) return "th";
+  return /\p{L}/u.test(text) ? "en" : "other";
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mockTranslate(input: TranslateInput): TranslateResult {
+  const detectedLanguage =
+    input.sourceLang === "auto" ? detectLanguage(input.text) : input.sourceLang;
+  // Nothing but noise and punctuation: what a model would ignore.
+  const shouldIgnore = detectedLanguage === "other";
+
+  let text = input.text;
+  for (const rule of input.glossary) {
+    text = text.replace(new RegExp(escapeRegExp(rule.source), "gi"), rule.target);
+  }
+
+  let updatedSummary = input.summary;
+  if (input.updateSummary && !shouldIgnore) {
+    const line = `- ${input.speaker ? `${input.speaker}: ` : ""}${clip(input.text, SUMMARY_LINE_CHARS)}`;
+    const lines = [...input.summary.split("\n").filter(Boolean), line];
+    updatedSummary = lines.slice(-SUMMARY_MAX_LINES).join("\n");
+  }
+
+  const out = normalizeTranslateResponse(
+    {
+      detectedLanguage,
+      shouldIgnore,
+      translation: shouldIgnore ? "" : `[${input.targetLang}] ${text}`,
+      updatedSummary,
+    },
+    input,
+  );
+  return { ...out, usage: { inputTokens: 0, outputTokens: 0, characters: input.text.length } };
+}
+
+function lineSpeaker(line: string): { speaker: string | null; text: string } {
+  const m = line.match(/^([^:]{1,80}):\s*(.*)$/);
+  return m ? { speaker: m[1]!, text: m[2]! } : { speaker: null, text: line };
+}
+
+// Minutes from keywords: "decide"/"agree" lines are decisions, "will" lines action items and
+// questions stay open. Merging concatenates the parts.
+function mockMinutes(request: JsonCompletionRequest): unknown {
+  const start = request.user.indexOf("{");
+  const body = (start === -1 ? {} : JSON.parse(request.user.slice(start))) as {
+    transcript?: string;
+    parts?: Array<Record<string, unknown>>;
+  };
+
+  if (Array.isArray(body.parts)) {
+    const all = (key: string) => body.parts!.flatMap((p) => (Array.isArray(p[key]) ? p[key] : []));
+    return {
+      overview: body.parts
+        .map((p) => p.overview)
+        .filter(Boolean)
+        .join(" "),
+      decisions: all("decisions"),
+      actionItems: all("actionItems"),
+      openQuestions: all("openQuestions"),
+    };
+  }
+
+  const lines = (body.transcript ?? "").split("\n").filter(Boolean);
+  return {
+    overview: `Mock minutes of ${lines.length} transcript lines, starting with: "${clip(lineSpeaker(lines[0] ?? "").text, SUMMARY_LINE_CHARS)}"`,
+    decisions: lines
+      .filter((l) => /\b(decide|decided|agree|agreed)\b/i.test(l))
+      .map((l) => lineSpeaker(l).text),
+    actionItems: lines
+      .filter((l) => /\bwill\b/i.test(l))
+      .map((l) => ({ task: lineSpeaker(l).text, owner: lineSpeaker(l).speaker, due: null })),
+    openQuestions: lines.filter((l) => l.trim().endsWith("?")).map((l) => lineSpeaker(l).text),
+  };
+}
+
+/**
+ * Deterministic stand-in for a translation model, for demos and development without network
+ * access: the translation is the source text tagged with the target language (glossary terms
+ * replaced), the summary keeps the last few committed lines, and minutes are keyword-based.
+ */
+export function createMockProvider(config: TranslationProviderConfig): TranslationProvider {
+  return {
+    id: config.provider,
+
+    async translate(input) {
+      await sleep(RESPONSE_DELAY_MS);
+      return mockTranslate(input);
+    },
+
+    async translateStream(input, onText, signal) {
+      const result = mockTranslate(input);
+      const words = result.shouldIgnore ? [] : result.translation.split(" ");
+      for (let i = 1; i <= words.length; i++) {
+        await sleep(STREAM_WORD_DELAY_MS, signal);
+        onText(words.slice(0, i).join(" "));
+      }
+      return result;
+    },
+
+    async completeJson(request) {
+      await sleep(RESPONSE_DELAY_MS, request.signal);
+      return {
+        json: mockMinutes(request),
+        usage: { inputTokens: 0, outputTokens: 0, characters: request.user.length },
+      };
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import { authHeaders } from "../config";
+import { buildUserMessage, normalizeTranslateResponse, parseModelJson, SYSTEM_INSTRUCTION } from "../prompt";
+import { createTranslationTracker, readSseStream } from "../stream";
+import {
+  TranslationProviderError,
+  type TranslateInput,
+  type TranslationProvider,
+  type TranslationProviderConfig,
+  type TranslationUsage,
+} from "../types";
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIChatCompletionsResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIChatCompletionsChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+  // Only on the last chunk (stream_options.include_usage).
+  usage?: OpenAIUsage | null;
+}
+
+function toUsage(usage: OpenAIUsage | null | undefined): TranslationUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+    characters: 0,
+  };
+}
+
+/**
+ * Chat Completions API. Covers api.openai.com, Azure OpenAI (deployment-scoped URL +
+ * `api-key` header) and self-hosted OpenAI-compatible servers such as vLLM or Ollama.
+ */
+export function createOpenAIProvider(config: TranslationProviderConfig): TranslationProvider {
+  function completionsUrl(model: string): string {
+    if (config.provider === "azure-openai") {
+      const version = encodeURIComponent(config.apiVersion || "");
+      return `${config.baseUrl}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${version}`;
+    }
+    return `${config.baseUrl}/chat/completions`;
+  }
+
+  // JSON-mode Chat Completions call; `body` adds the messages and sampling settings.
+  async function post(model: string, body: Record<string, unknown>, signal?: AbortSignal) {
+    const resp = await fetch(completionsUrl(model), {
+      method: "POST",
+      headers: {
+        ...authHeaders(config),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        // Azure routes by deployment in the URL and ignores this field.
+        model,
+        response_format: { type: "json_object" },
+        ...body,
+      }),
+      cache: "no-store",
+      signal,
+    });
+
+    if (!resp.ok) {
+      const details = await resp.text().catch(() => "");
+      throw new TranslationProviderError("Translation request failed.", {
+        status: resp.status,
+        details: details || undefined,
+      });
+    }
+    return resp;
+  }
+
+  function request(input: TranslateInput, stream: boolean, signal?: AbortSignal) {
+    const model = input.mode === "partial" ? config.partialModel : config.model;
+    return post(
+      model,
+      {
+        temperature: input.mode === "partial" ? 0.1 : 0.2,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : null),
+        messages: [
+          { role: "system", content: SYSTEM_INSTRUCTION },
+          { role: "user", content: buildUserMessage(input) },
+        ],
+      },
+      signal,
+    );
+  }
+
+  return {
+    id: config.provider,
+    async translate(input) {
+      const resp = await request(input, false);
+      const data = (await resp.json()) as OpenAIChatCompletionsResponse;
+      const parsed = parseModelJson(data.choices?.[0]?.message?.content);
+      return { ...normalizeTranslateResponse(parsed, input), usage: toUsage(data.usage) };
+    },
+    async translateStream(input, onText, signal) {
+      const resp = await request(input, true, signal);
+      if (!resp.body) throw new TranslationProviderError("Model response missing content.");
+
+      const track = createTranslationTracker(onText);
+      let content = "";
+      let usage: TranslationUsage | undefined;
+      await readSseStream(resp.body, ({ data }) => {
+        if (data === "[DONE]") return;
+        try {
+          const chunk = JSON.parse(data) as OpenAIChatCompletionsChunk;
+          usage = toUsage(chunk.usage) ?? usage;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (!delta) return;
+          content += delta;
+          track(content);
+        } catch {
+          // ignore keep-alives / malformed chunks
+        }
+      });
+
+      return { ...normalizeTranslateResponse(parseModelJson(content), input), usage };
+    },
+    async completeJson({ system, user, maxTokens, signal }) {
+      const resp = await post(
+        config.model,
+        {
+          temperature: 0.2,
+          max_tokens: maxTokens,
+          messages: [
+            { role: "system", content: system },
+            { role: "user", content: user },
+          ],
+        },
+        signal,
+      );
+      const data = (await resp.json()) as OpenAIChatCompletionsResponse;
+      return {
+        json: parseModelJson<unknown>(data.choices?.[0]?.message?.content),
+        usage: toUsage(data.usage),
+      };
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { isLanguageCode, isLanguageOption } from "@/lib/languages";
+import { findGlossaryViolations, validateGlossaryRules } from "./glossary";
+import {
+  TranslationProviderError,
+  type TranslateInput,
+  type TranslateRequestBody,
+  type TranslateResponseBody,
+} from "./types";
+
+const MAX_SPEAKER_CHARS = 80;
+
+/**
+ * Returns an error message for a request the route should reject with 400, else null.
+ */
+export function validateTranslateRequest(payload: TranslateRequestBody): string | null {
+  if (!isLanguageOption(payload.sourceLang)) return `Unsupported sourceLang "${String(payload.sourceLang)}".`;
+  if (!isLanguageCode(payload.targetLang)) return `Unsupported targetLang "${String(payload.targetLang)}".`;
+  if (payload.speaker != null && (typeof payload.speaker !== "string" || payload.speaker.length > MAX_SPEAKER_CHARS)) {
+    return `speaker must be a string of at most ${MAX_SPEAKER_CHARS} characters.`;
+  }
+  return validateGlossaryRules(payload.glossary);
+}
+
+/**
+ * Applies request defaults. `text` must already be trimmed and non-empty.
+ */
+export function toTranslateInput(payload: TranslateRequestBody, text: string): TranslateInput {
+  return {
+    sourceLang: payload.sourceLang,
+    targetLang: payload.targetLang,
+    text,
+    mode: payload.mode === "partial" ? "partial" : "committed",
+    updateSummary: Boolean(payload.updateSummary),
+    summary: payload.summary || "",
+    recent: payload.recent || [],
+    speaker: (payload.speaker || "").trim(),
+    glossary: payload.glossary || [],
+  };
+}
+
+/**
+ * Flags glossary rules the provider's translation broke. Providers are asked to follow the
+ * glossary, but nothing guarantees they do.
+ */
+export function checkGlossary(input: TranslateInput, out: TranslateResponseBody): TranslateResponseBody {
+  const violations = findGlossaryViolations(input.text, out.translation, input.glossary);
+  return violations.length ? { ...out, glossaryViolations: violations } : out;
+}
+
+export function emptyTranslateResponse(payload: TranslateRequestBody): TranslateResponseBody {
+  return {
+    detectedLanguage: "other",
+    shouldIgnore: false,
+    translation: "",
+    updatedSummary: payload.summary || "",
+  };
+}
+
+/**
+ * JSON error body for a failed provider call (sent with status 502).
+ */
+export function providerErrorBody(e: unknown) {
+  if (e instanceof TranslationProviderError) {
+    return {
+      error: e.message,
+      status: e.status,
+      details: e.details,
+      raw: e.raw,
+    };
+  }
+  return {
+    error: "Translation request failed.",
+    details: e instanceof Error ? e.message : undefined,
+  };
+}
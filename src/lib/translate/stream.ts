@@ -0,0 +1,111 @@
+/**
+ * Server-sent events helpers shared by the streaming translate route (server) and the
+ * page that consumes it (browser). Keep this module free of server-only imports.
+ */
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseSseBlock(block: string): SseEvent | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+  return data.length ? { event, data: data.join("\n") } : null;
+}
+
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (evt: SseEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const separator = /\r?\n\r?\n/;
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let match = separator.exec(buffer);
+    while (match) {
+      const evt = parseSseBlock(buffer.slice(0, match.index));
+      buffer = buffer.slice(match.index + match[0].length);
+      if (evt) onEvent(evt);
+      match = separator.exec(buffer);
+    }
+  }
+
+  const tail = parseSseBlock(buffer + decoder.decode());
+  if (tail) onEvent(tail);
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Reads a string field out of an incomplete JSON document, e.g. the model's answer
+ * while it is still being generated. Returns null until the field has started.
+ */
+export function extractPartialStringField(json: string, field: string): string | null {
+  const start = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+  if (!start) return null;
+
+  let out = "";
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const ch = json[i]!;
+    if (ch === '"') break;
+    if (ch !== "\\") {
+      out += ch;
+      continue;
+    }
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    out += JSON_ESCAPES[next] ?? next;
+    i += 1;
+  }
+  return out;
+}
+
+/**
+ * Feeds the accumulated model output and reports the translation text whenever it grows.
+ * Nothing is reported once the model has decided to ignore the segment.
+ */
+export function createTranslationTracker(onText: (translation: string) => void) {
+  let last = "";
+  return (buffer: string) => {
+    if (/"shouldIgnore"\s*:\s*true/.test(buffer)) return;
+    const text = extractPartialStringField(buffer, "translation");
+    if (text === null || text === last) return;
+    last = text;
+    onText(text);
+  };
+}
@@ -0,0 +1,131 @@
+import type { DetectedLanguage, LanguageCode, LanguageOption } from "@/lib/languages";
+import type { GlossaryRule, GlossaryViolation } from "./glossary";
+
+export type { DetectedLanguage, GlossaryRule, GlossaryViolation, LanguageCode, LanguageOption };
+
+export type TranslateMode = "partial" | "committed";
+
+export interface TranslateRequestBody {
+  sourceLang: LanguageOption;
+  targetLang: LanguageCode;
+  text: string;
+  mode?: TranslateMode;
+  updateSummary?: boolean;
+  // Long-meeting context strategy:
+  // - summary: compact, updatable memory of the meeting so far
+  // - recent: most recent committed segments (high fidelity), "Name: text" when speakers are known
+  summary?: string;
+  recent?: string[];
+  // Display name of whoever said `text`, when known.
+  speaker?: string;
+  // Terminology for this language pair; see glossaryRulesFor.
+  glossary?: GlossaryRule[];
+}
+
+export interface TranslateResponseBody {
+  detectedLanguage: DetectedLanguage;
+  shouldIgnore: boolean;
+  translation: string;
+  updatedSummary: string;
+  // Set by the route when the translation broke a glossary rule.
+  glossaryViolations?: GlossaryViolation[];
+}
+
+/** What one provider call consumed, for usage accounting (0 when the provider doesn't say). */
+export interface TranslationUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // Billed characters, for character-priced providers (DeepL).
+  characters: number;
+}
+
+/** Provider result: the response body plus usage, which the route records and strips. */
+export interface TranslateResult extends TranslateResponseBody {
+  usage?: TranslationUsage;
+}
+
+/**
+ * Request after route-level validation/defaults. This is what providers receive.
+ */
+export interface TranslateInput {
+  sourceLang: LanguageOption;
+  targetLang: LanguageCode;
+  text: string;
+  mode: TranslateMode;
+  updateSummary: boolean;
+  summary: string;
+  recent: string[];
+  speaker: string;
+  glossary: GlossaryRule[];
+}
+
+export type TranslationProviderId =
+  | "openai"
+  | "azure-openai"
+  | "openai-compatible"
+  | "anthropic"
+  | "deepl"
+  | "mock";
+
+export type TranslationAuthScheme = "bearer" | "api-key" | "x-api-key" | "deepl" | "none";
+
+export interface TranslationProviderConfig {
+  provider: TranslationProviderId;
+  baseUrl: string;
+  apiKey: string | null;
+  authScheme: TranslationAuthScheme;
+  model: string;
+  partialModel: string;
+  // Azure OpenAI only (`api-version` query parameter).
+  apiVersion?: string;
+}
+
+export interface TranslationProvider {
+  readonly id: TranslationProviderId;
+  translate(input: TranslateInput): Promise<TranslateResult>;
+  /**
+   * Same contract as translate(), but reports the translation text as the model produces it.
+   * Providers without token streaming leave this undefined.
+   */
+  translateStream?(
+    input: TranslateInput,
+    onText: (translation: string) => void,
+    signal?: AbortSignal,
+  ): Promise<TranslateResult>;
+  /**
+   * One JSON answer from the committed model to a system + user prompt, for work beyond
+   * translation (meeting minutes). Providers that aren't language models leave this undefined.
+   */
+  completeJson?(request: JsonCompletionRequest): Promise<JsonCompletion>;
+}
+
+export interface JsonCompletionRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+export interface JsonCompletion {
+  // Parsed, but not validated: callers normalize it.
+  json: unknown;
+  usage?: TranslationUsage;
+}
+
+/**
+ * Thrown by providers when the upstream call fails or returns something unusable.
+ * The route turns this into a 502 JSON error.
+ */
+export class TranslationProviderError extends Error {
+  readonly status?: number;
+  readonly details?: string;
+  readonly raw?: string;
+
+  constructor(message: string, extra: { status?: number; details?: string; raw?: string } = {}) {
+    super(message);
+    this.name = "TranslationProviderError";
+    this.status = extra.status;
+    this.details = extra.details;
+    this.raw = extra.raw;
+  }
+}
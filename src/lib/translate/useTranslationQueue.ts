@@ -0,0 +1,243 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LanguageCode } from "@/lib/languages";
+import { ApiError, RateLimitError } from "@/lib/limits/errors";
+import type { TranslateRequestBody, TranslateResponseBody } from "./types";
+
+// Committed translations in flight at once; more would only queue up at the provider.
+const MAX_CONCURRENT = 3;
+// Automatic retries after the first attempt, with exponential backoff (+/-25% jitter).
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 15_000;
+// A rate-limited job waits for Retry-After; a longer wait (a used-up daily quota) fails it.
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+
+export interface TranslationJob {
+  // Id of the translated line the job produces.
+  id: string;
+  sourceId: string;
+  lang: LanguageCode;
+  // Sent with the running summary as it is when the job starts.
+  request: Omit<TranslateRequestBody, "summary">;
+}
+
+/** A job that hasn't produced its line yet: queued or running, or given up on. */
+export type TranslationJobState =
+  { status: "pending"; retries: number } | { status: "failed"; error: string };
+
+interface JobRecord {
+  job: TranslationJob;
+  phase: "queued" | "running" | "failed";
+  // Automatic retries since the job was (re)queued; failures counts all failed attempts.
+  retries: number;
+  failures: number;
+  notBefore: number;
+  error?: string;
+}
+
+export interface UseTranslationQueueOptions {
+  translate: (body: TranslateRequestBody) => Promise<TranslateResponseBody>;
+  // Called as each job succeeds, in whatever order they finish; a job waiting out retries doesn't
+  // hold back later ones. `failures`: failed attempts before this result.
+  onResult: (job: TranslationJob, result: TranslateResponseBody, failures: number) => void;
+  // Every failed attempt, including the ones that are retried.
+  onError: (error: unknown) => void;
+  // Running summary. Jobs with `updateSummary` replace it one at a time, in enqueue order.
+  summary: string;
+  onSummary: (summary: string) => void;
+  // Shared backoff (ms since epoch, e.g. after a 429 elsewhere); no job starts before it.
+  notBefore: () => number;
+}
+
+function isRetryable(e: unknown): boolean {
+  if (e instanceof RateLimitError) return e.retryAfterMs <= MAX_RATE_LIMIT_WAIT_MS;
+  // Rejected requests fail the same way every time; server errors and dropped connections may not.
+  if (e instanceof ApiError) return e.status >= 500 || e.status === 408;
+  return true;
+}
+
+function retryDelay(e: unknown, retries: number): number {
+  if (e instanceof RateLimitError) return e.retryAfterMs;
+  const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** (retries - 1), RETRY_MAX_DELAY_MS);
+  return backoff * (0.75 + Math.random() * 0.5);
+}
+
+/**
+ * Runs committed-segment translations a few at a time, retrying transient failures, and reports
+ * each result as soon as it arrives.
+ */
+export function useTranslationQueue(options: UseTranslationQueueOptions) {
+  const { translate, onResult, onError, summary, onSummary, notBefore } = options;
+  const [states, setStates] = useState<Record<string, TranslationJobState>>({});
+
+  // Insertion order is enqueue order; finished jobs are dropped once reported.
+  const jobsRef = useRef(new Map<string, JobRecord>());
+  const runningRef = useRef(0);
+  const timerRef = useRef<number | null>(null);
+  // Bumped by clear(), so answers to dropped jobs are ignored.
+  const generationRef = useRef(0);
+  const summaryRef = useRef(summary);
+  const translateRef = useRef(translate);
+  const onResultRef = useRef(onResult);
+  const onErrorRef = useRef(onError);
+  const onSummaryRef = useRef(onSummary);
+  const notBeforeRef = useRef(notBefore);
+  const pumpRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    translateRef.current = translate;
+    onResultRef.current = onResult;
+    onErrorRef.current = onError;
+    onSummaryRef.current = onSummary;
+    notBeforeRef.current = notBefore;
+  }, [notBefore, onError, onResult, onSummary, translate]);
+
+  useEffect(() => {
+    summaryRef.current = summary;
+  }, [summary]);
+
+  const publish = useCallback(() => {
+    const next: Record<string, TranslationJobState> = {};
+    for (const [id, r] of jobsRef.current) {
+      next[id] =
+        r.phase === "failed"
+          ? { status: "failed", error: r.error ?? "" }
+          : { status: "pending", retries: r.retries };
+    }
+    setStates(next);
+  }, []);
+
+  const run = useCallback(
+    async (r: JobRecord) => {
+      const generation = generationRef.current;
+      r.phase = "running";
+      runningRef.current += 1;
+
+      let result: TranslateResponseBody | null = null;
+      let error: unknown = null;
+      try {
+        result = await translateRef.current({ ...r.job.request, summary: summaryRef.current });
+      } catch (e) {
+        error = e;
+      }
+      if (generation !== generationRef.current) return;
+      runningRef.current -= 1;
+
+      if (result) {
+        if (r.job.request.updateSummary && typeof result.updatedSummary === "string") {
+          // Read by the next summary job before React has re-rendered.
+          summaryRef.current = result.updatedSummary;
+          onSummaryRef.current(result.updatedSummary);
+        }
+        jobsRef.current.delete(r.job.id);
+        onResultRef.current(r.job, result, r.failures);
+      } else {
+        onErrorRef.current(error);
+        r.failures += 1;
+        if (isRetryable(error) && r.retries < MAX_RETRIES) {
+          r.retries += 1;
+          r.phase = "queued";
+          r.notBefore = Date.now() + retryDelay(error, r.retries);
+        } else {
+          r.phase = "failed";
+          r.error = error instanceof Error ? error.message : "Translation request failed.";
+        }
+      }
+
+      publish();
+      pumpRef.current();
+    },
+    [publish],
+  );
+
+  // Starts whatever may run now, and wakes up again for the earliest job still waiting.
+  const pump = useCallback(() => {
+    if (timerRef.current != null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const now = Date.now();
+    const heldUntil = notBeforeRef.current();
+    let wakeAt = Infinity;
+    // One summary job at a time; a queued one also holds back the later ones.
+    let isSummaryBusy = [...jobsRef.current.values()].some(
+      (r) => r.phase === "running" && r.job.request.updateSummary,
+    );
+
+    for (const r of jobsRef.current.values()) {
+      const updatesSummary = Boolean(r.job.request.updateSummary);
+      if (r.phase !== "queued") continue;
+      if (updatesSummary) {
+        if (isSummaryBusy) continue;
+        isSummaryBusy = true;
+      }
+      const readyAt = Math.max(r.notBefore, heldUntil);
+      if (readyAt > now) {
+        wakeAt = Math.min(wakeAt, readyAt);
+        continue;
+      }
+      if (runningRef.current >= MAX_CONCURRENT) break;
+      void run(r);
+    }
+
+    if (wakeAt !== Infinity) {
+      timerRef.current = window.setTimeout(() => pumpRef.current(), wakeAt - now);
+    }
+  }, [run]);
+
+  useEffect(() => {
+    pumpRef.current = pump;
+  }, [pump]);
+
+  const enqueue = useCallback(
+    (jobs: TranslationJob[]) => {
+      for (const job of jobs) {
+        if (jobsRef.current.has(job.id)) continue;
+        const r: JobRecord = {
+          job,
+          phase: "queued",
+          retries: 0,
+          failures: 0,
+          notBefore: 0,
+        };
+        jobsRef.current.set(job.id, r);
+      }
+      publish();
+      pump();
+    },
+    [publish, pump],
+  );
+
+  // Tries a failed job again, with a fresh set of retries.
+  const retry = useCallback(
+    (id: string) => {
+      const r = jobsRef.current.get(id);
+      if (!r || r.phase !== "failed") return;
+      r.phase = "queued";
+      r.retries = 0;
+      r.notBefore = 0;
+      delete r.error;
+      publish();
+      pump();
+    },
+    [publish, pump],
+  );
+
+  // Drops every job; answers still in flight are ignored.
+  const clear = useCallback(() => {
+    generationRef.current += 1;
+    jobsRef.current = new Map();
+    runningRef.current = 0;
+    if (timerRef.current != null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    setStates({});
+  }, []);
+
+  useEffect(() => clear, [clear]);
+
+  return { states, enqueue, retry, clear };
+}
@@ -0,0 +1,20 @@
+import { createBrowserTtsProvider } from "./providers/browser";
+import { createElevenLabsTtsProvider } from "./providers/elevenlabs";
+import type { TtsProvider, TtsProviderId } from "./types";
+
+export * from "./types";
+
+export const TTS_PROVIDERS: Array<{ id: TtsProviderId; label: string }> = [
+  { id: "browser", label: "Browser (speechSynthesis)" },
+  { id: "elevenlabs", label: "ElevenLabs" },
+];
+
+// `headers` carries the dev-only ElevenLabs key, like /api/scribe-token, and the meeting id.
+export function createTtsProvider(id: TtsProviderId, headers: Record<string, string>): TtsProvider {
+  switch (id) {
+    case "browser":
+      return createBrowserTtsProvider();
+    case "elevenlabs":
+      return createElevenLabsTtsProvider(headers);
+  }
+}
@@ -0,0 +1,77 @@
+import { getLanguage, type LanguageCode } from "@/lib/languages";
+import type { TtsProvider, TtsVoice } from "../types";
+
+// Chrome fills getVoices() asynchronously; wait for "voiceschanged" (bounded).
+function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+  const voices = speechSynthesis.getVoices();
+  if (voices.length) return Promise.resolve(voices);
+  return new Promise((resolve) => {
+    const done = () => {
+      speechSynthesis.removeEventListener("voiceschanged", done);
+      window.clearTimeout(timer);
+      resolve(speechSynthesis.getVoices());
+    };
+    const timer = window.setTimeout(done, 2000);
+    speechSynthesis.addEventListener("voiceschanged", done);
+  });
+}
+
+function matchesLanguage(voice: SpeechSynthesisVoice, lang: LanguageCode): boolean {
+  const tag = voice.lang.toLowerCase().replace("_", "-");
+  // Registry codes are ISO-639-1; zh voices are tagged zh-CN / zh-TW / ...
+  return tag === lang || tag.startsWith(`${lang}-`);
+}
+
+/**
+ * Web Speech API (speechSynthesis). Free and offline-capable, voice quality depends on the OS.
+ */
+export function createBrowserTtsProvider(): TtsProvider {
+  return {
+    id: "browser",
+
+    async listVoices(lang) {
+      if (typeof speechSynthesis === "undefined") return [];
+      const voices = await loadVoices();
+      return voices
+        .filter((v) => matchesLanguage(v, lang))
+        .map((v): TtsVoice => ({ id: v.voiceURI, name: v.name, lang: v.lang }));
+    },
+
+    async speak(text, { lang, voiceId, volume, signal }) {
+      if (typeof speechSynthesis === "undefined") {
+        throw new Error("This browser does not support speech synthesis.");
+      }
+      if (signal.aborted) return;
+
+      const voices = await loadVoices();
+      const utterance = new SpeechSynthesisUtterance(text);
+      const voice =
+        voices.find((v) => v.voiceURI === voiceId) ?? voices.find((v) => matchesLanguage(v, lang));
+      if (voice) utterance.voice = voice;
+      utterance.lang = voice?.lang ?? lang;
+      utterance.volume = volume;
+
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          speechSynthesis.cancel();
+          resolve();
+        };
+        utterance.onend = () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        utterance.onerror = (e) => {
+          signal.removeEventListener("abort", onAbort);
+          // cancel() reports "interrupted"/"canceled"; that's a skip, not a failure.
+          if (e.error === "interrupted" || e.error === "canceled") resolve();
+          else
+            reject(
+              new Error(`Speech synthesis failed (${e.error}) for ${getLanguage(lang).name}.`),
+            );
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        speechSynthesis.speak(utterance);
+      });
+    },
+  };
+}
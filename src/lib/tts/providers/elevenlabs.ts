@@ -0,0 +1,81 @@
+import type { TtsProvider, TtsVoice } from "../types";
+
+/**
+ * ElevenLabs TTS through /api/tts (the API key stays on the server). Voices are multilingual,
+ * so every voice is offered for every language.
+ */
+export function createElevenLabsTtsProvider(headers: Record<string, string>): TtsProvider {
+  let voices: Promise<TtsVoice[]> | null = null;
+
+  return {
+    id: "elevenlabs",
+
+    listVoices() {
+      voices ??= fetch("/api/tts/voices", { headers })
+        .then(async (resp) => {
+          const data = (await resp.json()) as { voices?: TtsVoice[]; error?: string };
+          if (!resp.ok) throw new Error(data?.error || "Failed to load ElevenLabs voices.");
+          return data.voices ?? [];
+        })
+        .catch((e: unknown) => {
+          voices = null;
+          throw e;
+        });
+      return voices;
+    },
+
+    async speak(text, { lang, voiceId, volume, signal }) {
+      let resp: Response;
+      try {
+        resp = await fetch("/api/tts", {
+          method: "POST",
+          headers: { ...headers, "Content-Type": "application/json" },
+          body: JSON.stringify({ text, lang, voiceId }),
+          signal,
+        });
+      } catch (e) {
+        if (signal.aborted) return;
+        throw e;
+      }
+      if (!resp.ok) {
+        const data = (await resp.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data?.error || "Text-to-speech request failed.");
+      }
+
+      // Skip can land while the audio is still downloading.
+      let blob: Blob;
+      try {
+        blob = await resp.blob();
+      } catch (e) {
+        if (signal.aborted) return;
+        throw e;
+      }
+      if (signal.aborted) return;
+
+      const url = URL.createObjectURL(blob);
+      const audio = new Audio(url);
+      audio.volume = volume;
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const onAbort = () => {
+            audio.pause();
+            resolve();
+          };
+          const fail = (e: unknown) => {
+            signal.removeEventListener("abort", onAbort);
+            reject(e);
+          };
+          audio.onended = () => {
+            signal.removeEventListener("abort", onAbort);
+            resolve();
+          };
+          audio.onerror = () => fail(new Error("Could not play synthesized speech."));
+          signal.addEventListener("abort", onAbort, { once: true });
+          audio.play().catch(fail);
+        });
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    },
+  };
+}
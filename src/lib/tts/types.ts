@@ -0,0 +1,49 @@
+import type { LanguageCode } from "@/lib/languages";
+
+export type TtsProviderId = "browser" | "elevenlabs";
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  // BCP-47 tag when the backend knows it (browser voices); multilingual voices leave it unset.
+  lang?: string;
+}
+
+export interface SpeakOptions {
+  lang: LanguageCode;
+  // Backend default when unset.
+  voiceId?: string;
+  // 0..1
+  volume: number;
+  // Aborting stops playback; speak() then resolves.
+  signal: AbortSignal;
+}
+
+/**
+ * Spoken output backend. speak() resolves once the utterance has finished playing.
+ */
+export interface TtsProvider {
+  id: TtsProviderId;
+  listVoices(lang: LanguageCode): Promise<TtsVoice[]>;
+  speak(text: string, options: SpeakOptions): Promise<void>;
+}
+
+/**
+ * Voice output settings (stored in localStorage).
+ */
+export interface VoiceOutputPrefs {
+  enabled: boolean;
+  provider: TtsProviderId;
+  volume: number;
+  // Which output language is read aloud; the first output language when unset.
+  lang: LanguageCode | null;
+  voices: Partial<Record<LanguageCode, string>>;
+}
+
+export const DEFAULT_VOICE_OUTPUT_PREFS: VoiceOutputPrefs = {
+  enabled: false,
+  provider: "browser",
+  volume: 1,
+  lang: null,
+  voices: {},
+};
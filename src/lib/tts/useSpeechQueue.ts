@@ -0,0 +1,97 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LanguageCode } from "@/lib/languages";
+import type { TtsProvider } from "./types";
+
+export interface SpeechItem {
+  id: string;
+  text: string;
+  lang: LanguageCode;
+}
+
+export interface UseSpeechQueueOptions {
+  provider: TtsProvider | null;
+  // 0..1, applied from the next utterance.
+  volume: number;
+  // Voice id per language; the backend default is used when unset.
+  voices: Partial<Record<LanguageCode, string>>;
+}
+
+/**
+ * Speaks queued items one after another, in enqueue order.
+ */
+export function useSpeechQueue({ provider, volume, voices }: UseSpeechQueueOptions) {
+  const [queue, setQueue] = useState<SpeechItem[]>([]);
+  const [current, setCurrent] = useState<SpeechItem | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const queueRef = useRef<SpeechItem[]>([]);
+  const isRunningRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const providerRef = useRef(provider);
+  const volumeRef = useRef(volume);
+  const voicesRef = useRef(voices);
+
+  useEffect(() => {
+    providerRef.current = provider;
+    volumeRef.current = volume;
+    voicesRef.current = voices;
+  }, [provider, voices, volume]);
+
+  const pump = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    try {
+      while (queueRef.current.length && providerRef.current) {
+        const item = queueRef.current.shift()!;
+        setQueue([...queueRef.current]);
+        setCurrent(item);
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        try {
+          await providerRef.current.speak(item.text, {
+            lang: item.lang,
+            voiceId: voicesRef.current[item.lang],
+            volume: volumeRef.current,
+            signal: controller.signal,
+          });
+        } catch (e) {
+          // Keep going; one failed utterance shouldn't silence the rest of the meeting.
+          setLastError(e instanceof Error ? e.message : "Speech playback failed.");
+        }
+      }
+    } finally {
+      abortRef.current = null;
+      isRunningRef.current = false;
+      setCurrent(null);
+    }
+  }, []);
+
+  const enqueue = useCallback(
+    (item: SpeechItem) => {
+      queueRef.current.push(item);
+      setQueue([...queueRef.current]);
+      setLastError(null);
+      void pump();
+    },
+    [pump],
+  );
+
+  // Stops the current utterance; the next one starts right away.
+  const skip = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const clear = useCallback(() => {
+    queueRef.current = [];
+    setQueue([]);
+    abortRef.current?.abort();
+  }, []);
+
+  // Stop talking on unmount.
+  useEffect(() => clear, [clear]);
+
+  return { queue, current, lastError, enqueue, skip, clear };
+}
@@ -0,0 +1,160 @@
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { after } from "next/server";
+import { getSessionUser, resolveAuthConfig } from "@/lib/auth";
+import { buildUserMessage, SYSTEM_INSTRUCTION } from "@/lib/translate/prompt";
+import type {
+  TranslateInput,
+  TranslationProviderConfig,
+  TranslationUsage,
+} from "@/lib/translate/types";
+import { MEETING_ID_HEADER, type UsageEvent, type UsageMode } from "./types";
+
+export { resolvePriceTable } from "./prices";
+export { summarizeUsage } from "./summary";
+export * from "./types";
+
+/**
+ * Usage log: one JSON line per billable call in AUTH_DATA_DIR/usage-YYYY-MM.jsonl (one file per
+ * UTC month). Costs are not stored; the usage page prices the raw counts with the current price
+ * table.
+ */
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type UsageInput = DistributiveOmit<UsageEvent, "at" | "user" | "userId" | "meetingId">;
+type TranslationUsageInput = Extract<UsageInput, { kind: "translate" }>;
+
+// Written before the log was split by month; still read.
+const LEGACY_FILE_NAME = "usage.jsonl";
+const MEETING_ID_PATTERN = /^[\w-]{1,100}$/;
+// Rough size of a token, for streams aborted before the provider reported usage.
+const CHARS_PER_TOKEN = 4;
+
+function monthFile(dataDir: string, at: number): string {
+  return path.join(dataDir, `usage-${new Date(at).toISOString().slice(0, 7)}.jsonl`);
+}
+
+/**
+ * Appends one call to the usage log, attributed to the signed-in user and the meeting named in
+ * the `x-meeting-id` header. Nothing waits for the write: accounting must never fail or delay a
+ * request, so a failed write only loses the entry.
+ */
+export function recordUsage(req: Request, usage: UsageInput): void {
+  const auth = resolveAuthConfig();
+  if (!auth.ok) return;
+  const { dataDir } = auth.config;
+  const meetingId = req.headers.get(MEETING_ID_HEADER)?.trim() ?? "";
+  const user = getSessionUser(req, auth.config);
+  const event = {
+    ...usage,
+    at: Date.now(),
+    user: user?.name ?? null,
+    userId: user?.id ?? null,
+    meetingId: MEETING_ID_PATTERN.test(meetingId) ? meetingId : null,
+  } as UsageEvent;
+
+  const write = (async () => {
+    try {
+      await mkdir(dataDir, { recursive: true });
+      await appendFile(monthFile(dataDir, event.at), `${JSON.stringify(event)}\n`, {
+        mode: 0o600,
+      });
+    } catch {
+      // Lost entry; see above.
+    }
+  })();
+  try {
+    // Keeps the request's work alive (serverless) until the entry is written.
+    after(write);
+  } catch {
+    // Called after the response ended (an aborted stream); the write is already under way.
+  }
+}
+
+/**
+ * Usage entry for a translation provider call; providers that report nothing still count as a
+ * request. Only partial translations run on the partial model.
+ */
+export function translationUsage(
+  config: TranslationProviderConfig,
+  mode: UsageMode,
+  usage: TranslationUsage | undefined,
+): TranslationUsageInput {
+  return {
+    kind: "translate",
+    provider: config.provider,
+    model: mode === "partial" ? config.partialModel : config.model,
+    mode,
+    inputTokens: usage?.inputTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+    characters: usage?.characters ?? 0,
+  };
+}
+
+/**
+ * Usage entry for a translation stream aborted before the provider reported usage (a superseded
+ * partial): tokens estimated from the prompt and the text streamed so far.
+ */
+export function abortedTranslationUsage(
+  config: TranslationProviderConfig,
+  input: TranslateInput,
+  streamed: string,
+): TranslationUsageInput {
+  const promptChars = SYSTEM_INSTRUCTION.length + buildUserMessage(input).length;
+  return {
+    ...translationUsage(config, input.mode, {
+      inputTokens: Math.ceil(promptChars / CHARS_PER_TOKEN),
+      outputTokens: Math.ceil(streamed.length / CHARS_PER_TOKEN),
+      characters: input.text.length,
+    }),
+    estimated: true,
+  };
+}
+
+// Lines of one log file that pass `keep`; a missing file has none.
+async function readLogFile(
+  file: string,
+  keep: (e: UsageEvent) => boolean,
+  into: UsageEvent[],
+): Promise<void> {
+  const lines = createInterface({
+    input: createReadStream(file, { encoding: "utf8" }),
+    crlfDelay: Infinity,
+  });
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const e = JSON.parse(line) as UsageEvent;
+        if (typeof e.at === "number" && keep(e)) into.push(e);
+      } catch {
+        // A line cut short by a crash; skip it.
+      }
+    }
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+  }
+}
+
+/**
+ * Logged calls since `since` (ms), oldest first; with `userId`, only that user's. Reads the
+ * monthly files the range covers, one line at a time.
+ */
+export async function readUsage(since: number, userId?: string): Promise<UsageEvent[]> {
+  const auth = resolveAuthConfig();
+  if (!auth.ok) return [];
+  const { dataDir } = auth.config;
+  const keep = (e: UsageEvent) => e.at >= since && (userId == null || e.userId === userId);
+
+  const events: UsageEvent[] = [];
+  await readLogFile(path.join(dataDir, LEGACY_FILE_NAME), keep, events);
+  const month = new Date(since);
+  month.setUTCDate(1);
+  month.setUTCHours(0, 0, 0, 0);
+  for (; month.getTime() <= Date.now(); month.setUTCMonth(month.getUTCMonth() + 1)) {
+    await readLogFile(monthFile(dataDir, month.getTime()), keep, events);
+  }
+  return events;
+}
@@ -0,0 +1,73 @@
+/**
+ * Price table for the cost estimate, overridable with USAGE_PRICES (JSON, merged over the
+ * defaults), e.g. `{"tokens":{"my-model":{"input":0.5,"output":1.5}},"scribePerHour":0.3}`.
+ *
+ * The defaults are list prices when this was written; check your own contracts.
+ */
+export interface PriceTable {
+  currency: string;
+  // Per million tokens, by model (or Azure deployment) name.
+  tokens: Record<string, { input: number; output: number }>;
+  // Per million characters, for character-billed models (DeepL, ElevenLabs TTS).
+  characters: Record<string, number>;
+  // Scribe realtime, per hour of audio.
+  scribePerHour: number;
+}
+
+export type ResolvedPriceTable = { ok: true; prices: PriceTable } | { ok: false; error: string };
+
+export const DEFAULT_PRICES: PriceTable = {
+  currency: "USD",
+  tokens: {
+    "gpt-4.1": { input: 2, output: 8 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+  },
+  characters: {
+    deepl: 25,
+    eleven_flash_v2_5: 50,
+    eleven_multilingual_v2: 100,
+    mock: 0,
+  },
+  scribePerHour: 0.4,
+};
+
+function isPrice(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+export function resolvePriceTable(): ResolvedPriceTable {
+  const raw = process.env.USAGE_PRICES?.trim();
+  if (!raw) return { ok: true, prices: DEFAULT_PRICES };
+
+  let parsed: Partial<PriceTable>;
+  try {
+    parsed = JSON.parse(raw) as Partial<PriceTable>;
+  } catch {
+    return { ok: false, error: "USAGE_PRICES is not valid JSON." };
+  }
+
+  const tokens = { ...DEFAULT_PRICES.tokens, ...parsed.tokens };
+  const characters = { ...DEFAULT_PRICES.characters, ...parsed.characters };
+  const scribePerHour = parsed.scribePerHour ?? DEFAULT_PRICES.scribePerHour;
+  const valid =
+    Object.values(tokens).every((p) => isPrice(p?.input) && isPrice(p?.output)) &&
+    Object.values(characters).every(isPrice) &&
+    isPrice(scribePerHour);
+  if (!valid) {
+    return { ok: false, error: "USAGE_PRICES: prices must be non-negative numbers." };
+  }
+
+  return {
+    ok: true,
+    prices: {
+      currency: typeof parsed.currency === "string" ? parsed.currency : DEFAULT_PRICES.currency,
+      tokens,
+      characters,
+      scribePerHour,
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import type { PriceTable } from "./prices";
+import type {
+  DayUsage,
+  MeetingUsage,
+  ModelUsage,
+  UsageEvent,
+  UsageReport,
+  UsageTotals,
+} from "./types";
+
+function emptyTotals(): UsageTotals {
+  return {
+    translateRequests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    translateCharacters: 0,
+    scribeSeconds: 0,
+    ttsCharacters: 0,
+    cost: 0,
+  };
+}
+
+// Estimated cost of one event; null when its model has no price.
+function eventCost(e: UsageEvent, prices: PriceTable): number | null {
+  switch (e.kind) {
+    case "translate": {
+      const perToken = prices.tokens[e.model];
+      if (perToken) {
+        return (e.inputTokens * perToken.input + e.outputTokens * perToken.output) / 1e6;
+      }
+      const perChar = prices.characters[e.model];
+      return perChar == null ? null : (e.characters * perChar) / 1e6;
+    }
+    case "scribe":
+      return (e.seconds / 3600) * prices.scribePerHour;
+    case "tts": {
+      const perChar = prices.characters[e.model];
+      return perChar == null ? null : (e.characters * perChar) / 1e6;
+    }
+  }
+}
+
+function add(t: UsageTotals, e: UsageEvent, cost: number) {
+  t.cost += cost;
+  if (e.kind === "translate") {
+    t.translateRequests += 1;
+    t.inputTokens += e.inputTokens;
+    t.outputTokens += e.outputTokens;
+    t.translateCharacters += e.characters;
+  } else if (e.kind === "scribe") {
+    t.scribeSeconds += e.seconds;
+  } else {
+    t.ttsCharacters += e.characters;
+  }
+}
+
+/**
+ * Totals per model and mode, per meeting and per UTC day (newest first), priced with `prices`.
+ */
+export function summarizeUsage(
+  events: UsageEvent[],
+  prices: PriceTable,
+  since: number,
+): UsageReport {
+  const total = emptyTotals();
+  const byModel = new Map<string, ModelUsage>();
+  const byMeeting = new Map<string, MeetingUsage>();
+  const byDay = new Map<string, DayUsage>();
+  const unpriced = new Set<string>();
+
+  for (const e of events) {
+    if (e.at < since) continue;
+    const priced = eventCost(e, prices);
+    if (priced == null && "model" in e) unpriced.add(e.model);
+    const cost = priced ?? 0;
+    add(total, e, cost);
+
+    if (e.kind === "translate") {
+      const key = `${e.mode}:${e.model}`;
+      let m = byModel.get(key);
+      if (!m) byModel.set(key, (m = { ...emptyTotals(), model: e.model, mode: e.mode }));
+      add(m, e, cost);
+    }
+
+    if (e.meetingId) {
+      let m = byMeeting.get(e.meetingId);
+      if (!m) {
+        m = { ...emptyTotals(), meetingId: e.meetingId, users: [], firstAt: e.at, lastAt: e.at };
+        byMeeting.set(e.meetingId, m);
+      }
+      add(m, e, cost);
+      m.firstAt = Math.min(m.firstAt, e.at);
+      m.lastAt = Math.max(m.lastAt, e.at);
+      if (e.user && !m.users.includes(e.user)) m.users.push(e.user);
+    }
+
+    const day = new Date(e.at).toISOString().slice(0, 10);
+    let d = byDay.get(day);
+    if (!d) byDay.set(day, (d = { ...emptyTotals(), day }));
+    add(d, e, cost);
+  }
+
+  return {
+    currency: prices.currency,
+    since,
+    total,
+    byModel: [...byModel.values()].sort((a, b) => b.cost - a.cost),
+    byMeeting: [...byMeeting.values()].sort((a, b) => b.lastAt - a.lastAt),
+    byDay: [...byDay.values()].sort((a, b) => b.day.localeCompare(a.day)),
+    unpricedModels: [...unpriced].sort(),
+  };
+}
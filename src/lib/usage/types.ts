@@ -0,0 +1,77 @@
+import type { TranslateMode } from "@/lib/translate/types";
+
+// Language-model work: translation (partial / committed) or meeting minutes.
+export type UsageMode = TranslateMode | "minutes";
+
+/**
+ * One billable call, as appended to the usage log. `meetingId` comes from the client's
+ * `x-meeting-id` header and is null for calls made outside a meeting.
+ */
+interface UsageEventBase {
+  at: number;
+  // Signed-in user name and id, or null while sign-in is off.
+  user: string | null;
+  userId?: string | null;
+  meetingId: string | null;
+}
+
+export type UsageEvent =
+  | (UsageEventBase & {
+      kind: "translate";
+      provider: string;
+      model: string;
+      mode: UsageMode;
+      inputTokens: number;
+      outputTokens: number;
+      // Billing unit of character-priced providers (DeepL).
+      characters: number;
+      // Counted from text lengths: the stream was aborted before the provider reported usage.
+      estimated?: boolean;
+    })
+  | (UsageEventBase & { kind: "scribe"; seconds: number })
+  | (UsageEventBase & { kind: "tts"; model: string; characters: number });
+
+export const MEETING_ID_HEADER = "x-meeting-id";
+
+/** Totals for one group of events (a day, a meeting or everything). */
+export interface UsageTotals {
+  translateRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  translateCharacters: number;
+  scribeSeconds: number;
+  ttsCharacters: number;
+  // Estimated from the price table; models missing from it count as 0.
+  cost: number;
+}
+
+export interface ModelUsage extends UsageTotals {
+  model: string;
+  mode: UsageMode;
+}
+
+export interface MeetingUsage extends UsageTotals {
+  meetingId: string;
+  users: string[];
+  firstAt: number;
+  lastAt: number;
+}
+
+export interface DayUsage extends UsageTotals {
+  // YYYY-MM-DD (UTC).
+  day: string;
+}
+
+/** GET /api/usage */
+export interface UsageReport {
+  currency: string;
+  since: number;
+  total: UsageTotals;
+  byModel: ModelUsage[];
+  byMeeting: MeetingUsage[];
+  byDay: DayUsage[];
+  // Models that were used but have no price, so their cost is missing from the estimate.
+  unpricedModels: string[];
+  // Everyone's usage, or only the signed-in user's (see AUTH_ADMINS).
+  scope?: "all" | "own";
+}
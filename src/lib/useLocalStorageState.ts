@@ -2,20 +2,39 @@
 
 import { useEffect, useState } from "react";
 
-export function useLocalStorageState<T>(key: string, initialValue: T) {
+export interface LocalStorageMigration<T> {
+  // A setting this one replaced; read (and removed) only while `key` has never been saved.
+  key: string;
+  // Its stored value as this setting's, or null to ignore it.
+  map: (value: unknown) => T | null;
+}
+
+export function useLocalStorageState<T>(
+  key: string,
+  initialValue: T,
+  migrateFrom?: LocalStorageMigration<T>,
+) {
   const [value, setValue] = useState<T>(initialValue);
   const [isHydrated, setIsHydrated] = useState(false);
+  const migrateKey = migrateFrom?.key;
+  const migrateMap = migrateFrom?.map;
 
   useEffect(() => {
     try {
       const raw = localStorage.getItem(key);
       if (raw != null) setValue(JSON.parse(raw) as T);
+      else if (migrateKey && migrateMap) {
+        const legacy = localStorage.getItem(migrateKey);
+        const migrated = legacy != null ? migrateMap(JSON.parse(legacy)) : null;
+        if (migrated != null) setValue(migrated);
+        localStorage.removeItem(migrateKey);
+      }
     } catch {
       // ignore
     } finally {
       setIsHydrated(true);
     }
-  }, [key]);
+  }, [key, migrateKey, migrateMap]);
 
   useEffect(() => {
     if (!isHydrated) return;
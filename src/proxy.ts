@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { resolveAuthConfig } from "@/lib/auth/config";
+import { readSessionToken, SESSION_COOKIE } from "@/lib/auth/session";
+
+// Reachable without signing in: the login flow and the audience view (join-code protected).
+const PUBLIC_PATHS = [/^\/login$/, /^\/api\/auth\//, /^\/view\//, /^\/api\/share\/[^/]+\/events$/];
+
+/**
+ * Sign-in gate (AUTH_MODE=local|oidc). Pages redirect to /login, API routes answer 401.
+ */
+export function proxy(req: NextRequest) {
+  const auth = resolveAuthConfig();
+  const { pathname, search } = req.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+
+  if (!auth.ok) {
+    // Fail closed: a broken auth setup must not leave the app open.
+    return isApi
+      ? NextResponse.json({ error: auth.error }, { status: 500 })
+      : new NextResponse(auth.error, { status: 500 });
+  }
+  if (auth.config.mode === "none") return NextResponse.next();
+  if (PUBLIC_PATHS.some((p) => p.test(pathname))) return NextResponse.next();
+
+  const user = readSessionToken(req.cookies.get(SESSION_COOKIE)?.value, auth.config.secret);
+  if (user) return NextResponse.next();
+
+  if (isApi) return NextResponse.json({ error: "Sign in required." }, { status: 401 });
+  const login = new URL("/login", req.url);
+  login.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Everything but Next.js internals and static files.
+  matcher: [
+    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)",
+  ],
+};